@@ -0,0 +1,253 @@
+import { parseArgs } from "util";
+import type { EncryptionType } from "../onion/crypto-util";
+import type { OnionDestination } from "../onion/onion-builder";
+import { LSRPC_ENDPOINT } from "../onion/lsrpc-client";
+
+/**
+ * Command line parsing for the onion CLI
+ * Kept free of I/O so the flag handling can be tested on its own
+ */
+
+export const COMMANDS = [
+    "get",
+    "send",
+    "list-nodes",
+    "refresh-nodes",
+    "path",
+    "health",
+] as const;
+
+export const DEFAULT_NODE_FILE = "data/service-nodes.json";
+export const LOCAL_SERVER_URL = "http://localhost:3001";
+
+export const USAGE = `Usage: npm run onion -- <command> [options]
+
+Commands:
+  get <msgId>           Fetch a message and decrypt it when it is ours
+  send [text]           Encrypt and send a message (default: a greeting)
+  list-nodes            Print the known service nodes
+  refresh-nodes         Fetch a fresh node list and save it to the node file
+  path                  Build an onion path and print its hops
+  health                Call GET /health on the server through the onion
+
+Options:
+  -u, --url <url>            Server URL (default: the running ngrok tunnel)
+  -l, --local                Use ${LOCAL_SERVER_URL} as the server URL
+  -k, --pubkey <hex>         Server X25519 public key (default: $SERVER_X25519_PUBKEY)
+      --hops <n>             Onion path length (default: 3)
+  -e, --enc-type <type>      Layer encryption: aes-gcm or xchacha20 (default: aes-gcm)
+  -n, --nodes <file>         Service node file (default: $SERVICE_NODES_FILE or ${DEFAULT_NODE_FILE})
+      --tls-pins <file>      JSON file of service node TLS pins (default: $ONION_TLS_PINS)
+      --insecure-tls         Skip TLS certificate checks; local testing only
+      --json                 Print machine readable JSON only
+  -v, --verbose              Show debug logs (see also LOG_LEVEL, LOG_FORMAT)
+  -h, --help                 Show this help
+
+send options:
+      --recipient-key <hex>  Recipient X25519 key (default: $RECIPIENT_X25519_PUBKEY, or yourself)
+      --recipient <mailbox>  Recipient mailbox: their Ed25519 key, hex
+      --conversation <id>    Conversation id
+      --ttl <ms>             Message time-to-live in ms
+
+refresh-nodes options:
+      --limit <n>            Number of nodes to fetch (default: 20)
+
+Requests are signed with IDENTITY_SECRET_KEY, or a new identity for each run.
+`;
+
+/**
+ * Bad command line input; the CLI prints it with the usage text
+ */
+export class CliUsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+export function parseCliArgs(
+    argv: string[],
+    env: NodeJS.ProcessEnv = process.env
+): CliOptions {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                url: { type: "string", short: "u" },
+                local: { type: "boolean", short: "l" },
+                pubkey: { type: "string", short: "k" },
+                hops: { type: "string" },
+                "enc-type": { type: "string", short: "e" },
+                nodes: { type: "string", short: "n" },
+                "tls-pins": { type: "string" },
+                "insecure-tls": { type: "boolean" },
+                json: { type: "boolean" },
+                verbose: { type: "boolean", short: "v" },
+                help: { type: "boolean", short: "h" },
+                "recipient-key": { type: "string" },
+                recipient: { type: "string" },
+                conversation: { type: "string" },
+                ttl: { type: "string" },
+                limit: { type: "string" },
+            },
+        });
+    } catch (error: any) {
+        // parseArgs throws TypeErrors for unknown or malformed flags
+        throw new CliUsageError(error.message);
+    }
+
+    const { values, positionals } = parsed;
+    const [command, ...args] = positionals;
+    if (values.help) {
+        return { ...optionsFrom(values, env), command: "help", args: [] };
+    }
+    if (!command) {
+        throw new CliUsageError("Missing command");
+    }
+    if (!isCommand(command)) {
+        throw new CliUsageError(`Unknown command: ${command}`);
+    }
+
+    const maxArgs = command === "get" || command === "send" ? 1 : 0;
+    if (args.length > maxArgs) {
+        throw new CliUsageError(
+            `Unexpected argument for ${command}: ${args[maxArgs]}`
+        );
+    }
+    if (command === "get" && args.length === 0) {
+        throw new CliUsageError("get needs a message id");
+    }
+    if (values.url && values.local) {
+        throw new CliUsageError("Use either --url or --local, not both");
+    }
+    if (values["tls-pins"] && values["insecure-tls"]) {
+        throw new CliUsageError(
+            "Use either --tls-pins or --insecure-tls, not both"
+        );
+    }
+
+    return { ...optionsFrom(values, env), command, args };
+}
+
+/**
+ * Onion destination for the server's LSRPC endpoint at url
+ */
+export function destinationFromUrl(
+    url: string,
+    pubkey: string | undefined
+): OnionDestination {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new CliUsageError(`Invalid server URL: ${url}`);
+    }
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+        throw new CliUsageError(`Server URL must be http or https: ${url}`);
+    }
+    if (!pubkey || !/^[0-9a-f]{64}$/i.test(pubkey)) {
+        throw new CliUsageError(
+            "Missing or invalid server X25519 public key; pass the key the server prints on startup with -k or SERVER_X25519_PUBKEY"
+        );
+    }
+
+    const protocol = parsed.protocol === "https:" ? "https" : "http";
+    return {
+        host: parsed.hostname,
+        port: parsed.port
+            ? Number(parsed.port)
+            : protocol === "https"
+            ? 443
+            : 80,
+        protocol,
+        target: LSRPC_ENDPOINT,
+        x25519_pubkey: pubkey,
+    };
+}
+
+// Flag values with defaults filled in from env
+function optionsFrom(
+    values: Record<string, string | boolean | undefined>,
+    env: NodeJS.ProcessEnv
+): Omit<CliOptions, "command" | "args"> {
+    const flag = (name: string) => values[name] as string | undefined;
+
+    const encType = flag("enc-type") ?? "aes-gcm";
+    if (encType !== "aes-gcm" && encType !== "xchacha20") {
+        throw new CliUsageError(
+            `--enc-type must be aes-gcm or xchacha20, got ${encType}`
+        );
+    }
+
+    return {
+        url: values.local ? LOCAL_SERVER_URL : flag("url"),
+        pubkey: flag("pubkey") ?? env.SERVER_X25519_PUBKEY,
+        hops: positiveInteger("--hops", flag("hops")) ?? 3,
+        encType,
+        nodeFile: flag("nodes") ?? (env.SERVICE_NODES_FILE || DEFAULT_NODE_FILE),
+        tlsPinsFile: flag("tls-pins") ?? (env.ONION_TLS_PINS || undefined),
+        insecureTls: values["insecure-tls"] === true,
+        json: values.json === true,
+        verbose: values.verbose === true,
+        recipientKey: flag("recipient-key") ?? env.RECIPIENT_X25519_PUBKEY,
+        recipient: flag("recipient"),
+        conversationId: flag("conversation"),
+        ttl: positiveInteger("--ttl", flag("ttl")),
+        limit: positiveInteger("--limit", flag("limit")) ?? 20,
+    };
+}
+
+function isCommand(value: string): value is CliCommand {
+    return (COMMANDS as readonly string[]).includes(value);
+}
+
+function positiveInteger(
+    flag: string,
+    value: string | undefined
+): number | undefined {
+    if (value === undefined) return undefined;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 1) {
+        throw new CliUsageError(`${flag} must be a positive whole number`);
+    }
+    return number;
+}
+
+export type CliCommand = (typeof COMMANDS)[number];
+
+export interface CliOptions {
+    /** Subcommand to run; "help" prints the usage text */
+    command: CliCommand | "help";
+    /** Positional arguments after the command */
+    args: string[];
+    /** Server URL; undefined means auto-detect the ngrok tunnel */
+    url?: string;
+    /** Server X25519 public key, hex */
+    pubkey?: string;
+    /** Onion path length */
+    hops: number;
+    /** Encryption type for every onion layer */
+    encType: EncryptionType;
+    /** JSON file the service node list is loaded from and saved to */
+    nodeFile: string;
+    /** JSON file of TLS pins per service node */
+    tlsPinsFile?: string;
+    /** Skip TLS certificate checks */
+    insecureTls: boolean;
+    /** Print JSON only */
+    json: boolean;
+    /** Log at debug level */
+    verbose: boolean;
+    /** send: recipient X25519 key, hex */
+    recipientKey?: string;
+    /** send: recipient mailbox */
+    recipient?: string;
+    /** send: conversation id */
+    conversationId?: string;
+    /** send: time-to-live in ms */
+    ttl?: number;
+    /** refresh-nodes: number of nodes to fetch */
+    limit: number;
+}
@@ -0,0 +1,306 @@
+import axios from "axios";
+import { OnionBuilder, OnionDestination } from "../onion/onion-builder";
+import { createLogger } from "../onion/logger";
+import { ServiceNodeDirectory } from "../onion/service-node-directory";
+import { DEFAULT_SERVICE_NODES } from "../onion/default-service-nodes";
+import { readTlsPinsFile } from "../onion/node-tls";
+import { LsrpcClient, OnionTransport } from "../onion/lsrpc-client";
+import {
+    DecryptionError,
+    LsrpcError,
+    OnionError,
+} from "../onion/onion-errors";
+import {
+    generateIdentityKeyPair,
+    identityFromSecretKey,
+} from "../onion/request-signing";
+import {
+    CliCommand,
+    CliOptions,
+    CliUsageError,
+    USAGE,
+    destinationFromUrl,
+    parseCliArgs,
+} from "./cli-options";
+
+/**
+ * Onion request CLI: send LSRPC calls through an onion path and inspect the
+ * service node list
+ * Run with `npm run onion -- <command> [options]`, see USAGE
+ */
+
+const NGROK_API_URL = "http://localhost:4040/api/tunnels";
+
+const COMMAND_HANDLERS: Record<
+    CliCommand,
+    (options: CliOptions) => Promise<void>
+> = {
+    get: getMessage,
+    send: sendMessage,
+    "list-nodes": listNodes,
+    "refresh-nodes": refreshNodes,
+    path: printPath,
+    health: checkHealth,
+};
+
+/**
+ * Run the CLI and resolve to its exit code: 0 on success, 1 when the
+ * command failed and 2 for bad command line input
+ */
+export async function main(argv: string[]): Promise<number> {
+    let options: CliOptions;
+    try {
+        options = parseCliArgs(argv);
+    } catch (error: unknown) {
+        if (!(error instanceof CliUsageError)) throw error;
+        console.error(`❌ ${error.message}\n`);
+        console.error(USAGE);
+        return 2;
+    }
+
+    if (options.command === "help") {
+        console.log(USAGE);
+        return 0;
+    }
+
+    try {
+        await COMMAND_HANDLERS[options.command](options);
+        return 0;
+    } catch (error: unknown) {
+        reportError(error, options);
+        return error instanceof CliUsageError ? 2 : 1;
+    }
+}
+
+async function getMessage(options: CliOptions): Promise<void> {
+    const client = await createClient(options);
+    const message = await client.getMessage(options.args[0]);
+
+    // Only the sender and recipient keys can read the content
+    let text: string | null = null;
+    try {
+        text = await client.readMessage(message);
+    } catch (error: unknown) {
+        if (!(error instanceof DecryptionError)) throw error;
+    }
+
+    print(options, { message, text }, [
+        `✅ Message ${message.msgId}`,
+        `📊 Delivery: ${message.deliveryStatus}`,
+        `⏳ Expires: ${new Date(message.expiresAt).toISOString()}`,
+        text === null
+            ? "🔒 Not encrypted to this identity"
+            : `💬 ${text}`,
+    ]);
+}
+
+async function sendMessage(options: CliOptions): Promise<void> {
+    const client = await createClient(options);
+    const text =
+        options.args[0] ??
+        `Hello from onion request - ${new Date().toISOString()}`;
+    const message = await client.sendMessage(text, {
+        recipientKey: options.recipientKey,
+        recipient: options.recipient,
+        conversationId: options.conversationId,
+        ttl: options.ttl,
+    });
+
+    print(options, message, [
+        `✅ Sent message ${message.msgId}`,
+        `🔑 Encrypted to ${message.recipientKey}`,
+        `⏳ Expires: ${new Date(message.expiresAt).toISOString()}`,
+    ]);
+}
+
+async function listNodes(options: CliOptions): Promise<void> {
+    const { builder, fromFile } = await createBuilder(options);
+    const nodes = builder.getServiceNodes();
+    const updatedAt = builder.getNodeDirectory().getUpdatedAt();
+
+    print(
+        options,
+        { source: fromFile ? options.nodeFile : "defaults", updatedAt, nodes },
+        [
+            `📋 ${nodes.length} service nodes from ${
+                fromFile ? options.nodeFile : "the bundled defaults"
+            }${updatedAt ? ` (updated ${updatedAt.toISOString()})` : ""}`,
+            ...nodes.map(
+                (node) =>
+                    `   ${node.pubkey_ed25519.slice(0, 16)}…  ${
+                        node.public_ip
+                    }:${node.storage_port}  swarm ${node.swarm_id}`
+            ),
+        ]
+    );
+}
+
+async function refreshNodes(options: CliOptions): Promise<void> {
+    const { builder } = await createBuilder(options);
+    await builder.updateServiceNodes(options.limit);
+    const nodes = builder.getServiceNodes();
+
+    print(options, { file: options.nodeFile, count: nodes.length }, [
+        `✅ Saved ${nodes.length} service nodes to ${options.nodeFile}`,
+    ]);
+}
+
+async function printPath(options: CliOptions): Promise<void> {
+    const { builder } = await createBuilder(options);
+    const path = await builder.buildOnionPath(options.hops);
+
+    print(options, { path }, [
+        `🧅 ${path.length}-hop path, entry node first:`,
+        ...path.map(
+            (node, index) =>
+                `   ${index + 1}. ${node.ip}:${node.port}  ${node.ed25519_pubkey}`
+        ),
+    ]);
+}
+
+async function checkHealth(options: CliOptions): Promise<void> {
+    const { builder } = await createBuilder(options);
+    const response = await builder.sendOnionRequestV4(
+        { method: "GET", endpoint: "/health" },
+        await resolveDestination(options)
+    );
+    const raw = response.body?.toString() ?? "";
+    let body: unknown = raw;
+    try {
+        body = JSON.parse(raw);
+    } catch {
+        // Not JSON; show the raw body
+    }
+
+    print(options, { status: response.status, body }, [
+        `🏥 Status: ${response.status}`,
+        `📄 ${raw}`,
+    ]);
+    if (response.status < 200 || response.status >= 300) {
+        throw new Error(`Server answered /health with ${response.status}`);
+    }
+}
+
+// Builder over the node file, or the bundled nodes when none is saved yet
+async function createBuilder(
+    options: CliOptions
+): Promise<{ builder: OnionBuilder; fromFile: boolean }> {
+    const directory = new ServiceNodeDirectory({ filePath: options.nodeFile });
+    const fromFile = await directory.load();
+    if (!fromFile) {
+        directory.setNodes(DEFAULT_SERVICE_NODES);
+    }
+
+    // Logs go to stderr so they never mix with --json output; only
+    // warnings and errors unless LOG_LEVEL or --verbose asks for more
+    const logger = createLogger(
+        "onion",
+        { write: (line) => console.error(line) },
+        {
+            LOG_LEVEL: "warn",
+            ...process.env,
+            ...(options.verbose ? { LOG_LEVEL: "debug" } : {}),
+        }
+    );
+    const builder = new OnionBuilder([], options.hops, logger);
+    builder.setNodeDirectory(directory);
+    builder.setEncryptionType(options.encType);
+    builder.setNodeTls({
+        insecure: options.insecureTls,
+        pins: options.tlsPinsFile
+            ? await readTlsPinsFile(options.tlsPinsFile)
+            : undefined,
+    });
+    return { builder, fromFile };
+}
+
+async function createClient(options: CliOptions): Promise<LsrpcClient> {
+    const { builder } = await createBuilder(options);
+    const destination = await resolveDestination(options);
+
+    // Sign with IDENTITY_SECRET_KEY, or a fresh identity for this run
+    const secretKeyHex = process.env.IDENTITY_SECRET_KEY;
+    if (!secretKeyHex && !options.json) {
+        console.error(
+            "🔑 Using a new identity for this run; set IDENTITY_SECRET_KEY to read your messages later"
+        );
+    }
+    const identity = secretKeyHex
+        ? identityFromSecretKey(secretKeyHex)
+        : generateIdentityKeyPair();
+
+    return new LsrpcClient(new OnionTransport(builder, destination), {
+        identity,
+    });
+}
+
+async function resolveDestination(
+    options: CliOptions
+): Promise<OnionDestination> {
+    const url = options.url ?? (await detectNgrokUrl());
+    return destinationFromUrl(url, options.pubkey);
+}
+
+// Public https URL of the local ngrok agent's first tunnel
+async function detectNgrokUrl(): Promise<string> {
+    try {
+        const response = await axios.get(NGROK_API_URL, { timeout: 2000 });
+        const tunnel = (response.data?.tunnels ?? []).find(
+            (candidate: any) =>
+                typeof candidate?.public_url === "string" &&
+                candidate.public_url.startsWith("https://")
+        );
+        if (tunnel) return tunnel.public_url;
+    } catch {
+        // No ngrok agent running; fall through to the usage error
+    }
+    throw new CliUsageError(
+        "Could not auto-detect the ngrok URL; pass --url <url> or --local"
+    );
+}
+
+// JSON only with --json, otherwise the human readable lines
+function print(options: CliOptions, json: unknown, lines: string[]): void {
+    if (options.json) {
+        console.log(JSON.stringify(json, null, 2));
+        return;
+    }
+    for (const line of lines) {
+        console.log(line);
+    }
+}
+
+function reportError(error: unknown, options: CliOptions): void {
+    const message = error instanceof Error ? error.message : String(error);
+    const code =
+        error instanceof LsrpcError || error instanceof OnionError
+            ? error.code
+            : undefined;
+
+    if (options.json) {
+        console.log(
+            JSON.stringify(
+                error instanceof LsrpcError
+                    ? error.toJSON()
+                    : { error: message, ...(code ? { code } : {}) },
+                null,
+                2
+            )
+        );
+        return;
+    }
+    console.error(`❌ ${code ? `${code}: ` : ""}${message}`);
+    if (error instanceof CliUsageError) {
+        console.error(`\n${USAGE}`);
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(
+        (code) => process.exit(code),
+        (error) => {
+            console.error("💥 Fatal error:", error);
+            process.exit(1);
+        }
+    );
+}
@@ -0,0 +1,433 @@
+import { promises as fs } from "fs";
+import { LOG_LEVELS, LogFormat, LogThreshold } from "../onion/logger";
+import {
+    DEFAULT_MAX_MESSAGES_PER_RECIPIENT,
+    DEFAULT_MAX_MESSAGE_BYTES,
+    DEFAULT_MAX_STORED_MESSAGES,
+} from "../rpc/message-methods";
+
+/**
+ * LSRPC server configuration
+ * Settings come from an optional JSON file (SERVER_CONFIG_FILE) shaped
+ * like ServerConfig, and environment variables, which win over the file;
+ * anything unset keeps its default
+ */
+
+export const DEFAULT_PORT = 3001;
+
+/**
+ * Config file or environment values that cannot be used; lists every
+ * problem at once
+ */
+export class ConfigError extends Error {
+    public readonly problems: string[];
+
+    constructor(problems: string[]) {
+        super(`Invalid server config: ${problems.join("; ")}`);
+        this.name = new.target.name;
+        this.problems = problems;
+    }
+}
+
+export async function loadServerConfig(
+    env: NodeJS.ProcessEnv = process.env
+): Promise<ServerConfig> {
+    const file = env.SERVER_CONFIG_FILE
+        ? await readConfigFile(env.SERVER_CONFIG_FILE)
+        : {};
+    const settings = new SettingReader(env, file);
+
+    const storeDefault =
+        env.NODE_ENV === "test" && !env.MESSAGE_STORE_PATH ? "memory" : "jsonl";
+    const config: ServerConfig = {
+        port: settings.integer("PORT", "port", DEFAULT_PORT, 0, 65535),
+        host: settings.optionalString("HOST", "host"),
+        trustProxy: settings.trustProxy("TRUST_PROXY", "trustProxy"),
+        limits: {
+            maxBodyBytes: settings.integer(
+                "MAX_BODY_BYTES",
+                "limits.maxBodyBytes",
+                1024 * 1024,
+                1
+            ),
+            maxMessageBytes: settings.integer(
+                "MAX_MESSAGE_BYTES",
+                "limits.maxMessageBytes",
+                DEFAULT_MAX_MESSAGE_BYTES,
+                1
+            ),
+            maxMessagesPerRecipient: settings.integer(
+                "MAX_MESSAGES_PER_RECIPIENT",
+                "limits.maxMessagesPerRecipient",
+                DEFAULT_MAX_MESSAGES_PER_RECIPIENT,
+                1
+            ),
+            maxStoredMessages: settings.integer(
+                "MAX_STORED_MESSAGES",
+                "limits.maxStoredMessages",
+                DEFAULT_MAX_STORED_MESSAGES,
+                1
+            ),
+            clientRate: {
+                perSecond: settings.positiveNumber(
+                    "RATE_LIMIT_PER_SECOND",
+                    "limits.clientRate.perSecond",
+                    10
+                ),
+                burst: settings.integer(
+                    "RATE_LIMIT_BURST",
+                    "limits.clientRate.burst",
+                    30,
+                    1
+                ),
+            },
+            globalRate: {
+                perSecond: settings.positiveNumber(
+                    "GLOBAL_RATE_LIMIT_PER_SECOND",
+                    "limits.globalRate.perSecond",
+                    200
+                ),
+                burst: settings.integer(
+                    "GLOBAL_RATE_LIMIT_BURST",
+                    "limits.globalRate.burst",
+                    400,
+                    1
+                ),
+            },
+        },
+        storage: {
+            backend: settings.oneOf(
+                "MESSAGE_STORE",
+                "storage.backend",
+                storeDefault,
+                ["memory", "jsonl"] as const
+            ),
+            path: settings.string(
+                "MESSAGE_STORE_PATH",
+                "storage.path",
+                "data/messages.jsonl"
+            ),
+            messageTtlMs: settings.integer(
+                "MESSAGE_TTL_MS",
+                "storage.messageTtlMs",
+                14 * 24 * 60 * 60 * 1000,
+                1
+            ),
+        },
+        auth: {
+            signatureMaxSkewMs: settings.integer(
+                "SIGNATURE_MAX_SKEW_MS",
+                "auth.signatureMaxSkewMs",
+                5 * 60 * 1000,
+                0
+            ),
+            allowUnsigned: settings.boolean(
+                "ALLOW_UNSIGNED_REQUESTS",
+                "auth.allowUnsigned",
+                false
+            ),
+        },
+        keys: {
+            dir:
+                settings.optionalString("SERVER_KEYS_DIR", "keys.dir") ??
+                (env.NODE_ENV === "test" ? undefined : "data/keys"),
+            x25519SecretKey: settings.optionalString(
+                "SERVER_X25519_SECRET_KEY",
+                "keys.x25519SecretKey"
+            ),
+            x25519KeyFile: settings.optionalString(
+                "SERVER_X25519_KEY_FILE",
+                "keys.x25519KeyFile"
+            ),
+            rotationIntervalMs: settings.integer(
+                "X25519_ROTATION_INTERVAL_MS",
+                "keys.rotationIntervalMs",
+                0,
+                0
+            ),
+            rotationGraceMs: settings.integer(
+                "X25519_ROTATION_GRACE_MS",
+                "keys.rotationGraceMs",
+                24 * 60 * 60 * 1000,
+                0
+            ),
+        },
+        log: {
+            level: settings.oneOf(
+                "LOG_LEVEL",
+                "log.level",
+                env.NODE_ENV === "test" ? "silent" : "info",
+                [...LOG_LEVELS, "silent"] as const
+            ),
+            format: settings.oneOf("LOG_FORMAT", "log.format", "pretty", [
+                "pretty",
+                "json",
+            ] as const),
+            showSecrets: settings.boolean(
+                "LOG_SHOW_SECRETS",
+                "log.showSecrets",
+                false
+            ),
+        },
+        shutdownTimeoutMs: settings.integer(
+            "SHUTDOWN_TIMEOUT_MS",
+            "shutdownTimeoutMs",
+            10000,
+            0
+        ),
+    };
+
+    // The key file holds the hex secret key; an inline key wins over it
+    if (!config.keys.x25519SecretKey && config.keys.x25519KeyFile) {
+        try {
+            config.keys.x25519SecretKey = (
+                await fs.readFile(config.keys.x25519KeyFile, "utf8")
+            ).trim();
+        } catch (error: any) {
+            settings.problems.push(
+                `keys.x25519KeyFile ${config.keys.x25519KeyFile}: ${error.message}`
+            );
+        }
+    }
+
+    const { x25519SecretKey } = config.keys;
+    if (x25519SecretKey && !/^[0-9a-f]{64}$/i.test(x25519SecretKey)) {
+        settings.problems.push("keys.x25519SecretKey must be 32 bytes hex");
+    }
+
+    if (settings.problems.length > 0) {
+        throw new ConfigError(settings.problems);
+    }
+    return config;
+}
+
+async function readConfigFile(filePath: string): Promise<ConfigFile> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(await fs.readFile(filePath, "utf8"));
+    } catch (error: any) {
+        throw new ConfigError([`${filePath}: ${error.message}`]);
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        throw new ConfigError([`${filePath} must contain a JSON object`]);
+    }
+    return parsed as ConfigFile;
+}
+
+/**
+ * Reads one setting at a time from the environment, then the config file,
+ * collecting problems instead of throwing
+ */
+class SettingReader {
+    public readonly problems: string[] = [];
+    private env: NodeJS.ProcessEnv;
+    private file: ConfigFile;
+
+    constructor(env: NodeJS.ProcessEnv, file: ConfigFile) {
+        this.env = env;
+        this.file = file;
+    }
+
+    public string(envName: string, path: string, fallback: string): string {
+        return this.optionalString(envName, path) ?? fallback;
+    }
+
+    public optionalString(envName: string, path: string): string | undefined {
+        const { value, source } = this.lookup(envName, path);
+        if (value === undefined) return undefined;
+        if (typeof value !== "string" || value.length === 0) {
+            this.problems.push(`${source} must be a non-empty string`);
+            return undefined;
+        }
+        return value;
+    }
+
+    public integer(
+        envName: string,
+        path: string,
+        fallback: number,
+        min: number,
+        max: number = Number.MAX_SAFE_INTEGER
+    ): number {
+        const { value, source } = this.lookup(envName, path);
+        if (value === undefined) return fallback;
+        const number = typeof value === "string" ? Number(value) : value;
+        if (
+            typeof number !== "number" ||
+            !Number.isInteger(number) ||
+            number < min ||
+            number > max
+        ) {
+            this.problems.push(
+                `${source} must be a whole number between ${min} and ${max}`
+            );
+            return fallback;
+        }
+        return number;
+    }
+
+    public positiveNumber(
+        envName: string,
+        path: string,
+        fallback: number
+    ): number {
+        const { value, source } = this.lookup(envName, path);
+        if (value === undefined) return fallback;
+        const number = typeof value === "string" ? Number(value) : value;
+        if (typeof number !== "number" || !(number > 0)) {
+            this.problems.push(`${source} must be a number above 0`);
+            return fallback;
+        }
+        return number;
+    }
+
+    public boolean(envName: string, path: string, fallback: boolean): boolean {
+        const { value, source } = this.lookup(envName, path);
+        if (value === undefined) return fallback;
+        if (value === true || value === "true") return true;
+        if (value === false || value === "false") return false;
+        this.problems.push(`${source} must be true or false`);
+        return fallback;
+    }
+
+    /**
+     * Express "trust proxy" value: "true"/"false" become booleans, whole
+     * numbers a count of proxy hops, anything else an address list such as
+     * "loopback, 10.0.0.0/8"
+     */
+    public trustProxy(
+        envName: string,
+        path: string
+    ): boolean | number | string | undefined {
+        const { value, source } = this.lookup(envName, path);
+        if (value === undefined) return undefined;
+        if (value === true || value === "true") return true;
+        if (value === false || value === "false") return false;
+        const hops =
+            typeof value === "string" && /^\d+$/.test(value)
+                ? Number(value)
+                : value;
+        if (
+            typeof hops === "number" &&
+            Number.isSafeInteger(hops) &&
+            hops >= 0
+        ) {
+            return hops;
+        }
+        if (typeof hops !== "string" || hops.trim().length === 0) {
+            this.problems.push(
+                `${source} must be true, false, a hop count or an address list`
+            );
+            return undefined;
+        }
+        return hops;
+    }
+
+    public oneOf<T extends string>(
+        envName: string,
+        path: string,
+        fallback: T,
+        choices: readonly T[]
+    ): T {
+        const { value, source } = this.lookup(envName, path);
+        if (value === undefined) return fallback;
+        if (!choices.includes(value as T)) {
+            this.problems.push(`${source} must be one of ${choices.join(", ")}`);
+            return fallback;
+        }
+        return value as T;
+    }
+
+    // Environment value (empty counts as unset), else the file's value at path
+    private lookup(
+        envName: string,
+        path: string
+    ): { value: unknown; source: string } {
+        const envValue = this.env[envName];
+        if (envValue !== undefined && envValue !== "") {
+            return { value: envValue, source: envName };
+        }
+        let value: unknown = this.file;
+        for (const key of path.split(".")) {
+            value =
+                value && typeof value === "object"
+                    ? (value as Record<string, unknown>)[key]
+                    : undefined;
+        }
+        return { value: value ?? undefined, source: path };
+    }
+}
+
+type ConfigFile = Record<string, unknown>;
+
+export interface RateConfig {
+    /** Tokens added back per second */
+    perSecond: number;
+    /** Requests that may arrive at once */
+    burst: number;
+}
+
+export interface ServerConfig {
+    /** PORT; 0 picks a free port */
+    port: number;
+    /** HOST address to bind; all interfaces when unset */
+    host?: string;
+    /**
+     * TRUST_PROXY: express "trust proxy" setting; true, false, a hop count
+     * or an address list such as loopback
+     */
+    trustProxy?: boolean | number | string;
+    limits: {
+        /** MAX_BODY_BYTES: largest request body */
+        maxBodyBytes: number;
+        /** MAX_MESSAGE_BYTES: largest send_message params, as JSON */
+        maxMessageBytes: number;
+        /** MAX_MESSAGES_PER_RECIPIENT: live messages per recipient key */
+        maxMessagesPerRecipient: number;
+        /** MAX_STORED_MESSAGES: live messages on the whole server */
+        maxStoredMessages: number;
+        /** RATE_LIMIT_PER_SECOND / RATE_LIMIT_BURST: per client */
+        clientRate: RateConfig;
+        /** GLOBAL_RATE_LIMIT_PER_SECOND / GLOBAL_RATE_LIMIT_BURST */
+        globalRate: RateConfig;
+    };
+    storage: {
+        /** MESSAGE_STORE: JSON log on disk, or memory only */
+        backend: "memory" | "jsonl";
+        /** MESSAGE_STORE_PATH: JSON log file */
+        path: string;
+        /** MESSAGE_TTL_MS: time-to-live for messages sent without one */
+        messageTtlMs: number;
+    };
+    auth: {
+        /** SIGNATURE_MAX_SKEW_MS: accepted signature timestamp skew */
+        signatureMaxSkewMs: number;
+        /** ALLOW_UNSIGNED_REQUESTS: accept anonymous requests */
+        allowUnsigned: boolean;
+    };
+    keys: {
+        /**
+         * SERVER_KEYS_DIR: where the generated keys are kept; in memory only
+         * when unset (the default under NODE_ENV=test)
+         */
+        dir?: string;
+        /** SERVER_X25519_SECRET_KEY: fixed hex secret key, no rotation */
+        x25519SecretKey?: string;
+        /** SERVER_X25519_KEY_FILE: file holding the hex secret key */
+        x25519KeyFile?: string;
+        /** X25519_ROTATION_INTERVAL_MS: key age that triggers rotation */
+        rotationIntervalMs: number;
+        /** X25519_ROTATION_GRACE_MS: how long a rotated key still works */
+        rotationGraceMs: number;
+    };
+    log: {
+        /** LOG_LEVEL */
+        level: LogThreshold;
+        /** LOG_FORMAT */
+        format: LogFormat;
+        /** LOG_SHOW_SECRETS */
+        showSecrets: boolean;
+    };
+    /** SHUTDOWN_TIMEOUT_MS: how long close() waits for requests to finish */
+    shutdownTimeoutMs: number;
+}
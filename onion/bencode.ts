@@ -0,0 +1,119 @@
+import { OnionDecodeError } from "./onion-errors";
+
+/**
+ * Minimal bencode encoder/decoder used by v4 onion requests
+ * Byte strings decode to Buffers; dictionary keys decode to strings
+ */
+export function bencode(value: BencodeValue): Buffer {
+    const parts: Buffer[] = [];
+    encodeValue(value, parts);
+    return Buffer.concat(parts);
+}
+
+/**
+ * Decode a single bencoded value that must span the whole buffer
+ */
+export function bdecode(data: Buffer): BencodeValue {
+    const [value, end] = decodeValue(data, 0);
+    if (end !== data.length) {
+        throw new OnionDecodeError(
+            `Bencode has ${data.length - end} trailing bytes`
+        );
+    }
+    return value;
+}
+
+function encodeValue(value: BencodeValue, parts: Buffer[]): void {
+    if (Buffer.isBuffer(value) || typeof value === "string") {
+        const bytes = Buffer.isBuffer(value) ? value : Buffer.from(value);
+        parts.push(Buffer.from(`${bytes.length}:`), bytes);
+    } else if (typeof value === "number") {
+        if (!Number.isInteger(value)) {
+            throw new TypeError(`Bencode only supports integers, got ${value}`);
+        }
+        parts.push(Buffer.from(`i${value}e`));
+    } else if (Array.isArray(value)) {
+        parts.push(Buffer.from("l"));
+        value.forEach((item) => encodeValue(item, parts));
+        parts.push(Buffer.from("e"));
+    } else {
+        // Dictionary keys must be sorted as raw byte strings
+        parts.push(Buffer.from("d"));
+        const keys = Object.keys(value).sort((a, b) =>
+            Buffer.compare(Buffer.from(a), Buffer.from(b))
+        );
+        for (const key of keys) {
+            encodeValue(key, parts);
+            encodeValue(value[key], parts);
+        }
+        parts.push(Buffer.from("e"));
+    }
+}
+
+// Decode the value starting at offset, returning it with the offset after it
+function decodeValue(data: Buffer, offset: number): [BencodeValue, number] {
+    if (offset >= data.length) {
+        throw new OnionDecodeError("Bencode ended unexpectedly");
+    }
+
+    const type = String.fromCharCode(data[offset]);
+    if (type === "i") {
+        const end = data.indexOf("e", offset);
+        const text = end === -1 ? "" : data.toString("ascii", offset + 1, end);
+        if (!/^(0|-?[1-9][0-9]*)$/.test(text)) {
+            throw new OnionDecodeError(`Invalid bencode integer at ${offset}`);
+        }
+        return [Number(text), end + 1];
+    }
+
+    if (type === "l") {
+        const list: BencodeValue[] = [];
+        let position = offset + 1;
+        while (data[position] !== CHAR_E) {
+            const [item, next] = decodeValue(data, position);
+            list.push(item);
+            position = next;
+        }
+        return [list, position + 1];
+    }
+
+    if (type === "d") {
+        const dict: { [key: string]: BencodeValue } = {};
+        let position = offset + 1;
+        while (data[position] !== CHAR_E) {
+            const [key, afterKey] = decodeValue(data, position);
+            if (!Buffer.isBuffer(key)) {
+                throw new OnionDecodeError(
+                    `Bencode dictionary key at ${position} is not a string`
+                );
+            }
+            const [item, next] = decodeValue(data, afterKey);
+            dict[key.toString("utf8")] = item;
+            position = next;
+        }
+        return [dict, position + 1];
+    }
+
+    const colon = data.indexOf(":", offset);
+    const lengthText = colon === -1 ? "" : data.toString("ascii", offset, colon);
+    if (!/^(0|[1-9][0-9]*)$/.test(lengthText)) {
+        throw new OnionDecodeError(`Invalid bencode string at ${offset}`);
+    }
+    const start = colon + 1;
+    const end = start + Number(lengthText);
+    if (end > data.length) {
+        throw new OnionDecodeError(
+            `Bencode string at ${offset} runs past the end of the data`
+        );
+    }
+    return [data.subarray(start, end), end];
+}
+
+const CHAR_E = "e".charCodeAt(0);
+
+export type BencodeValue =
+    | Buffer
+    | string
+    | number
+    | BencodeValue[]
+    | { [key: string]: BencodeValue };
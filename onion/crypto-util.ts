@@ -1,8 +1,32 @@
 import { randomBytes, createHmac } from "crypto";
 import * as nacl from "tweetnacl";
+import { xchacha20poly1305 } from "@noble/ciphers/chacha";
+import { blake2b } from "@noble/hashes/blake2b";
+import { DecryptionError, UnsupportedEncryptionError } from "./onion-errors";
+import { createLogger } from "./logger";
+
+const logger = createLogger("crypto");
+
+/**
+ * Encryption types supported for onion hops
+ */
+export type EncryptionType = "aes-gcm" | "xchacha20";
 
 /**
- * WORKING HopEncryption class - AES-GCM implementation
+ * Normalise an enc_type value ("gcm", "xchacha20-poly1305", ...) to an EncryptionType
+ */
+export function normalizeEncType(encType: string): EncryptionType {
+    if (encType === "aes-gcm" || encType === "gcm") {
+        return "aes-gcm";
+    }
+    if (encType === "xchacha20" || encType === "xchacha20-poly1305") {
+        return "xchacha20";
+    }
+    throw new UnsupportedEncryptionError(encType);
+}
+
+/**
+ * WORKING HopEncryption class - AES-GCM and XChaCha20-Poly1305 implementation
  * Based on successful test with storage server from oxen-client.js
  */
 export class HopEncryption {
@@ -40,6 +64,26 @@ export class HopEncryption {
         return hmac.digest();
     }
 
+    /**
+     * Derive XChaCha20-Poly1305 key as BLAKE2b-256(shared || client_pub || server_pub)
+     * Matches oxen-storage-server: the client's key always goes first,
+     * so each side orders the pubkeys by its isServer role
+     */
+    deriveXChaCha20Key(remotePubKey: Buffer): Buffer {
+        const sharedSecret = nacl.scalarMult(this.privateKey, remotePubKey);
+
+        const [clientPubKey, serverPubKey] = this.isServer
+            ? [remotePubKey, this.publicKey]
+            : [this.publicKey, remotePubKey];
+
+        const hashInput = Buffer.concat([
+            Buffer.from(sharedSecret),
+            clientPubKey,
+            serverPubKey,
+        ]);
+        return Buffer.from(blake2b(hashInput, { dkLen: 32 }));
+    }
+
     /**
      * WORKING: AES-GCM encryption using WebCrypto API
      * This method successfully works with storage server
@@ -48,19 +92,17 @@ export class HopEncryption {
         plaintext: Buffer,
         recipientPubKey: Buffer
     ): Promise<Buffer> {
-        console.log("🔐 HopEncryption.encrypt AESGCM");
-        console.log(
-            "  Recipient pubkey:",
-            Buffer.from(recipientPubKey).toString("hex")
-        );
-
         // Derive symmetric key
         const key = this.deriveSymmetricKey(this.privateKey, recipientPubKey);
-        console.log("  Symmetric key:", Buffer.from(key).toString("hex"));
 
         // Generate IV (12 bytes for GCM)
         const iv = randomBytes(12);
-        console.log("  IV:", Buffer.from(iv).toString("hex"));
+        // Redacted unless LOG_SHOW_SECRETS=true
+        logger.trace("HopEncryption.encryptAESGCM", {
+            recipientKey: recipientPubKey,
+            symmetricKey: key,
+            iv,
+        });
 
         // Use WebCrypto API for AES-GCM
         const cryptoKey = await crypto.subtle.importKey(
@@ -86,17 +128,38 @@ export class HopEncryption {
     }
 
     /**
-     * WORKING: Main encrypt method using AES-GCM
+     * XChaCha20-Poly1305 encryption
+     * Output format: [24 byte nonce][ciphertext + 16 byte tag]
+     */
+    async encryptXChaCha20(
+        plaintext: Buffer,
+        recipientPubKey: Buffer
+    ): Promise<Buffer> {
+        const key = this.deriveXChaCha20Key(recipientPubKey);
+        const nonce = randomBytes(24);
+
+        const encrypted = xchacha20poly1305(
+            new Uint8Array(key),
+            new Uint8Array(nonce)
+        ).encrypt(new Uint8Array(plaintext));
+
+        return Buffer.concat([nonce, Buffer.from(encrypted)]);
+    }
+
+    /**
+     * WORKING: Main encrypt method
      */
     async encrypt(
         encType: string,
         plaintext: Buffer,
         recipientPubKey: Buffer
     ): Promise<Buffer> {
-        if (encType === "aes-gcm" || encType === "gcm") {
-            return await this.encryptAESGCM(plaintext, recipientPubKey);
+        switch (normalizeEncType(encType)) {
+            case "aes-gcm":
+                return await this.encryptAESGCM(plaintext, recipientPubKey);
+            case "xchacha20":
+                return await this.encryptXChaCha20(plaintext, recipientPubKey);
         }
-        throw new Error(`Unsupported encryption type: ${encType}`);
     }
 
     /**
@@ -106,11 +169,17 @@ export class HopEncryption {
         ciphertext: Buffer,
         senderPubKey: Buffer
     ): Promise<Buffer> {
-        console.log("🔓 HopEncryption.decryptAESGCM");
+        logger.trace("HopEncryption.decryptAESGCM", {
+            senderKey: senderPubKey,
+            size: ciphertext.length,
+        });
 
         if (ciphertext.length < 12 + 16) {
             // IV + min tag
-            throw new Error("Ciphertext too short for AES-GCM");
+            throw new DecryptionError(
+                "aes-gcm",
+                "Ciphertext too short for AES-GCM"
+            );
         }
 
         // Extract IV and encrypted data
@@ -133,17 +202,60 @@ export class HopEncryption {
             ["decrypt"]
         );
 
-        const decrypted = await crypto.subtle.decrypt(
-            { name: "AES-GCM", iv: new Uint8Array(iv) },
-            cryptoKey,
-            new Uint8Array(encrypted)
-        );
+        let decrypted: ArrayBuffer;
+        try {
+            decrypted = await crypto.subtle.decrypt(
+                { name: "AES-GCM", iv: new Uint8Array(iv) },
+                cryptoKey,
+                new Uint8Array(encrypted)
+            );
+        } catch (error: any) {
+            throw new DecryptionError(
+                "aes-gcm",
+                error.message || "Authentication failed"
+            );
+        }
 
         // Create result buffer explicitly to avoid type issues
         const decryptedBuffer = Buffer.from(decrypted);
         return decryptedBuffer;
     }
 
+    /**
+     * XChaCha20-Poly1305 decryption
+     */
+    async decryptXChaCha20(
+        ciphertext: Buffer,
+        senderPubKey: Buffer
+    ): Promise<Buffer> {
+        if (ciphertext.length < 24 + 16) {
+            // Nonce + tag
+            throw new DecryptionError(
+                "xchacha20",
+                "Ciphertext too short for XChaCha20-Poly1305"
+            );
+        }
+
+        const nonce = ciphertext.subarray(0, 24);
+        const encrypted = ciphertext.subarray(24);
+        const key = this.deriveXChaCha20Key(senderPubKey);
+
+        let decrypted: Uint8Array;
+        try {
+            decrypted = xchacha20poly1305(
+                new Uint8Array(key),
+                new Uint8Array(nonce)
+            ).decrypt(new Uint8Array(encrypted));
+        } catch (error: any) {
+            throw new DecryptionError(
+                "xchacha20",
+                error.message || "Authentication failed"
+            );
+        }
+
+        return Buffer.from(decrypted);
+    }
+
     /**
      * Main decrypt method
      */
@@ -152,13 +264,12 @@ export class HopEncryption {
         ciphertext: Buffer,
         senderPubKey: Buffer
     ): Promise<Buffer> {
-        if (encType === "aes-gcm" || encType === "gcm") {
-            return await this.decryptAESGCM(ciphertext, senderPubKey);
-        } else if (encType === "xchacha20") {
-            // Fallback to AES-GCM
-            return await this.decryptAESGCM(ciphertext, senderPubKey);
+        switch (normalizeEncType(encType)) {
+            case "aes-gcm":
+                return await this.decryptAESGCM(ciphertext, senderPubKey);
+            case "xchacha20":
+                return await this.decryptXChaCha20(ciphertext, senderPubKey);
         }
-        throw new Error(`Unsupported encryption type: ${encType}`);
     }
 }
 
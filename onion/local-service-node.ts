@@ -0,0 +1,385 @@
+import express, { Request, Response } from "express";
+import axios from "axios";
+import * as http from "http";
+import * as nacl from "tweetnacl";
+import { AddressInfo } from "net";
+import { HopEncryption, CryptoUtils } from "./crypto-util";
+import { decodeOnionFrame } from "./onion-decoder";
+import { ServiceNode } from "./onion-builder";
+
+/**
+ * Local stand-in for an Oxen service node
+ * Serves /onion_req/v2 over plain HTTP, peels one onion layer with its own
+ * X25519 key and forwards the inner blob to the next local hop or to the
+ * final host/port/target, so the whole onion path can run offline
+ * When it is the destination itself ("snode" requests) it answers
+ * oxend_request get_n_service_nodes with the nodes from listNodes (a
+ * random sample of them when a limit is given, as oxend does), and
+ * store/retrieve/delete against an in-memory message store
+ */
+export class LocalServiceNode {
+    private x25519KeyPair: nacl.BoxKeyPair;
+    private ed25519KeyPair: nacl.SignKeyPair;
+    private hopEncryption: HopEncryption;
+    private resolveNode: NodeResolver;
+    private listNodes: () => ServiceNode[];
+    private messages: Map<string, StoredMessage[]> = new Map();
+    private server?: http.Server;
+    private port: number = 0;
+
+    constructor(
+        resolveNode: NodeResolver,
+        listNodes: () => ServiceNode[] = () => []
+    ) {
+        this.x25519KeyPair = nacl.box.keyPair();
+        this.ed25519KeyPair = nacl.sign.keyPair();
+        this.hopEncryption = new HopEncryption(
+            Buffer.from(this.x25519KeyPair.secretKey),
+            Buffer.from(this.x25519KeyPair.publicKey),
+            true
+        );
+        this.resolveNode = resolveNode;
+        this.listNodes = listNodes;
+    }
+
+    /**
+     * Start listening on the given port (0 picks a free port)
+     */
+    public async start(port: number = 0): Promise<void> {
+        const app = express();
+        app.use(express.raw({ type: "*/*", limit: "10mb" }));
+        app.post("/onion_req/v2", (req: Request, res: Response) =>
+            this.handleOnionRequest(req, res)
+        );
+
+        await new Promise<void>((resolve, reject) => {
+            const server = app.listen(port, "127.0.0.1", () => resolve());
+            server.once("error", reject);
+            this.server = server;
+        });
+        this.port = (this.server!.address() as AddressInfo).port;
+    }
+
+    public async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) return;
+        this.server = undefined;
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    public getEd25519PubKey(): string {
+        return CryptoUtils.toHex(
+            Buffer.from(this.ed25519KeyPair.publicKey)
+        );
+    }
+
+    public getPort(): number {
+        return this.port;
+    }
+
+    /**
+     * Answer get_n_service_nodes with listNodes from now on, e.g. to play a
+     * node that lies about the network
+     */
+    public setNodeList(listNodes: () => ServiceNode[]): void {
+        this.listNodes = listNodes;
+    }
+
+    /**
+     * ServiceNode record pointing at this local node
+     */
+    public toServiceNode(): ServiceNode {
+        return {
+            pubkey_ed25519: this.getEd25519PubKey(),
+            pubkey_x25519: CryptoUtils.toHex(
+                Buffer.from(this.x25519KeyPair.publicKey)
+            ),
+            public_ip: "127.0.0.1",
+            storage_lmq_port: 0,
+            storage_port: this.port,
+            swarm_id: 0,
+        };
+    }
+
+    private async handleOnionRequest(req: Request, res: Response) {
+        try {
+            // Outer layer: [size][ciphertext][{"ephemeral_key","enc_type"}]
+            const outer = decodeOnionFrame(req.body);
+            const ephemeralKey = outer.json.ephemeral_key;
+            const encType = outer.json.enc_type;
+            if (typeof ephemeralKey !== "string" || typeof encType !== "string") {
+                return res.status(400).send("Missing ephemeral_key or enc_type");
+            }
+
+            const plaintext = await this.hopEncryption.decrypt(
+                encType,
+                outer.data,
+                CryptoUtils.fromHex(ephemeralKey)
+            );
+
+            // Inner layer: [size][blob][routing json]
+            const inner = decodeOnionFrame(plaintext);
+            const routing = inner.json as HopRouting;
+            const forwardBody = encodeForwardFrame(inner.data, routing);
+
+            let url: string;
+            if (routing.destination) {
+                const nextNode = this.resolveNode(routing.destination);
+                if (!nextNode) {
+                    return res
+                        .status(502)
+                        .send(`Next node not found: ${routing.destination}`);
+                }
+                url = `http://127.0.0.1:${nextNode.getPort()}/onion_req/v2`;
+            } else if (routing.host) {
+                url = `${routing.protocol || "https"}://${routing.host}:${
+                    routing.port
+                }${routing.target}`;
+            } else {
+                // No next hop: this node is the destination
+                const reply = this.handleSnodeRequest(inner.data);
+                const encrypted = await this.hopEncryption.encrypt(
+                    encType,
+                    Buffer.from(JSON.stringify(reply)),
+                    CryptoUtils.fromHex(ephemeralKey)
+                );
+                return res
+                    .type("text/plain")
+                    .send(CryptoUtils.toBase64(encrypted));
+            }
+
+            const response = await axios.post(url, forwardBody, {
+                headers: { "Content-Type": "application/octet-stream" },
+                responseType: "arraybuffer",
+                validateStatus: () => true,
+            });
+
+            res.status(response.status).send(Buffer.from(response.data));
+        } catch (error: any) {
+            res.status(502).send(`Onion request failed: ${error.message}`);
+        }
+    }
+
+    // Answer a request addressed to this node, as {"status","body"}
+    private handleSnodeRequest(data: Buffer): SnodeReply {
+        let request: any;
+        try {
+            request = JSON.parse(data.toString("utf8"));
+        } catch (error: any) {
+            return { status: 400, body: "Invalid JSON request" };
+        }
+
+        const params = request?.params || {};
+        switch (request?.method) {
+            case "oxend_request":
+                if (params.endpoint === "get_n_service_nodes") {
+                    const limit = params.params?.limit;
+                    const nodes = this.listNodes();
+                    return ok({
+                        jsonrpc: "2.0",
+                        id: 0,
+                        result: {
+                            service_node_states:
+                                typeof limit === "number"
+                                    ? sampleNodes(nodes, limit)
+                                    : nodes,
+                        },
+                    });
+                }
+                break;
+            case "store":
+                return this.store(params);
+            case "retrieve":
+                return this.retrieve(params);
+            case "delete":
+                return this.deleteMessages(params);
+        }
+
+        return { status: 400, body: `Unsupported method: ${request?.method}` };
+    }
+
+    private store(params: any): SnodeReply {
+        if (
+            typeof params.pubkey !== "string" ||
+            typeof params.data !== "string"
+        ) {
+            return { status: 400, body: "store requires pubkey and data" };
+        }
+
+        const timestamp =
+            typeof params.timestamp === "number"
+                ? params.timestamp
+                : Date.now();
+        const ttl =
+            typeof params.ttl === "number" ? params.ttl : DEFAULT_MESSAGE_TTL;
+        const digest = nacl.hash(
+            Buffer.from(`${params.pubkey}${timestamp}${params.data}`)
+        );
+        const message: StoredMessage = {
+            hash: CryptoUtils.toHex(Buffer.from(digest.subarray(0, 32))),
+            data: params.data,
+            timestamp,
+            expiration: timestamp + ttl,
+        };
+
+        const mailbox = this.messages.get(params.pubkey) || [];
+        if (!mailbox.some((stored) => stored.hash === message.hash)) {
+            mailbox.push(message);
+        }
+        this.messages.set(params.pubkey, mailbox);
+        return ok({ hash: message.hash, t: Date.now() });
+    }
+
+    private retrieve(params: any): SnodeReply {
+        if (typeof params.pubkey !== "string") {
+            return { status: 400, body: "retrieve requires pubkey" };
+        }
+
+        const now = Date.now();
+        let messages = (this.messages.get(params.pubkey) || []).filter(
+            (message) => message.expiration > now
+        );
+        // Only messages stored after last_hash, like a real storage server
+        const lastIndex = messages.findIndex(
+            (message) => message.hash === params.last_hash
+        );
+        if (lastIndex !== -1) {
+            messages = messages.slice(lastIndex + 1);
+        }
+        return ok({ messages, more: false, t: now });
+    }
+
+    private deleteMessages(params: any): SnodeReply {
+        if (
+            typeof params.pubkey !== "string" ||
+            !Array.isArray(params.messages)
+        ) {
+            return { status: 400, body: "delete requires pubkey and messages" };
+        }
+
+        const mailbox = this.messages.get(params.pubkey) || [];
+        const deleted = mailbox
+            .filter((message) => params.messages.includes(message.hash))
+            .map((message) => message.hash);
+        this.messages.set(
+            params.pubkey,
+            mailbox.filter((message) => !deleted.includes(message.hash))
+        );
+        return ok({ deleted, t: Date.now() });
+    }
+}
+
+/**
+ * Group of local service nodes that can route to each other
+ */
+export class LocalServiceNodeNetwork {
+    private nodes: LocalServiceNode[] = [];
+
+    /**
+     * Spin up count local nodes on free ports
+     */
+    public async start(count: number): Promise<ServiceNode[]> {
+        for (let i = 0; i < count; i++) {
+            const node = new LocalServiceNode(
+                (ed25519PubKey) => this.findNode(ed25519PubKey),
+                () => this.getServiceNodes()
+            );
+            await node.start();
+            this.nodes.push(node);
+        }
+        return this.getServiceNodes();
+    }
+
+    public async stop(): Promise<void> {
+        await Promise.all(this.nodes.map((node) => node.stop()));
+        this.nodes = [];
+    }
+
+    public getServiceNodes(): ServiceNode[] {
+        return this.nodes.map((node) => node.toServiceNode());
+    }
+
+    public getNode(ed25519PubKey: string): LocalServiceNode | undefined {
+        return this.findNode(ed25519PubKey);
+    }
+
+    private findNode(ed25519PubKey: string): LocalServiceNode | undefined {
+        return this.nodes.find(
+            (node) => node.getEd25519PubKey() === ed25519PubKey
+        );
+    }
+}
+
+/**
+ * Start count local service nodes and return them with matching ServiceNode records
+ */
+export async function startLocalServiceNodes(
+    count: number = 3
+): Promise<{ network: LocalServiceNodeNetwork; serviceNodes: ServiceNode[] }> {
+    const network = new LocalServiceNodeNetwork();
+    const serviceNodes = await network.start(count);
+    return { network, serviceNodes };
+}
+
+// Storage servers keep messages for 14 days unless a ttl is given
+const DEFAULT_MESSAGE_TTL = 14 * 24 * 60 * 60 * 1000;
+
+function ok(body: unknown): SnodeReply {
+    return { status: 200, body: JSON.stringify(body) };
+}
+
+// Helper function to pick limit nodes at random (Fisher-Yates shuffle)
+function sampleNodes(nodes: ServiceNode[], limit: number): ServiceNode[] {
+    const shuffled = [...nodes];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled.slice(0, Math.max(0, limit));
+}
+
+// Re-wrap a peeled blob for the next hop: [size][blob][{"ephemeral_key","enc_type"}]
+function encodeForwardFrame(blob: Buffer, routing: HopRouting): Buffer {
+    const sizeBuffer = Buffer.allocUnsafe(4);
+    sizeBuffer.writeUInt32LE(blob.length, 0);
+    const meta = Buffer.from(
+        JSON.stringify({
+            ephemeral_key: routing.ephemeral_key,
+            enc_type: routing.enc_type,
+        })
+    );
+    return Buffer.concat([sizeBuffer, blob, meta]);
+}
+
+type NodeResolver = (ed25519PubKey: string) => LocalServiceNode | undefined;
+
+interface SnodeReply {
+    /** HTTP-like status of the node's answer */
+    status: number;
+    /** Response body, JSON encoded for successful RPC calls */
+    body: string;
+}
+
+interface StoredMessage {
+    /** Message hash, returned by store and used by retrieve/delete */
+    hash: string;
+    /** Message data as sent by the client (base64) */
+    data: string;
+    /** Client timestamp, in ms */
+    timestamp: number;
+    /** When the message expires, in ms */
+    expiration: number;
+}
+
+interface HopRouting {
+    /** Ed25519 pubkey of the next hop (intermediate hops) */
+    destination?: string;
+    /** Final destination host (last hop) */
+    host?: string;
+    port?: number;
+    protocol?: "http" | "https";
+    target?: string;
+    /** Ephemeral key the next hop or server decrypts with */
+    ephemeral_key?: string;
+    enc_type?: string;
+}
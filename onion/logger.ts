@@ -0,0 +1,301 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomBytes } from "crypto";
+
+/**
+ * Structured, leveled logger shared by the onion client and the server
+ * Lines are pretty-printed or written as JSON, carry the request id of the
+ * onion request or HTTP request they belong to, and have key material and
+ * message content redacted unless showSecrets is set
+ */
+
+export const LOG_LEVELS = ["error", "warn", "info", "debug", "trace"] as const;
+
+/** Header carrying the request id from the client to the server */
+export const REQUEST_ID_HEADER = "x-request-id";
+
+const LEVEL_ICONS: Record<LogLevel, string> = {
+    error: "❌",
+    warn: "⚠️",
+    info: "ℹ️",
+    debug: "🔍",
+    trace: "🔬",
+};
+
+// Field names whose values are secret or private: keys, signatures,
+// nonces, ciphertext and message content
+const SECRET_FIELD_PATTERN =
+    /(keys?|secret|password|token|signature|nonce|ciphertext|plaintext|payload|content|authorization|cookie)$/i;
+const SECRET_FIELD_NAMES = new Set(["iv", "auth", "body", "params", "text"]);
+const MAX_DEPTH = 6;
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Fields bound to the current async call chain, e.g. { requestId }
+const logContext = new AsyncLocalStorage<LogFields>();
+
+export class Logger {
+    private name: string;
+    private threshold: number;
+    private format: LogFormat;
+    private showSecrets: boolean;
+    private fields: LogFields;
+    private write: LogWriter;
+
+    constructor(options: LoggerOptions = {}) {
+        this.name = options.name ?? "app";
+        this.threshold = thresholdOf(options.level ?? "info");
+        this.format = options.format ?? "pretty";
+        this.showSecrets = options.showSecrets ?? false;
+        this.fields = options.fields ?? {};
+        this.write = options.write ?? writeToConsole;
+    }
+
+    public error(message: string, fields?: LogFields): void {
+        this.emit("error", message, fields);
+    }
+
+    public warn(message: string, fields?: LogFields): void {
+        this.emit("warn", message, fields);
+    }
+
+    public info(message: string, fields?: LogFields): void {
+        this.emit("info", message, fields);
+    }
+
+    public debug(message: string, fields?: LogFields): void {
+        this.emit("debug", message, fields);
+    }
+
+    public trace(message: string, fields?: LogFields): void {
+        this.emit("trace", message, fields);
+    }
+
+    public isLevelEnabled(level: LogLevel): boolean {
+        return LOG_LEVELS.indexOf(level) < this.threshold;
+    }
+
+    /**
+     * Logger with the same settings that adds fields to every line
+     */
+    public child(fields: LogFields): Logger {
+        return new Logger({
+            name: this.name,
+            level: LOG_LEVELS[this.threshold - 1] ?? "silent",
+            format: this.format,
+            showSecrets: this.showSecrets,
+            fields: { ...this.fields, ...fields },
+            write: this.write,
+        });
+    }
+
+    private emit(level: LogLevel, message: string, fields?: LogFields): void {
+        if (!this.isLevelEnabled(level)) return;
+
+        const context = redact(
+            { ...logContext.getStore(), ...this.fields, ...fields },
+            this.showSecrets
+        ) as LogFields;
+
+        if (this.format === "json") {
+            this.write(
+                JSON.stringify({
+                    time: new Date().toISOString(),
+                    level,
+                    logger: this.name,
+                    msg: message,
+                    ...context,
+                }),
+                level
+            );
+            return;
+        }
+
+        const suffix =
+            Object.keys(context).length > 0
+                ? ` ${JSON.stringify(context)}`
+                : "";
+        this.write(
+            `${LEVEL_ICONS[level]} [${this.name}] ${message}${suffix}`,
+            level
+        );
+    }
+}
+
+/**
+ * Logger configured from the environment:
+ * LOG_LEVEL (error, warn, info, debug, trace or silent; default info, and
+ * silent under NODE_ENV=test), LOG_FORMAT (pretty or json) and
+ * LOG_SHOW_SECRETS=true to stop redacting key material and message content
+ */
+export function createLogger(
+    name: string,
+    options: Omit<LoggerOptions, "name"> = {},
+    env: NodeJS.ProcessEnv = process.env
+): Logger {
+    const level =
+        env.LOG_LEVEL || (env.NODE_ENV === "test" ? "silent" : "info");
+    if (!isThreshold(level)) {
+        throw new Error(
+            `LOG_LEVEL must be one of ${LOG_LEVELS.join(", ")} or silent`
+        );
+    }
+    const format = env.LOG_FORMAT || "pretty";
+    if (format !== "pretty" && format !== "json") {
+        throw new Error("LOG_FORMAT must be pretty or json");
+    }
+
+    return new Logger({
+        name,
+        level,
+        format,
+        showSecrets: env.LOG_SHOW_SECRETS === "true",
+        ...options,
+    });
+}
+
+/**
+ * Run fn with fields (e.g. a request id) added to every line logged
+ * anywhere in its async call chain
+ */
+export function runWithLogContext<T>(fields: LogFields, fn: () => T): T {
+    return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
+
+/**
+ * Fields bound by the enclosing runWithLogContext, if any
+ */
+export function currentLogContext(): LogFields {
+    return logContext.getStore() ?? {};
+}
+
+/**
+ * Random id tying together the log lines of one request
+ */
+export function newRequestId(): string {
+    return randomBytes(8).toString("hex");
+}
+
+/**
+ * Request id sent by a client, or a new one when it is missing or not a
+ * short token
+ */
+export function requestIdFrom(value: unknown): string {
+    return typeof value === "string" && REQUEST_ID_PATTERN.test(value)
+        ? value
+        : newRequestId();
+}
+
+/**
+ * Copy of value with secret fields and raw bytes replaced by placeholders
+ * Errors become { name, message, code?, stack }
+ */
+export function redact(value: unknown, showSecrets: boolean = false): unknown {
+    return redactValue(value, showSecrets, 0, new WeakSet());
+}
+
+function redactValue(
+    value: unknown,
+    showSecrets: boolean,
+    depth: number,
+    seen: WeakSet<object>
+): unknown {
+    if (value instanceof Uint8Array) {
+        return showSecrets
+            ? Buffer.from(value).toString("hex")
+            : `[redacted ${value.length} bytes]`;
+    }
+    if (value instanceof Error) {
+        const code = (value as { code?: unknown }).code;
+        return {
+            name: value.name,
+            message: value.message,
+            ...(code !== undefined ? { code } : {}),
+            stack: value.stack,
+        };
+    }
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    if (!value || typeof value !== "object") {
+        return typeof value === "bigint" ? value.toString() : value;
+    }
+    if (seen.has(value)) {
+        return "[circular]";
+    }
+    if (depth >= MAX_DEPTH) {
+        return "[truncated]";
+    }
+    seen.add(value);
+
+    let result: unknown;
+    if (Array.isArray(value)) {
+        result = value.map((item) =>
+            redactValue(item, showSecrets, depth + 1, seen)
+        );
+    } else {
+        const fields: LogFields = {};
+        for (const [field, fieldValue] of Object.entries(value)) {
+            fields[field] =
+                !showSecrets && fieldValue !== undefined && isSecretField(field)
+                    ? "[redacted]"
+                    : redactValue(fieldValue, showSecrets, depth + 1, seen);
+        }
+        result = fields;
+    }
+    // Only cycles are cut; an object may appear twice side by side
+    seen.delete(value);
+    return result;
+}
+
+function isSecretField(field: string): boolean {
+    return (
+        SECRET_FIELD_NAMES.has(field.toLowerCase()) ||
+        SECRET_FIELD_PATTERN.test(field)
+    );
+}
+
+// Number of levels that are logged: 0 for silent, 5 for trace
+function thresholdOf(level: LogThreshold): number {
+    return level === "silent" ? 0 : LOG_LEVELS.indexOf(level) + 1;
+}
+
+function isThreshold(value: string): value is LogThreshold {
+    return (
+        value === "silent" || (LOG_LEVELS as readonly string[]).includes(value)
+    );
+}
+
+function writeToConsole(line: string, level: LogLevel): void {
+    if (level === "error") {
+        console.error(line);
+    } else if (level === "warn") {
+        console.warn(line);
+    } else {
+        console.log(line);
+    }
+}
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/** Most verbose level that is logged, or silent for nothing */
+export type LogThreshold = LogLevel | "silent";
+
+export type LogFormat = "pretty" | "json";
+
+export type LogFields = Record<string, unknown>;
+
+export type LogWriter = (line: string, level: LogLevel) => void;
+
+export interface LoggerOptions {
+    /** Component name printed on every line, e.g. "onion" or "server" */
+    name?: string;
+    /** Most verbose level that is logged (default info) */
+    level?: LogThreshold;
+    /** pretty for people, json for one JSON object per line */
+    format?: LogFormat;
+    /** Log key material and message content instead of redacting it */
+    showSecrets?: boolean;
+    /** Fields added to every line */
+    fields?: LogFields;
+    /** Where lines go (default console, errors and warnings to stderr) */
+    write?: LogWriter;
+}
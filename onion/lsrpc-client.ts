@@ -0,0 +1,303 @@
+import axios from "axios";
+import type {
+    DeliveryStatus,
+    LsrpcRequest,
+    MessageMethods,
+    MessageRecord,
+} from "../rpc/message-methods";
+import type { ResultOf } from "../rpc/method-registry";
+import {
+    OnionBuilder,
+    OnionDestination,
+    OnionRequestOptions,
+} from "./onion-builder";
+import { LsrpcError, lsrpcErrorFromBody } from "./onion-errors";
+import { IdentityKeyPair, signRequest } from "./request-signing";
+import {
+    MessagingKeyPair,
+    decryptMessage,
+    encryptMessage,
+    messagingKeyPairFromIdentity,
+} from "./message-crypto";
+
+/**
+ * Typed client for the LSRPC API
+ * Requests are signed with the client identity, message content is
+ * encrypted before it leaves the client, and { success, data } replies are
+ * unwrapped into typed results; { error } replies are thrown as the
+ * matching LsrpcError subclass
+ */
+
+/** Path of the LSRPC endpoint on the server */
+export const LSRPC_ENDPOINT = "/oxen/custom-endpoint/lsrpc";
+
+export class LsrpcClient {
+    private transport: LsrpcTransport;
+    private identity: IdentityKeyPair | null;
+    private messagingKeys: MessagingKeyPair | null;
+
+    constructor(transport: LsrpcTransport, options: LsrpcClientOptions = {}) {
+        this.transport = transport;
+        this.identity = options.identity ?? null;
+        this.messagingKeys = options.messagingKeys ?? null;
+        if (!this.messagingKeys && this.identity) {
+            this.messagingKeys = messagingKeyPairFromIdentity(this.identity);
+        }
+    }
+
+    /**
+     * X25519 key (hex) other users encrypt messages to
+     */
+    public getMessagingPublicKey(): string {
+        return this.requireMessagingKeys().publicKey.toString("hex");
+    }
+
+    public getMessage(msgId: string): Promise<MessageRecord> {
+        return this.call("get_message", { msgId });
+    }
+
+    /**
+     * Fetch several messages in one round trip; missing or hidden messages
+     * come back as LsrpcError items
+     */
+    public async getMessages(
+        msgIds: string[]
+    ): Promise<(MessageRecord | LsrpcError)[]> {
+        const results = await this.batch(
+            msgIds.map((msgId) => ({
+                method: "get_message" as const,
+                params: { msgId },
+            }))
+        );
+        return results as (MessageRecord | LsrpcError)[];
+    }
+
+    /**
+     * Encrypt text to options.recipientKey (or to ourselves) and send it
+     */
+    public async sendMessage(
+        text: string | Buffer,
+        options: SendMessageOptions = {}
+    ): Promise<MessageRecord> {
+        const keys = this.requireMessagingKeys();
+        const { recipientKey, encType, ...rest } = options;
+        const encrypted = await encryptMessage(
+            text,
+            recipientKey ?? keys.publicKey.toString("hex"),
+            keys,
+            encType
+        );
+        return this.call("send_message", { ...encrypted, ...rest });
+    }
+
+    /**
+     * Decrypt a message we sent or received
+     */
+    public async readMessage(message: MessageRecord): Promise<string> {
+        const plaintext = await decryptMessage(
+            message,
+            this.requireMessagingKeys()
+        );
+        return plaintext.toString("utf8");
+    }
+
+    public listMessages(
+        query: ParamsOf<"list_messages">
+    ): Promise<ResultOf<MessageMethods, "list_messages">> {
+        return this.call("list_messages", query);
+    }
+
+    public deleteMessage(
+        msgId: string
+    ): Promise<ResultOf<MessageMethods, "delete_message">> {
+        return this.call("delete_message", { msgId });
+    }
+
+    public ackMessage(
+        msgId: string,
+        status: Exclude<DeliveryStatus, "pending">
+    ): Promise<MessageRecord> {
+        return this.call("ack_message", { msgId, status });
+    }
+
+    /**
+     * Call any LSRPC method, resolving to its reply data
+     */
+    public async call<K extends LsrpcRequest["method"]>(
+        method: K,
+        params: ParamsOf<K>
+    ): Promise<ResultOf<MessageMethods, K>> {
+        const response = await this.transport.send(
+            this.sign({ method, params } as LsrpcRequest)
+        );
+        return unwrapReply(response.status, response.body) as ResultOf<
+            MessageMethods,
+            K
+        >;
+    }
+
+    /**
+     * Send several requests in one round trip; each item resolves to its
+     * reply data, or to an LsrpcError if that request failed
+     */
+    public async batch(
+        requests: LsrpcRequest[]
+    ): Promise<(unknown | LsrpcError)[]> {
+        const response = await this.transport.send(
+            requests.map((request) => this.sign(request))
+        );
+        if (!Array.isArray(response.body)) {
+            // The batch as a whole was rejected
+            unwrapReply(response.status, response.body);
+            throw invalidReply(response.status, "Batch reply is not an array");
+        }
+
+        return response.body.map((item: any) => {
+            try {
+                return unwrapReply(item?.status ?? response.status, item);
+            } catch (error: unknown) {
+                if (error instanceof LsrpcError) return error;
+                throw error;
+            }
+        });
+    }
+
+    private sign(request: LsrpcRequest): LsrpcRequest {
+        return this.identity ? signRequest(request, this.identity) : request;
+    }
+
+    private requireMessagingKeys(): MessagingKeyPair {
+        if (!this.messagingKeys) {
+            throw new Error(
+                "LsrpcClient needs an identity or messaging keys to encrypt messages"
+            );
+        }
+        return this.messagingKeys;
+    }
+}
+
+/**
+ * Sends LSRPC bodies through an onion path as v4 requests, so error
+ * replies come back with their status instead of as hop failures
+ */
+export class OnionTransport implements LsrpcTransport {
+    private builder: OnionBuilder;
+    private destination: OnionDestination;
+    private options: OnionRequestOptions;
+
+    constructor(
+        builder: OnionBuilder,
+        destination: OnionDestination,
+        options: OnionRequestOptions = {}
+    ) {
+        this.builder = builder;
+        this.destination = destination;
+        this.options = options;
+    }
+
+    public async send(body: unknown): Promise<TransportResponse> {
+        const response = await this.builder.sendOnionRequestV4(
+            {
+                method: "POST",
+                endpoint: LSRPC_ENDPOINT,
+                headers: { "content-type": "application/json" },
+                body: body as object,
+            },
+            this.destination,
+            this.options
+        );
+        return {
+            status: response.status,
+            body: parseReplyJson(response.status, response.body),
+        };
+    }
+}
+
+/**
+ * Posts LSRPC bodies straight to the server, e.g. http://localhost:3001
+ * Meant for local development: nothing hides the client from the server
+ */
+export class DirectTransport implements LsrpcTransport {
+    private url: string;
+    private timeout: number;
+
+    constructor(baseUrl: string, timeout: number = 10000) {
+        this.url = `${baseUrl.replace(/\/+$/, "")}${LSRPC_ENDPOINT}`;
+        this.timeout = timeout;
+    }
+
+    public async send(body: unknown): Promise<TransportResponse> {
+        const response = await axios.post(this.url, body, {
+            timeout: this.timeout,
+            responseType: "text",
+            // Error statuses carry LSRPC error bodies; unwrapReply handles them
+            validateStatus: () => true,
+            transformResponse: (data) => data,
+        });
+        return {
+            status: response.status,
+            body: parseReplyJson(response.status, response.data),
+        };
+    }
+}
+
+// Return data from a { success, data } reply or throw its { error } body
+function unwrapReply(status: number, body: any): unknown {
+    if (body?.success === true && "data" in body) {
+        return body.data;
+    }
+    if (typeof body?.error === "string" && typeof body.code === "string") {
+        throw lsrpcErrorFromBody(status, body);
+    }
+    throw invalidReply(status, "Reply is not an LSRPC envelope");
+}
+
+function parseReplyJson(status: number, raw: Buffer | string | undefined) {
+    try {
+        return JSON.parse(raw ? raw.toString() : "");
+    } catch (error: any) {
+        throw invalidReply(status, `Reply is not valid JSON: ${error.message}`);
+    }
+}
+
+function invalidReply(status: number, message: string): LsrpcError {
+    return new LsrpcError(status, "INVALID_RESPONSE", message);
+}
+
+/** Params of one LSRPC method */
+export type ParamsOf<K extends LsrpcRequest["method"]> = Extract<
+    LsrpcRequest,
+    { method: K }
+>["params"];
+
+export interface LsrpcTransport {
+    /** Deliver a request (or batch array) and return the parsed reply */
+    send(body: unknown): Promise<TransportResponse>;
+}
+
+export interface TransportResponse {
+    /** HTTP status of the reply */
+    status: number;
+    /** Parsed JSON reply body */
+    body: unknown;
+}
+
+export interface LsrpcClientOptions {
+    /** Identity that signs every request */
+    identity?: IdentityKeyPair;
+    /** Messaging keys; derived from identity when left out */
+    messagingKeys?: MessagingKeyPair;
+}
+
+export interface SendMessageOptions {
+    /** Recipient's X25519 key (hex); defaults to our own (a note to self) */
+    recipientKey?: string;
+    /** Recipient mailbox, e.g. their Ed25519 identity key */
+    recipient?: string;
+    /** Conversation the message belongs to */
+    conversationId?: string;
+    /** Time-to-live in ms */
+    ttl?: number;
+    /** Cipher for the content (default xchacha20) */
+    encType?: "aes-gcm" | "xchacha20";
+}
@@ -0,0 +1,127 @@
+import * as nacl from "tweetnacl";
+import {
+    HopEncryption,
+    CryptoUtils,
+    EncryptionType,
+    normalizeEncType,
+} from "./crypto-util";
+import { DecryptionError } from "./onion-errors";
+import { IdentityKeyPair } from "./request-signing";
+
+/**
+ * End-to-end encryption of message content between users
+ * The sender encrypts to the recipient's X25519 key with its own X25519 key,
+ * so the server only ever stores ciphertext plus both public keys; either
+ * party can decrypt afterwards
+ */
+
+export function generateMessagingKeyPair(): MessagingKeyPair {
+    const keyPair = nacl.box.keyPair();
+    return {
+        publicKey: Buffer.from(keyPair.publicKey),
+        secretKey: Buffer.from(keyPair.secretKey),
+    };
+}
+
+/**
+ * X25519 messaging keys derived from an Ed25519 identity's seed, so a user
+ * only has to keep one secret
+ */
+export function messagingKeyPairFromIdentity(
+    identity: IdentityKeyPair
+): MessagingKeyPair {
+    const seed = identity.secretKey.subarray(0, nacl.sign.seedLength);
+    const secretKey = nacl.hash(seed).subarray(0, nacl.box.secretKeyLength);
+    const keyPair = nacl.box.keyPair.fromSecretKey(secretKey);
+    return {
+        publicKey: Buffer.from(keyPair.publicKey),
+        secretKey: Buffer.from(keyPair.secretKey),
+    };
+}
+
+/**
+ * Encrypt plaintext from sender to recipientKey (X25519, hex)
+ * The result can be spread into send_message params
+ */
+export async function encryptMessage(
+    plaintext: string | Buffer,
+    recipientKey: string,
+    sender: MessagingKeyPair,
+    encType: EncryptionType = "xchacha20"
+): Promise<EncryptedMessage> {
+    const recipientPubKey = parseKey(recipientKey, "recipientKey");
+    const ciphertext = await new HopEncryption(
+        sender.secretKey,
+        sender.publicKey
+    ).encrypt(
+        encType,
+        Buffer.isBuffer(plaintext) ? plaintext : Buffer.from(plaintext),
+        recipientPubKey
+    );
+
+    return {
+        ciphertext: CryptoUtils.toBase64(ciphertext),
+        encType: normalizeEncType(encType),
+        senderKey: CryptoUtils.toHex(sender.publicKey),
+        recipientKey: CryptoUtils.toHex(recipientPubKey),
+    };
+}
+
+/**
+ * Decrypt a stored message (e.g. get_message data) as its recipient or
+ * its sender
+ */
+export async function decryptMessage(
+    message: EncryptedMessage,
+    keys: MessagingKeyPair
+): Promise<Buffer> {
+    const ownKey = CryptoUtils.toHex(keys.publicKey);
+    const recipientKey = message.recipientKey.toLowerCase();
+    const senderKey = message.senderKey.toLowerCase();
+    if (ownKey !== recipientKey && ownKey !== senderKey) {
+        throw new DecryptionError(
+            message.encType,
+            "message was not encrypted to or from this key"
+        );
+    }
+
+    // The sender plays the client role in key derivation, the recipient
+    // the server role, so both sides derive the same key
+    const isRecipient = ownKey === recipientKey;
+    const remoteKey = isRecipient ? senderKey : recipientKey;
+    const encryption = new HopEncryption(
+        keys.secretKey,
+        keys.publicKey,
+        isRecipient
+    );
+    return encryption.decrypt(
+        message.encType,
+        CryptoUtils.fromBase64(message.ciphertext),
+        parseKey(remoteKey, isRecipient ? "senderKey" : "recipientKey")
+    );
+}
+
+function parseKey(hex: string, field: string): Buffer {
+    if (!/^[0-9a-f]{64}$/i.test(hex || "")) {
+        throw new Error(`${field} must be a 32-byte hex X25519 public key`);
+    }
+    return CryptoUtils.fromHex(hex);
+}
+
+export interface MessagingKeyPair {
+    /** X25519 public key (32 bytes), shared with other users */
+    publicKey: Buffer;
+    /** X25519 secret key (32 bytes) */
+    secretKey: Buffer;
+}
+
+export interface EncryptedMessage {
+    /** Encrypted message content, base64 */
+    ciphertext: string;
+    /** Cipher used for ciphertext */
+    encType: EncryptionType;
+    /** Sender's X25519 public key, hex */
+    senderKey: string;
+    /** Recipient's X25519 public key, hex */
+    recipientKey: string;
+}
@@ -0,0 +1,330 @@
+/**
+ * In-process metrics: labelled counters, gauges and histograms, read back
+ * as a snapshot object or in the Prometheus text format (version 0.0.4)
+ * OnionBuilder and the LSRPC server each keep a registry; both can share one
+ */
+
+/** Content-Type for toPrometheus output */
+export const PROMETHEUS_CONTENT_TYPE =
+    "text/plain; version=0.0.4; charset=utf-8";
+
+/** Histogram buckets in seconds, up to the default 10s request timeout */
+export const DEFAULT_DURATION_BUCKETS = [
+    0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+export class MetricsRegistry {
+    private metrics: Map<string, Metric> = new Map();
+
+    /**
+     * Counter called name, registering it on first use
+     * Asking again for the same name returns the same counter
+     */
+    public counter(name: string, help: string): Counter {
+        return this.register(name, Counter, () => new Counter(name, help));
+    }
+
+    public gauge(name: string, help: string): Gauge {
+        return this.register(name, Gauge, () => new Gauge(name, help));
+    }
+
+    public histogram(
+        name: string,
+        help: string,
+        buckets: number[] = DEFAULT_DURATION_BUCKETS
+    ): Histogram {
+        return this.register(
+            name,
+            Histogram,
+            () => new Histogram(name, help, buckets)
+        );
+    }
+
+    /**
+     * Current value of every metric, keyed by name
+     * Gauges with a collect function are read now
+     */
+    public async snapshot(): Promise<MetricsSnapshot> {
+        const snapshot: MetricsSnapshot = {};
+        for (const metric of this.metrics.values()) {
+            snapshot[metric.name] = await metric.snapshot();
+        }
+        return snapshot;
+    }
+
+    /**
+     * Every metric in the Prometheus text exposition format
+     */
+    public async toPrometheus(): Promise<string> {
+        const snapshot = await this.snapshot();
+        return Object.entries(snapshot)
+            .map(([name, metric]) => formatMetric(name, metric))
+            .join("");
+    }
+
+    private register<T extends Metric>(
+        name: string,
+        type: new (...args: any[]) => T,
+        create: () => T
+    ): T {
+        if (!METRIC_NAME_PATTERN.test(name)) {
+            throw new Error(`Invalid metric name: ${name}`);
+        }
+        const existing = this.metrics.get(name);
+        if (existing) {
+            if (!(existing instanceof type)) {
+                throw new Error(
+                    `Metric ${name} is already registered as a ${existing.type}`
+                );
+            }
+            return existing;
+        }
+        const metric = create();
+        this.metrics.set(name, metric);
+        return metric;
+    }
+}
+
+abstract class Metric {
+    public readonly name: string;
+    public readonly help: string;
+    public abstract readonly type: MetricType;
+
+    constructor(name: string, help: string) {
+        this.name = name;
+        this.help = help;
+    }
+
+    public abstract snapshot(): Promise<MetricSnapshot>;
+}
+
+/**
+ * Count that only goes up, e.g. requests handled
+ */
+export class Counter extends Metric {
+    public readonly type = "counter";
+    private samples: Map<string, MetricSample> = new Map();
+
+    public inc(labels: MetricLabels = {}, amount: number = 1): void {
+        if (!(amount >= 0)) {
+            throw new Error(`Counter ${this.name} cannot go down`);
+        }
+        sampleFor(this.samples, labels, (labelValues) => ({
+            labels: labelValues,
+            value: 0,
+        })).value += amount;
+    }
+
+    public get(labels: MetricLabels = {}): number {
+        return this.samples.get(labelKey(labels))?.value ?? 0;
+    }
+
+    public async snapshot(): Promise<MetricSnapshot> {
+        return {
+            type: this.type,
+            help: this.help,
+            samples: Array.from(this.samples.values(), copySample),
+        };
+    }
+}
+
+/**
+ * Value that goes up and down, either set directly or read from a
+ * collect function whenever a snapshot is taken
+ */
+export class Gauge extends Metric {
+    public readonly type = "gauge";
+    private samples: Map<string, MetricSample> = new Map();
+    private collector?: GaugeCollector;
+
+    public set(labels: MetricLabels, value: number): void {
+        sampleFor(this.samples, labels, (labelValues) => ({
+            labels: labelValues,
+            value,
+        })).value = value;
+    }
+
+    /**
+     * Read the unlabelled value from collect at snapshot time instead; it
+     * may return undefined while there is nothing to report
+     * A later call replaces the earlier function
+     */
+    public collectWith(collect: GaugeCollector): void {
+        this.collector = collect;
+    }
+
+    public async snapshot(): Promise<MetricSnapshot> {
+        const samples = Array.from(this.samples.values(), copySample);
+        if (this.collector) {
+            const value = await this.collector();
+            if (value !== undefined) {
+                samples.push({ labels: {}, value });
+            }
+        }
+        return { type: this.type, help: this.help, samples };
+    }
+}
+
+/**
+ * Distribution of observed values, e.g. latencies in seconds, counted into
+ * cumulative buckets
+ */
+export class Histogram extends Metric {
+    public readonly type = "histogram";
+    private buckets: number[];
+    private samples: Map<string, HistogramSample> = new Map();
+
+    constructor(name: string, help: string, buckets: number[]) {
+        super(name, help);
+        this.buckets = [...buckets].sort((a, b) => a - b);
+    }
+
+    public observe(labels: MetricLabels, value: number): void {
+        const sample = sampleFor(this.samples, labels, (labelValues) => ({
+            labels: labelValues,
+            count: 0,
+            sum: 0,
+            buckets: this.buckets.map((le) => ({ le, count: 0 })),
+        }));
+        sample.count++;
+        sample.sum += value;
+        for (const bucket of sample.buckets) {
+            if (value <= bucket.le) bucket.count++;
+        }
+    }
+
+    public async snapshot(): Promise<MetricSnapshot> {
+        return {
+            type: this.type,
+            help: this.help,
+            samples: Array.from(this.samples.values(), (sample) => ({
+                ...sample,
+                labels: { ...sample.labels },
+                buckets: sample.buckets.map((bucket) => ({ ...bucket })),
+            })),
+        };
+    }
+}
+
+// Helper function to find the sample for labels, creating it if needed
+function sampleFor<T>(
+    samples: Map<string, T>,
+    labels: MetricLabels,
+    create: (labelValues: Record<string, string>) => T
+): T {
+    const key = labelKey(labels);
+    let sample = samples.get(key);
+    if (!sample) {
+        sample = create(labelValues(labels));
+        samples.set(key, sample);
+    }
+    return sample;
+}
+
+function labelValues(labels: MetricLabels): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const name of Object.keys(labels).sort()) {
+        if (!LABEL_NAME_PATTERN.test(name)) {
+            throw new Error(`Invalid metric label name: ${name}`);
+        }
+        values[name] = String(labels[name]);
+    }
+    return values;
+}
+
+function labelKey(labels: MetricLabels): string {
+    return JSON.stringify(labelValues(labels));
+}
+
+function copySample(sample: MetricSample): MetricSample {
+    return { labels: { ...sample.labels }, value: sample.value };
+}
+
+function formatMetric(name: string, metric: MetricSnapshot): string {
+    const lines = [
+        `# HELP ${name} ${escapeText(metric.help)}`,
+        `# TYPE ${name} ${metric.type}`,
+    ];
+    if (metric.type === "histogram") {
+        for (const sample of metric.samples) {
+            for (const bucket of sample.buckets) {
+                lines.push(
+                    formatSample(`${name}_bucket`, sample.labels, bucket.count, {
+                        le: formatValue(bucket.le),
+                    })
+                );
+            }
+            lines.push(
+                formatSample(`${name}_bucket`, sample.labels, sample.count, {
+                    le: "+Inf",
+                }),
+                formatSample(`${name}_sum`, sample.labels, sample.sum),
+                formatSample(`${name}_count`, sample.labels, sample.count)
+            );
+        }
+    } else {
+        for (const sample of metric.samples) {
+            lines.push(formatSample(name, sample.labels, sample.value));
+        }
+    }
+    return `${lines.join("\n")}\n`;
+}
+
+function formatSample(
+    name: string,
+    labels: Record<string, string>,
+    value: number,
+    extraLabels: Record<string, string> = {}
+): string {
+    const pairs = Object.entries({ ...labels, ...extraLabels }).map(
+        ([label, labelValue]) =>
+            `${label}="${escapeText(labelValue).replace(/"/g, '\\"')}"`
+    );
+    const labelText = pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+    return `${name}${labelText} ${formatValue(value)}`;
+}
+
+// Backslashes and newlines are escaped in help text and label values
+function escapeText(text: string): string {
+    return text.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function formatValue(value: number): string {
+    if (value === Infinity) return "+Inf";
+    if (value === -Infinity) return "-Inf";
+    return String(value);
+}
+
+const METRIC_NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+export type MetricType = "counter" | "gauge" | "histogram";
+
+/** Label names and values; numbers are written as strings */
+export type MetricLabels = Record<string, string | number>;
+
+export type GaugeCollector = () =>
+    | number
+    | undefined
+    | Promise<number | undefined>;
+
+export interface MetricSample {
+    labels: Record<string, string>;
+    value: number;
+}
+
+export interface HistogramSample {
+    labels: Record<string, string>;
+    /** Number of observations */
+    count: number;
+    /** Total of the observed values */
+    sum: number;
+    /** Observations at or below each upper bound (le), cumulative */
+    buckets: { le: number; count: number }[];
+}
+
+export type MetricSnapshot =
+    | { type: "counter" | "gauge"; help: string; samples: MetricSample[] }
+    | { type: "histogram"; help: string; samples: HistogramSample[] };
+
+export type MetricsSnapshot = Record<string, MetricSnapshot>;
@@ -0,0 +1,226 @@
+import * as https from "https";
+import * as tls from "tls";
+import { promises as fs } from "fs";
+import type { Duplex } from "stream";
+import type { ClientRequestArgs } from "http";
+import { X509Certificate, createHash } from "crypto";
+import { TlsVerificationError } from "./onion-errors";
+
+/**
+ * TLS policy for seed and service node connections
+ * Certificates are verified against the system CAs unless the node has a
+ * pin; service nodes use self-signed certificates, so they need one
+ */
+
+// Give up on a pinned handshake that stalls; the request timeout only
+// starts once the socket has been handed over
+const HANDSHAKE_TIMEOUT_MS = 10000;
+
+// Node error codes for certificates that fail CA or hostname validation
+const CERTIFICATE_ERROR_CODES = new Set([
+    "DEPTH_ZERO_SELF_SIGNED_CERT",
+    "SELF_SIGNED_CERT_IN_CHAIN",
+    "UNABLE_TO_VERIFY_LEAF_SIGNATURE",
+    "UNABLE_TO_GET_ISSUER_CERT_LOCALLY",
+    "CERT_HAS_EXPIRED",
+    "CERT_NOT_YET_VALID",
+    "CERT_UNTRUSTED",
+    "ERR_TLS_CERT_ALTNAME_INVALID",
+]);
+
+export interface NodeTlsOptions {
+    /**
+     * Skip every certificate check, as the builder did before pinning
+     * existed; only for local testing
+     */
+    insecure?: boolean;
+    /**
+     * Accepted pins per node, keyed by "host:port", see parseTlsPin
+     */
+    pins?: Record<string, string[]>;
+}
+
+export type TlsPin =
+    | { type: "pubkey"; sha256: string }
+    | { type: "certificate"; sha256: string };
+
+/**
+ * Parse a pin in one of two forms:
+ * - "sha256//<base64>": SHA-256 of the certificate's SubjectPublicKeyInfo,
+ *   the format curl's --pinnedpubkey uses; survives certificate renewal
+ *   with the same key
+ * - 64 hex chars, colons allowed: SHA-256 fingerprint of the certificate
+ */
+export function parseTlsPin(pin: string): TlsPin {
+    const trimmed = pin.trim();
+    if (trimmed.startsWith("sha256//")) {
+        const digest = Buffer.from(trimmed.slice("sha256//".length), "base64");
+        if (digest.length !== 32) {
+            throw new Error(
+                `Invalid public key pin, expected sha256//<base64 SHA-256>: ${pin}`
+            );
+        }
+        return { type: "pubkey", sha256: digest.toString("base64") };
+    }
+
+    const hex = trimmed.replace(/:/g, "").toLowerCase();
+    if (!/^[0-9a-f]{64}$/.test(hex)) {
+        throw new Error(
+            `Invalid certificate pin, expected a SHA-256 fingerprint or sha256//<base64>: ${pin}`
+        );
+    }
+    return { type: "certificate", sha256: hex };
+}
+
+/**
+ * Read pins from a JSON file of { "host:port": ["<pin>", ...] }
+ * Every pin is checked with parseTlsPin so typos fail at startup
+ */
+export async function readTlsPinsFile(
+    filePath: string
+): Promise<Record<string, string[]>> {
+    const parsed: unknown = JSON.parse(await fs.readFile(filePath, "utf8"));
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        throw new Error(`${filePath} must map "host:port" to a list of pins`);
+    }
+
+    const pins: Record<string, string[]> = {};
+    for (const [target, value] of Object.entries(parsed)) {
+        const list = Array.isArray(value) ? value : [value];
+        if (!list.every((pin) => typeof pin === "string")) {
+            throw new Error(`${filePath}: pins for ${target} must be strings`);
+        }
+        list.forEach(parseTlsPin);
+        pins[target] = list;
+    }
+    return pins;
+}
+
+/**
+ * Both pin forms of a certificate, e.g. to print the pins of a node
+ */
+export function pinsForCertificate(certificate: X509Certificate): {
+    pubkey: string;
+    certificate: string;
+} {
+    const spki = certificate.publicKey.export({ type: "spki", format: "der" });
+    return {
+        pubkey: `sha256//${createHash("sha256").update(spki).digest("base64")}`,
+        certificate: createHash("sha256").update(certificate.raw).digest("hex"),
+    };
+}
+
+/**
+ * https.Agent that applies NodeTlsOptions to every connection
+ * Pinned nodes skip CA validation, but the socket is only handed to the
+ * request after the pin matched, so nothing is sent to an impostor
+ */
+export class NodeTlsAgent extends https.Agent {
+    private readonly insecure: boolean;
+    private readonly pins: Map<string, TlsPin[]>;
+
+    constructor(
+        options: NodeTlsOptions = {},
+        agentOptions: https.AgentOptions = {}
+    ) {
+        super({
+            ...agentOptions,
+            rejectUnauthorized: !options.insecure,
+        });
+        this.insecure = options.insecure === true;
+        this.pins = new Map(
+            Object.entries(options.pins ?? {}).map(([target, pins]) => [
+                target,
+                pins.map(parseTlsPin),
+            ])
+        );
+    }
+
+    public isInsecure(): boolean {
+        return this.insecure;
+    }
+
+    public hasPin(target: string): boolean {
+        return this.pins.has(target);
+    }
+
+    public createConnection(
+        options: ClientRequestArgs,
+        callback?: (err: Error | null, stream: Duplex) => void
+    ): Duplex {
+        const target = `${options.host}:${options.port}`;
+        const pins = this.pins.get(target);
+        if (this.insecure || !pins) {
+            return super.createConnection(options, callback);
+        }
+
+        const socket = tls.connect({
+            ...(options as tls.ConnectionOptions),
+            rejectUnauthorized: false,
+        });
+        const fail = (error: Error) => {
+            socket.destroy();
+            callback?.(error, socket);
+        };
+        socket.setTimeout(HANDSHAKE_TIMEOUT_MS, () =>
+            fail(new TlsVerificationError(target, "TLS handshake timed out"))
+        );
+        socket.once("error", fail);
+        socket.once("secureConnect", () => {
+            socket.setTimeout(0);
+            socket.removeListener("error", fail);
+            const mismatch = checkPins(socket, pins);
+            if (mismatch) {
+                fail(new TlsVerificationError(target, mismatch));
+                return;
+            }
+            callback?.(null, socket);
+        });
+
+        // Returning nothing makes the agent wait for the callback
+        return undefined as unknown as Duplex;
+    }
+}
+
+/**
+ * TlsVerificationError for a request that failed certificate validation or
+ * pinning, or null for any other failure
+ * Accepts the error itself or an axios error wrapping it
+ */
+export function toTlsVerificationError(
+    error: unknown,
+    target: string
+): TlsVerificationError | null {
+    const cause = (error as { cause?: unknown } | null)?.cause;
+    if (error instanceof TlsVerificationError) return error;
+    if (cause instanceof TlsVerificationError) return cause;
+
+    const code =
+        (error as { code?: string } | null)?.code ??
+        (cause as { code?: string } | undefined)?.code;
+    if (code && CERTIFICATE_ERROR_CODES.has(code)) {
+        return new TlsVerificationError(
+            target,
+            (error as Error).message ?? code
+        );
+    }
+    return null;
+}
+
+// Why the peer certificate matches none of the pins, or null when one matches
+function checkPins(socket: tls.TLSSocket, pins: TlsPin[]): string | null {
+    const peer = socket.getPeerX509Certificate();
+    if (!peer) {
+        return "Node presented no certificate";
+    }
+
+    const actual = pinsForCertificate(peer);
+    const matches = pins.some((pin) =>
+        pin.type === "pubkey"
+            ? `sha256//${pin.sha256}` === actual.pubkey
+            : pin.sha256 === actual.certificate
+    );
+    return matches
+        ? null
+        : `Certificate matches no pin (public key ${actual.pubkey}, certificate ${actual.certificate})`;
+}
@@ -1,48 +1,264 @@
 import axios from "axios";
 import * as nacl from "tweetnacl";
-import * as https from "https";
-import { HopEncryption, CryptoUtils } from "../onion/crypto-util";
+import {
+    HopEncryption,
+    CryptoUtils,
+    EncryptionType,
+    normalizeEncType,
+} from "../onion/crypto-util";
+import { OnionPathManager, NodeHealth } from "./onion-path-manager";
+import {
+    ServiceNodeDirectory,
+    getSubnet24,
+} from "./service-node-directory";
+import {
+    withRetry,
+    RetryPolicy,
+    DEFAULT_RETRY_POLICY,
+} from "./retry-policy";
+import {
+    OnionError,
+    PathConstructionError,
+    NodeUnreachableError,
+    HopRejectedError,
+    DestinationValidationError,
+    TlsVerificationError,
+    ServerKeysError,
+    RetryError,
+    LsrpcErrorBody,
+    lsrpcErrorFromBody,
+} from "./onion-errors";
+import {
+    NodeTlsAgent,
+    NodeTlsOptions,
+    toTlsVerificationError,
+} from "./node-tls";
+import {
+    OnionV4Request,
+    OnionV4Response,
+    ONION_V4_TARGET,
+    encodeV4Request,
+    decodeV4Response,
+} from "./onion-v4";
+import { IdentityKeyPair, RequestAuth, signRequest } from "./request-signing";
+import {
+    SERVER_KEYS_ENDPOINT,
+    VerifyServerKeysOptions,
+    verifyServerKeys,
+} from "./server-keys";
+import {
+    Logger,
+    REQUEST_ID_HEADER,
+    createLogger,
+    currentLogContext,
+    newRequestId,
+    runWithLogContext,
+} from "./logger";
+import {
+    Counter,
+    Histogram,
+    MetricsRegistry,
+    MetricsSnapshot,
+} from "./metrics";
 
 export class OnionBuilder {
-    private serviceNodes: ServiceNode[];
+    private directory: ServiceNodeDirectory;
+    private pathDiversity: PathDiversity;
     private timeout: number; // 10 second timeout
     private onionPathLength: number;
-    private logger: ConsoleLogger;
+    private logger: Logger;
+    private nodeProtocol: "http" | "https";
+    private encType: EncryptionType;
+    private nodeRefreshMode: NodeRefreshMode;
+    private pathManager: OnionPathManager;
+    private retryPolicy: RetryPolicy;
+    private identity: IdentityKeyPair | null;
+    private metrics: OnionMetrics;
+
+    // Verifies seed certificates against the system CAs and service node
+    // certificates against their pins, see setNodeTls
+    private httpsAgent: NodeTlsAgent;
 
-    // Configure axios to handle self-signed certificates for local development
-    private httpsAgent: https.Agent;
-
-    // Create axios instance with SSL configuration
     private axiosInstance: any;
 
     constructor(
         serviceNodes: ServiceNode[],
         onionPathLength: number = 3,
-        logLevel: LogLevel = LogLevel.DEV
+        logger: Logger = createLogger("onion")
     ) {
-        this.serviceNodes = serviceNodes;
+        this.directory = new ServiceNodeDirectory();
+        this.directory.setNodes(serviceNodes);
+        this.pathDiversity = { distinctSwarms: true, distinctSubnets: true };
         this.timeout = 10000; // 10 second timeout
         this.onionPathLength = onionPathLength;
-        this.logger = new ConsoleLogger(logLevel);
+        this.logger = logger;
+        this.nodeProtocol = "https";
+        this.encType = "aes-gcm";
+        this.nodeRefreshMode = "onion";
+        this.retryPolicy = { ...DEFAULT_RETRY_POLICY };
+        this.identity = null;
+        this.metrics = createOnionMetrics(
+            new MetricsRegistry(),
+            () => this.directory
+        );
+        this.pathManager = new OnionPathManager((pathLength, excludeNodes) =>
+            this.buildOnionPath(pathLength, excludeNodes)
+        );
 
-        // Configure axios to handle self-signed certificates for local development
-        this.httpsAgent = new https.Agent({
-            rejectUnauthorized: false, // Allow self-signed certificates
+        this.httpsAgent = new NodeTlsAgent();
+        this.axiosInstance = axios.create({
+            httpsAgent: this.httpsAgent,
+            timeout: this.timeout,
         });
+    }
 
-        // Create axios instance with SSL configuration
+    /**
+     * Certificate checks for seed and service node connections
+     * Certificates must chain to a system CA unless the node has a pin;
+     * Oxen service nodes use self-signed certificates, so pin every node you
+     * use over https. insecure skips all checks and is for local testing only
+     */
+    public setNodeTls(options: NodeTlsOptions) {
+        if (options.insecure) {
+            this.logger.warn(
+                "TLS certificate checks are disabled; anyone between us and the entry node can intercept requests"
+            );
+        }
+        this.httpsAgent.destroy();
+        this.httpsAgent = new NodeTlsAgent(options);
         this.axiosInstance = axios.create({
             httpsAgent: this.httpsAgent,
             timeout: this.timeout,
         });
     }
 
+    /**
+     * Logger for path building, retries and node refreshes
+     */
+    public setLogger(logger: Logger) {
+        this.logger = logger;
+    }
+
     public setOnionPathLength(length: number) {
         this.onionPathLength = length;
     }
 
+    /**
+     * Protocol used to reach service nodes
+     * Real Oxen nodes use https; local simulated nodes use http
+     */
+    public setNodeProtocol(protocol: "http" | "https") {
+        this.nodeProtocol = protocol;
+    }
+
+    /**
+     * Default encryption type for every onion layer
+     * Can be overridden per request via OnionRequestOptions
+     */
+    public setEncryptionType(encType: EncryptionType) {
+        this.encType = normalizeEncType(encType);
+    }
+
+    /**
+     * How updateServiceNodes and startNodeRefresh fetch the node list
+     * "onion" asks a random service node through an onion path, falling back
+     * to the seed nodes when there are too few known nodes or it fails;
+     * "seed" always asks the seed nodes directly
+     */
+    public setNodeRefreshMode(mode: NodeRefreshMode) {
+        this.nodeRefreshMode = mode;
+    }
+
+    /**
+     * Retry policy shared by seed node fetches and onion requests
+     */
+    public setRetryPolicy(policy: Partial<RetryPolicy>) {
+        this.retryPolicy = { ...this.retryPolicy, ...policy };
+    }
+
+    /**
+     * Whether a path may contain two nodes from the same swarm or /24 subnet
+     * Local simulated nodes share 127.0.0.1 and need both checks off
+     */
+    public setPathDiversity(diversity: Partial<PathDiversity>) {
+        this.pathDiversity = { ...this.pathDiversity, ...diversity };
+        this.pathManager.clearPaths();
+    }
+
+    /**
+     * Use a shared node directory (e.g. one backed by a JSON file)
+     */
+    public setNodeDirectory(directory: ServiceNodeDirectory) {
+        this.directory = directory;
+        this.pathManager.clearPaths();
+    }
+
+    public getNodeDirectory(): ServiceNodeDirectory {
+        return this.directory;
+    }
+
+    /**
+     * Ed25519 identity used to sign sendOnionRequest payloads
+     * Pass null to send unsigned payloads; options.sign turns signing off
+     * for a single request
+     */
+    public setIdentity(identity: IdentityKeyPair | null) {
+        this.identity = identity;
+    }
+
+    /**
+     * Record request, path and node metrics in registry instead of the
+     * builder's own, e.g. to expose them next to other metrics
+     */
+    public setMetrics(registry: MetricsRegistry) {
+        this.metrics = createOnionMetrics(registry, () => this.directory);
+    }
+
+    /**
+     * Request outcomes, latencies, path builds, node failures and the age
+     * of the service node list so far
+     */
+    public async getMetrics(): Promise<MetricsSnapshot> {
+        return this.metrics.registry.snapshot();
+    }
+
     public getServiceNodes() {
-        return this.serviceNodes;
+        return this.directory.getNodes();
+    }
+
+    /**
+     * Refresh the node directory on its interval, see setNodeRefreshMode
+     */
+    public startNodeRefresh(limit: number) {
+        this.directory.startAutoRefresh(
+            async () => {
+                const nodes = await this.fetchNodeList(limit);
+                this.pathManager.clearPaths();
+                return nodes;
+            },
+            (error) =>
+                this.logger.warn("Scheduled service node refresh failed", {
+                    error: (error as Error).message,
+                })
+        );
+    }
+
+    public stopNodeRefresh() {
+        this.directory.stopAutoRefresh();
+    }
+
+    /**
+     * Onion paths currently pooled for reuse
+     */
+    public getOnionPaths(): OnionPathNode[][] {
+        return this.pathManager.getPaths();
+    }
+
+    /**
+     * Per-node success/failure and latency stats
+     */
+    public getNodeHealth(): NodeHealth[] {
+        return this.pathManager.getNodeHealth();
     }
 
     /**
@@ -50,9 +266,9 @@ export class OnionBuilder {
      * Uses multiple seed nodes with retry logic
      */
     public async fetchServiceNodes(limit: number): Promise<ServiceNode[]> {
-        this.logger.log(
-            `Fetching ${limit} real service nodes from Oxen network...`
-        );
+        this.logger.info("Fetching service nodes from the seed nodes", {
+            limit,
+        });
 
         const request = {
             jsonrpc: "2.0",
@@ -64,17 +280,18 @@ export class OnionBuilder {
             },
         };
 
-        // Try each seed node until one succeeds
-        for (let attempt = 0; attempt < 5; attempt++) {
-            for (const seedNodeUrl of OXEN_SEED_NODES) {
-                try {
-                    this.logger.debug(
-                        `Trying seed node: ${seedNodeUrl} (attempt ${
-                            attempt + 1
-                        })`
-                    );
+        // Rotate through the seed nodes, one per attempt, with backoff
+        return withRetry(
+            async (attempt) => {
+                const seedNodeUrl = seedNodeForAttempt(attempt);
+                this.logger.debug("Trying seed node", {
+                    seedNode: seedNodeUrl,
+                    attempt,
+                });
 
-                    const response = (await this.axiosInstance.post(
+                let response: { data: GetServiceNodesResponse };
+                try {
+                    response = (await this.axiosInstance.post(
                         seedNodeUrl,
                         request,
                         {
@@ -82,80 +299,244 @@ export class OnionBuilder {
                             headers: { "Content-Type": "application/json" },
                         }
                     )) as { data: GetServiceNodesResponse };
-
-                    if (
-                        response.data &&
-                        response.data.result &&
-                        response.data.result.service_node_states
-                    ) {
-                        const serviceNodes =
-                            response.data.result.service_node_states.map(
-                                (node: any) => ({
-                                    pubkey_ed25519: node.pubkey_ed25519,
-                                    pubkey_x25519: node.pubkey_x25519,
-                                    public_ip: node.public_ip,
-                                    storage_port: node.storage_port,
-                                    storage_lmq_port: node.storage_lmq_port,
-                                    swarm_id: node.swarm_id,
-                                })
-                            );
-
-                        this.logger.log(
-                            `Successfully fetched ${serviceNodes.length} service nodes from ${seedNodeUrl}`
-                        );
-                        return serviceNodes;
-                    }
                 } catch (error: unknown) {
                     const axiosError = error as any;
-                    this.logger.warn(
-                        `Failed to fetch from ${seedNodeUrl}:`,
+                    const message =
                         axiosError.response?.data?.error?.message ||
-                            axiosError.message
+                        axiosError.message;
+                    this.logger.warn("Seed node request failed", {
+                        seedNode: seedNodeUrl,
+                        error: message,
+                    });
+                    const tlsError = toTlsVerificationError(error, seedNodeUrl);
+                    if (tlsError) {
+                        throw tlsError;
+                    }
+                    if (axiosError.response) {
+                        throw new HopRejectedError(
+                            seedNodeUrl,
+                            axiosError.response.status,
+                            message
+                        );
+                    }
+                    throw new NodeUnreachableError(seedNodeUrl, message);
+                }
+
+                const serviceNodes = toServiceNodes(response.data);
+                if (!serviceNodes) {
+                    throw new OnionError(
+                        "INVALID_SEED_RESPONSE",
+                        `Seed node ${seedNodeUrl} returned no service nodes`
                     );
-                    continue; // Try next seed node
                 }
+
+                this.logger.info("Fetched service nodes", {
+                    count: serviceNodes.length,
+                    seedNode: seedNodeUrl,
+                });
+                return serviceNodes;
+            },
+            this.retryPolicy,
+            {
+                operation: "fetch service nodes",
+                describeTarget: (attempt) => seedNodeForAttempt(attempt),
+                onRetry: (attempt, delayMs) =>
+                    this.logger.info("Seed node attempt failed, retrying", {
+                        attempt,
+                        delayMs,
+                    }),
             }
+        );
+    }
+
+    /**
+     * Fetch service nodes by asking a random known service node through an
+     * onion path, so the seed operators never see our IP
+     * The request is the storage server's oxend_request wrapper around
+     * get_n_service_nodes
+     */
+    public async fetchServiceNodesViaOnion(
+        limit: number,
+        options: OnionRequestOptions = {}
+    ): Promise<ServiceNode[]> {
+        return this.askForServiceNodes(limit, options, new Set());
+    }
+
+    /**
+     * Ask one service node that is not in asked for the node list, adding
+     * the node that answered to asked
+     * Without a limit the node returns every service node it knows
+     */
+    private async askForServiceNodes(
+        limit: number | undefined,
+        options: OnionRequestOptions,
+        asked: Set<string>
+    ): Promise<ServiceNode[]> {
+        this.logger.info("Fetching service nodes through an onion path", {
+            limit,
+        });
+
+        const request = {
+            method: "oxend_request",
+            params: {
+                endpoint: "get_n_service_nodes",
+                params: {
+                    limit,
+                    fields: SERVICE_NODE_FIELDS,
+                },
+            },
+        };
 
-            // If all seed nodes failed, wait before retry
-            if (attempt < 4) {
-                this.logger.log(
-                    `All seed nodes failed, retrying in 10000ms...`
+        let destination: SnodeDestination | undefined;
+        const response = await this.sendWithRetry(
+            (path) => {
+                destination = this.pickSnodeDestination(path, asked);
+                return this.buildOnionRequest(
+                    request,
+                    path,
+                    destination,
+                    options
                 );
-                await new Promise((resolve) => setTimeout(resolve, 10000));
-            }
+            },
+            (onionRequest) => this.postOnionRequest(onionRequest),
+            "fetch service nodes via onion"
+        );
+
+        const reply = decodeSnodeReply(response.body);
+        if (reply.status >= 400) {
+            throw new OnionError(
+                "INVALID_SNODE_RESPONSE",
+                `Service node answered with status ${reply.status}: ${reply.body}`
+            );
         }
 
-        throw new Error(
-            `Failed to fetch service nodes from all seed nodes after attempts`
-        );
+        const serviceNodes = toServiceNodes(reply.body);
+        if (!serviceNodes) {
+            throw new OnionError(
+                "INVALID_SNODE_RESPONSE",
+                "Service node returned no service nodes"
+            );
+        }
+
+        asked.add(destination!.ed25519_pubkey);
+        this.logger.info("Fetched service nodes through an onion path", {
+            count: serviceNodes.length,
+        });
+        return serviceNodes;
+    }
+
+    /**
+     * Ask one service node for a sample of limit nodes, then a second one
+     * for its full list, and keep the sampled records the full list has
+     * unchanged, so a single node cannot inject or alter entries
+     * get_n_service_nodes samples at random, so two samples rarely overlap;
+     * the full list is what makes the check possible
+     */
+    private async fetchCrossCheckedNodes(
+        limit: number
+    ): Promise<ServiceNode[]> {
+        const asked = new Set<string>();
+        const sample = await this.askForServiceNodes(limit, {}, asked);
+        const fullList = await this.askForServiceNodes(undefined, {}, asked);
+
+        const confirmed = confirmNodes(sample, fullList);
+        this.logger.info("Cross-checked service node list", {
+            sampled: sample.length,
+            confirmed: confirmed.length,
+        });
+        return confirmed;
     }
 
     /**
      * Update service nodes with real data from Oxen network
+     * Saves the list when the node directory has a file configured
      */
     public async updateServiceNodes(limit: number): Promise<void> {
         try {
-            const realServiceNodes = await this.fetchServiceNodes(limit);
-            this.serviceNodes = realServiceNodes;
-            this.logger.log(
-                `Updated service nodes: ${realServiceNodes.length} nodes loaded`
+            const realServiceNodes = await this.directory.refresh(() =>
+                this.fetchNodeList(limit)
             );
+            this.pathManager.clearPaths();
+            this.logger.info("Updated service nodes", {
+                count: realServiceNodes.length,
+            });
         } catch (error: unknown) {
-            this.logger.error("Failed to update service nodes:", error);
+            this.logger.error("Failed to update service nodes", { error });
             throw error;
         }
     }
 
+    /**
+     * Fetch the node list the way nodeRefreshMode asks for
+     * The direct seed fetch bootstraps the list and is the fallback when an
+     * onion refresh fails
+     */
+    private async fetchNodeList(limit: number): Promise<ServiceNode[]> {
+        // A path plus a destination node per source is needed for onion refresh
+        if (
+            this.nodeRefreshMode === "onion" &&
+            this.directory.getNodes().length >=
+                this.onionPathLength + NODE_LIST_SOURCES
+        ) {
+            try {
+                const nodes = await this.fetchCrossCheckedNodes(limit);
+                const minNodes = this.directory.getMinNodes();
+                if (nodes.length < minNodes) {
+                    throw new OnionError(
+                        "INVALID_SNODE_LIST",
+                        `Only ${nodes.length} service nodes were confirmed, at least ${minNodes} are required`
+                    );
+                }
+                return nodes;
+            } catch (error: unknown) {
+                this.logger.warn(
+                    "Onion service node refresh failed, falling back to seed nodes",
+                    { error: (error as Error).message }
+                );
+            }
+        }
+        return this.fetchServiceNodes(limit);
+    }
+
+    /**
+     * Pick a random service node outside the path and exclude to answer a
+     * snode request
+     */
+    private pickSnodeDestination(
+        path: OnionPathNode[],
+        exclude: Set<string> = new Set()
+    ): SnodeDestination {
+        const used = new Set(path.map((node) => node.ed25519_pubkey));
+        exclude.forEach((pubkey) => used.add(pubkey));
+        for (const health of this.pathManager.getNodeHealth()) {
+            if (health.dropped) used.add(health.ed25519_pubkey);
+        }
+
+        const candidates = this.directory
+            .getNodes()
+            .filter((node) => !used.has(node.pubkey_ed25519));
+        if (candidates.length === 0) {
+            throw new PathConstructionError(path.length + 1, path.length);
+        }
+
+        return toSnodeDestination(
+            candidates[Math.floor(Math.random() * candidates.length)]
+        );
+    }
+
     /**
      * Build onion path for routing requests
      * Based on working implementation from oxen-client.js
+     * Nodes whose ed25519 key is in excludeNodes are never selected, and by
+     * default no two nodes share a swarm or /24 subnet
      */
     public async buildOnionPath(
-        pathLength: number = 3
+        pathLength: number = 3,
+        excludeNodes: Set<string> = new Set()
     ): Promise<OnionPathNode[]> {
         try {
             // Use our mock service nodes (which are real Oxen storage servers)
-            const serviceNodes = this.serviceNodes;
+            const serviceNodes = this.directory.getNodes();
 
             // Filter active nodes with required keys
             const activeNodes = serviceNodes.filter(
@@ -163,29 +544,52 @@ export class OnionBuilder {
                     node.pubkey_ed25519 &&
                     node.pubkey_x25519 &&
                     node.public_ip &&
-                    node.storage_port
+                    node.storage_port &&
+                    !excludeNodes.has(node.pubkey_ed25519)
             );
 
-            this.logger.debug(`Filtered to ${activeNodes.length} active nodes`);
+            this.logger.debug("Filtered active nodes", {
+                count: activeNodes.length,
+            });
 
             if (activeNodes.length < pathLength) {
-                throw new Error(
-                    `Not enough active service nodes. Need ${pathLength}, got ${activeNodes.length}`
+                throw new PathConstructionError(
+                    pathLength,
+                    activeNodes.length
                 );
             }
 
-            // Randomly select nodes for the path
-            const selectedNodes: any = [];
-            const usedIndices = new Set();
+            // Randomly select nodes for the path, skipping any that share
+            // a swarm or /24 subnet with a node already selected
+            const candidates = shuffle(activeNodes);
+            const selectedNodes: ServiceNode[] = [];
+            const usedSwarms = new Set<string>();
+            const usedSubnets = new Set<string>();
+
+            for (const node of candidates) {
+                if (selectedNodes.length === pathLength) break;
+
+                const swarm = String(node.swarm_id);
+                const subnet = getSubnet24(node.public_ip);
+                if (
+                    (this.pathDiversity.distinctSwarms &&
+                        usedSwarms.has(swarm)) ||
+                    (this.pathDiversity.distinctSubnets &&
+                        usedSubnets.has(subnet))
+                ) {
+                    continue;
+                }
+
+                usedSwarms.add(swarm);
+                usedSubnets.add(subnet);
+                selectedNodes.push(node);
+            }
 
-            while (selectedNodes.length < pathLength) {
-                const randomIndex = Math.floor(
-                    Math.random() * activeNodes.length
+            if (selectedNodes.length < pathLength) {
+                throw new PathConstructionError(
+                    pathLength,
+                    selectedNodes.length
                 );
-                if (!usedIndices.has(randomIndex)) {
-                    usedIndices.add(randomIndex);
-                    selectedNodes.push(activeNodes[randomIndex]);
-                }
             }
 
             const path = selectedNodes.map((node: ServiceNode) => ({
@@ -195,10 +599,14 @@ export class OnionBuilder {
                 port: node.storage_port,
             }));
 
+            this.metrics.pathBuilds.inc({ result: "success" });
             return path;
         } catch (error: any) {
-            this.logger.error("Failed to build onion path:", error.message);
-            throw new Error("Unable to build onion path");
+            this.metrics.pathBuilds.inc({ result: "failure" });
+            this.logger.error("Failed to build onion path", {
+                error: error.message,
+            });
+            throw error;
         }
     }
 
@@ -214,7 +622,7 @@ export class OnionBuilder {
             false
         );
         const encrypted = await hopEncryption.encrypt(
-            "aes-gcm",
+            this.encType,
             data,
             recipientPublicKey
         );
@@ -226,23 +634,22 @@ export class OnionBuilder {
     }
 
     /**
-     * WORKING: Build onion request using AES-GCM encryption
+     * WORKING: Build onion request using AES-GCM or XChaCha20 encryption
      * Based on working implementation from oxen-client.js
-     * Now supports custom server destinations only
+     * Supports custom server destinations and service node ("snode") destinations
      */
     public async buildOnionRequest(
-        finalPayload: OnionPayload,
+        finalPayload: OnionPayload | OnionPayload[],
         onionPath: OnionPathNode[],
-        destination: OnionDestination
+        destination: OnionDestination | SnodeDestination,
+        options: OnionRequestOptions = {}
     ): Promise<OnionRequestResult> {
-        this.logger.log(
-            "Building onion request for destination (WORKING AES-GCM):",
-            destination.host
-        );
-        this.logger.debug("Final payload:", JSON.stringify(finalPayload));
-
-        // Generate ephemeral keypair for final destination
-        const finalEphemeralKeyPair = nacl.box.keyPair();
+        const encType = normalizeEncType(options.encType || this.encType);
+        this.logger.debug("Building onion request", {
+            destination: describeDestination(destination),
+            encType,
+        });
+        this.logger.trace("Final payload", { payload: finalPayload });
 
         // Step 1: Prepare final payload with exact format
         // Format request.body: P>{${payloadJson}}{"headers":{}}{"host":"...","port":...,"protocol":"...","target":"..."}
@@ -277,9 +684,71 @@ export class OnionBuilder {
             routingBuffer,
         ]);
 
-        let blob: any = finalData;
+        return this.wrapOnionLayers(
+            finalData,
+            onionPath,
+            destination,
+            encType,
+            2
+        );
+    }
 
-        this.logger.debug("Final data/blob size:", blob.length);
+    /**
+     * Build a v4 onion request: bencoded HTTP method, endpoint, headers and
+     * optional binary body, delivered to ONION_V4_TARGET on the destination
+     */
+    public async buildOnionRequestV4(
+        request: OnionV4Request,
+        onionPath: OnionPathNode[],
+        destination: OnionDestination,
+        options: OnionRequestOptions = {}
+    ): Promise<OnionRequestResult> {
+        const encType = normalizeEncType(options.encType || this.encType);
+        this.logger.debug("Building v4 onion request", {
+            destination: destination.host,
+            method: request.method,
+            endpoint: request.endpoint,
+            encType,
+        });
+
+        return this.wrapOnionLayers(
+            encodeV4Request(request),
+            onionPath,
+            { ...destination, target: ONION_V4_TARGET },
+            encType,
+            4
+        );
+    }
+
+    /**
+     * Encrypt finalData for the destination, then add one layer per hop
+     * working backwards from the exit node
+     */
+    private async wrapOnionLayers(
+        finalData: Buffer,
+        onionPath: OnionPathNode[],
+        destination: OnionDestination | SnodeDestination,
+        encType: EncryptionType,
+        version: 2 | 4
+    ): Promise<OnionRequestResult> {
+        // Generate ephemeral keypair for final destination
+        const finalEphemeralKeyPair = nacl.box.keyPair();
+
+        // Step 2: Encrypt final data end-to-end for the destination server
+        // using the final ephemeral key, so no hop ever sees the plaintext
+        const destinationPubKey = CryptoUtils.fromHex(destination.x25519_pubkey);
+        const destinationEncryption = new HopEncryption(
+            Buffer.from(finalEphemeralKeyPair.secretKey),
+            Buffer.from(finalEphemeralKeyPair.publicKey),
+            false
+        );
+        let blob: any = await destinationEncryption.encrypt(
+            encType,
+            finalData,
+            destinationPubKey
+        );
+
+        this.logger.trace("Encrypted final data", { size: blob.length });
 
         // Step 3: Work backwards through onion path
         let ephemeralKeyForNextHop = Buffer.from(
@@ -289,25 +758,36 @@ export class OnionBuilder {
         for (let i = onionPath.length - 1; i >= 0; i--) {
             const node = onionPath[i];
             const ephemeralKeyPair = nacl.box.keyPair();
-            this.logger.debug("===============================");
-            this.logger.debug(`Processing hop ${i}, node:`, node.ip);
+            this.logger.trace("Processing hop", { hop: i, node: node.ip });
 
             // Routing info for this hop
             let routingInfo;
-            if (i === onionPath.length - 1) {
-                // Final hop - route to custom server destination
+            if (i === onionPath.length - 1 && destination.type === "snode") {
+                // Final hop - forward to the destination service node, which
+                // opens the blob with its own key
                 routingInfo = {
-                    host: destination.host,
-                    port: destination.port,
-                    protocol: destination.protocol,
-                    target: destination.target,
+                    destination: destination.ed25519_pubkey,
+                    ephemeral_key: CryptoUtils.toHex(ephemeralKeyForNextHop),
+                    enc_type: encType,
+                };
+            } else if (i === onionPath.length - 1) {
+                // Final hop - route to custom server destination, passing
+                // the final ephemeral key so the server can decrypt the blob
+                const server = destination as OnionDestination;
+                routingInfo = {
+                    host: server.host,
+                    port: server.port,
+                    protocol: server.protocol,
+                    target: server.target,
+                    ephemeral_key: CryptoUtils.toHex(ephemeralKeyForNextHop),
+                    enc_type: encType,
                 };
             } else {
                 // Intermediate hop - route to next node in path
                 routingInfo = {
                     destination: onionPath[i + 1].ed25519_pubkey,
                     ephemeral_key: CryptoUtils.toHex(ephemeralKeyForNextHop),
-                    enc_type: "aes-gcm",
+                    enc_type: encType,
                 };
             }
 
@@ -326,7 +806,7 @@ export class OnionBuilder {
             layerData.set(blob, blobSizeBuffer.length);
             layerData.set(routingBuffer, blobSizeBuffer.length + blob.length);
 
-            // Encrypt for this hop (AES-GCM)
+            // Encrypt for this hop
             const nodeX25519PubKey = CryptoUtils.fromHex(node.x25519_pubkey);
             const nodeHopEncryption = new HopEncryption(
                 Buffer.from(ephemeralKeyPair.secretKey),
@@ -338,14 +818,14 @@ export class OnionBuilder {
             const layerDataBuffer = Buffer.alloc(layerData.length);
             layerDataBuffer.set(layerData);
             blob = await nodeHopEncryption.encrypt(
-                "aes-gcm",
+                encType,
                 layerDataBuffer,
                 nodeX25519PubKey
             );
-            this.logger.debug(
-                `Encrypted for hop ${i}, new blob size:`,
-                blob.length
-            );
+            this.logger.trace("Encrypted hop layer", {
+                hop: i,
+                size: blob.length,
+            });
 
             // Update ephemeral key for the next iteration (previous hop)
             ephemeralKeyForNextHop = Buffer.from(ephemeralKeyPair.publicKey);
@@ -354,7 +834,7 @@ export class OnionBuilder {
         // Step 4: Final wrapper for first hop - following libsession-util format
         const wrapperMeta = {
             ephemeral_key: CryptoUtils.toHex(ephemeralKeyForNextHop),
-            enc_type: "aes-gcm",
+            enc_type: encType,
         };
 
         const wrapperMetaJson = JSON.stringify(wrapperMeta);
@@ -374,27 +854,37 @@ export class OnionBuilder {
             wrapperSizeBuffer.length + blob.length
         );
 
-        this.logger.debug("Final wrapper size:", finalWrapper.length);
+        this.logger.trace("Built onion wrapper", {
+            size: finalWrapper.length,
+        });
 
         return {
             encryptedPayload: finalWrapper,
             entryNode: onionPath[0],
             ephemeralKey: ephemeralKeyForNextHop,
             finalEphemeralKeyPair: finalEphemeralKeyPair,
+            path: onionPath,
+            destinationPubKey: destinationPubKey,
+            encType: encType,
+            version,
         };
     }
 
     /**
-     * WORKING: Send onion request through the network using AES-GCM
+     * WORKING: Send onion request through the network
      * Based on working implementation from oxen-client.js
-     * Now supports custom server destinations only
+     * Sends to a custom server; see sendSnodeRequest for service nodes
+     * An array payload is sent as one batch and answered with an array
      */
     public async sendOnionRequest(
-        payload: OnionPayload,
-        customDestination: OnionDestination
+        payload: OnionPayload | OnionPayload[],
+        customDestination: OnionDestination,
+        options: OnionRequestOptions = {}
     ): Promise<OnionResponse> {
         if (!customDestination) {
-            throw new Error("Custom destination is required");
+            throw new DestinationValidationError(
+                "Custom destination is required"
+            );
         }
 
         // Validate destination structure
@@ -404,29 +894,228 @@ export class OnionBuilder {
             !customDestination.protocol ||
             !customDestination.target
         ) {
-            throw new Error(
+            throw new DestinationValidationError(
                 "Custom destination must have host, port, protocol, and target properties"
             );
         }
 
-        this.logger.log(
-            "Using custom server destination:",
-            customDestination.host + ":" + customDestination.port
+        if (!/^[0-9a-f]{64}$/i.test(customDestination.x25519_pubkey || "")) {
+            throw new DestinationValidationError(
+                "Custom destination must have a 32-byte hex x25519_pubkey",
+                "x25519_pubkey"
+            );
+        }
+
+        const identity = options.sign === false ? null : this.identity;
+        // Sign each attempt afresh so a retry is not a replay
+        const sign = (request: OnionPayload) =>
+            identity ? signRequest(request, identity) : request;
+        const response = await this.sendWithRetry(
+            (path) =>
+                this.buildOnionRequest(
+                    Array.isArray(payload) ? payload.map(sign) : sign(payload),
+                    path,
+                    customDestination,
+                    options
+                ),
+            (onionRequest) => this.postOnionRequest(onionRequest),
+            "send onion request"
+        );
+        return checkLsrpcReply(response);
+    }
+
+    /**
+     * Send a v4 onion request (any HTTP method, headers and binary body) to
+     * the destination's ONION_V4_TARGET endpoint
+     * Resolves with the destination's status, headers and raw body
+     */
+    public async sendOnionRequestV4(
+        request: OnionV4Request,
+        destination: OnionDestination,
+        options: OnionRequestOptions = {}
+    ): Promise<OnionV4Response> {
+        if (!destination || !destination.host || !destination.port) {
+            throw new DestinationValidationError(
+                "v4 destination must have host and port properties"
+            );
+        }
+        if (!/^[0-9a-f]{64}$/i.test(destination.x25519_pubkey || "")) {
+            throw new DestinationValidationError(
+                "v4 destination must have a 32-byte hex x25519_pubkey",
+                "x25519_pubkey"
+            );
+        }
+        if (!request?.method || !request.endpoint?.startsWith("/")) {
+            throw new DestinationValidationError(
+                "v4 request must have a method and an endpoint starting with /",
+                "endpoint"
+            );
+        }
+
+        return this.sendWithRetry(
+            (path) =>
+                this.buildOnionRequestV4(
+                    withRequestIdHeader(request),
+                    path,
+                    destination,
+                    options
+                ),
+            (onionRequest) => this.postOnionRequestV4(onionRequest),
+            "send v4 onion request"
         );
+    }
 
-        // Build onion path
-        const onionPath = await this.buildOnionPath(this.onionPathLength);
-        this.logger.debug("Onion path:", onionPath);
+    /**
+     * Fetch the destination's published keys (GET /oxen/keys) over a v4
+     * onion request and check they are signed by its ed25519_pubkey
+     * Resolves with the destination switched to the current X25519 key; the
+     * request is encrypted to the key the destination has, so refresh while
+     * that key is current or within its grace period after a rotation
+     * Pass the destination's rotationIntervalMs to accept documents that old;
+     * by default only ones signed within the clock skew are accepted
+     */
+    public async refreshDestinationKeys(
+        destination: OnionDestination,
+        options: VerifyServerKeysOptions = {}
+    ): Promise<OnionDestination> {
+        const ed25519Pubkey = destination?.ed25519_pubkey || "";
+        if (!/^[0-9a-f]{64}$/i.test(ed25519Pubkey)) {
+            throw new DestinationValidationError(
+                "Destination must have a 32-byte hex ed25519_pubkey to verify its keys",
+                "ed25519_pubkey"
+            );
+        }
 
-        // Build the onion request with the payload directly
-        const onionRequest = await this.buildOnionRequest(
-            payload,
-            onionPath,
-            customDestination
+        const response = await this.sendOnionRequestV4(
+            { method: "GET", endpoint: SERVER_KEYS_ENDPOINT },
+            destination
+        );
+        if (response.status !== 200) {
+            throw new ServerKeysError(
+                `Destination answered ${SERVER_KEYS_ENDPOINT} with status ${response.status}`
+            );
+        }
+        let keys: unknown;
+        try {
+            keys = JSON.parse(response.body?.toString("utf8") ?? "");
+        } catch (error: unknown) {
+            keys = null;
+        }
+        if (!verifyServerKeys(keys, ed25519Pubkey, options)) {
+            throw new ServerKeysError(
+                "Published keys are stale or not signed by the destination's ed25519_pubkey"
+            );
+        }
+
+        this.logger.debug("Refreshed destination keys", {
+            host: destination.host,
+        });
+        return { ...destination, x25519_pubkey: keys.x25519_pubkey };
+    }
+
+    /**
+     * Send a storage server RPC (store, retrieve, delete, ...) to one service
+     * node at the end of an onion path that does not contain it
+     * The node's {"status","body"} reply is unwrapped, with a JSON body parsed
+     */
+    public async sendSnodeRequest<T = unknown>(
+        payload: OnionPayload,
+        destination: SnodeDestination,
+        options: OnionRequestOptions = {}
+    ): Promise<SnodeResponse<T>> {
+        for (const field of ["ed25519_pubkey", "x25519_pubkey"] as const) {
+            if (!/^[0-9a-f]{64}$/i.test(destination?.[field] || "")) {
+                throw new DestinationValidationError(
+                    `Snode destination must have a 32-byte hex ${field}`,
+                    field
+                );
+            }
+        }
+
+        const response = await this.sendWithRetry(
+            (path) =>
+                this.buildOnionRequest(payload, path, destination, options),
+            (onionRequest) => this.postOnionRequest(onionRequest),
+            "send snode request",
+            new Set([destination.ed25519_pubkey])
         );
+        const reply = decodeSnodeReply(response.body);
+        return { statusCode: reply.status, body: reply.body as T };
+    }
 
-        // Send the raw onion request
-        return this.sendRawOnionRequest(onionRequest);
+    /**
+     * Build and send a request over a pooled path with the builder's retry
+     * policy; paths through any node in avoidNodes are not used
+     * Every line logged while sending carries one request id, taken from the
+     * caller's log context or newly generated
+     */
+    private async sendWithRetry<T>(
+        buildRequest: (path: OnionPathNode[]) => Promise<OnionRequestResult>,
+        send: (onionRequest: OnionRequestResult) => Promise<T>,
+        operation: string,
+        avoidNodes: Set<string> = new Set()
+    ): Promise<T> {
+        // Guard node used by each attempt, for failure reporting
+        const attemptGuards: Record<number, OnionPathNode> = {};
+        const requestId = currentLogContext().requestId ?? newRequestId();
+
+        const sending = runWithLogContext({ requestId }, () =>
+            withRetry(
+                async (attempt) => {
+                    // Reuse a pooled onion path, building one if needed
+                    const onionPath = await this.pathManager.getPath(
+                        this.onionPathLength,
+                        avoidNodes
+                    );
+                    attemptGuards[attempt] = onionPath[0];
+                    this.logger.debug(`Starting ${operation}`, {
+                        attempt,
+                        path: onionPath.map(
+                            (node) => `${node.ip}:${node.port}`
+                        ),
+                    });
+
+                    const onionRequest = await buildRequest(onionPath);
+
+                    try {
+                        return await send(onionRequest);
+                    } catch (error: unknown) {
+                        // Retry over a freshly built path
+                        if (isRetryableOnionError(error)) {
+                            this.pathManager.discardPath(onionPath);
+                        }
+                        throw error;
+                    }
+                },
+                this.retryPolicy,
+                {
+                    operation,
+                    shouldRetry: isRetryableOnionError,
+                    describeTarget: (attempt) => {
+                        const guard = attemptGuards[attempt];
+                        return guard ? `${guard.ip}:${guard.port}` : undefined;
+                    },
+                    onRetry: (attempt, delayMs, error) =>
+                        this.logger.warn(
+                            "Onion request attempt failed, retrying",
+                            {
+                                attempt,
+                                delayMs,
+                                error: (error as Error).message,
+                            }
+                        ),
+                }
+            )
+        );
+        // Each request counts once, however many attempts it took
+        try {
+            const result = await sending;
+            this.metrics.requests.inc({ outcome: "success" });
+            return result;
+        } catch (error: unknown) {
+            this.metrics.requests.inc({ outcome: failureOutcome(error) });
+            throw error;
+        }
     }
 
     /**
@@ -436,11 +1125,62 @@ export class OnionBuilder {
     public async sendRawOnionRequest(
         onionRequest: OnionRequestResult
     ): Promise<OnionResponse> {
+        return this.postOnionRequest(onionRequest);
+    }
+
+    /**
+     * Post a v2 onion request to its entry node and decrypt the reply
+     */
+    private async postOnionRequest(
+        onionRequest: OnionRequestResult
+    ): Promise<OnionResponse> {
+        // Custom server replies with base64 AES-GCM ciphertext
+        const response = await this.postToEntryNode(onionRequest, (data) =>
+            this.decryptOnionResponse(
+                CryptoUtils.fromBase64(data.toString().trim()),
+                onionRequest
+            )
+        );
+        return {
+            statusCode: response.status,
+            headers: response.headers,
+            body: response.reply.toString(),
+        };
+    }
+
+    /**
+     * Post a v4 onion request to its entry node, then decrypt and decode
+     * the destination's bencoded reply
+     */
+    private async postOnionRequestV4(
+        onionRequest: OnionRequestResult
+    ): Promise<OnionV4Response> {
+        // v4 replies are raw ciphertext rather than base64
+        const response = await this.postToEntryNode(onionRequest, (data) =>
+            this.decryptOnionResponse(data, onionRequest)
+        );
+        return decodeV4Response(response.reply);
+    }
+
+    /**
+     * Post an onion request to its entry node, decrypt the reply with
+     * readReply and record path health
+     * The destination encrypts error replies too, so a reply that decrypts
+     * is the destination's whatever its status; any other non-2xx body came
+     * from a node on the path
+     * Throws NodeUnreachableError or HopRejectedError so callers can decide whether to retry
+     */
+    private async postToEntryNode<T>(
+        onionRequest: OnionRequestResult,
+        readReply: (data: Buffer) => Promise<T>
+    ): Promise<EntryNodeResponse<T>> {
         // Send to entry node using the correct endpoint format
-        const entryNodeUrl = `https://${onionRequest.entryNode.ip}:${onionRequest.entryNode.port}`;
+        const entryNodeUrl = `${this.nodeProtocol}://${onionRequest.entryNode.ip}:${onionRequest.entryNode.port}`;
+        const startTime = Date.now();
 
+        let response;
         try {
-            const response = await this.axiosInstance.post(
+            response = await this.axiosInstance.post(
                 `${entryNodeUrl}/onion_req/v2`,
                 onionRequest.encryptedPayload,
                 {
@@ -449,26 +1189,143 @@ export class OnionBuilder {
                         "X-Custom-Header": "value",
                     },
                     responseType: "arraybuffer",
+                    validateStatus: () => true,
                 }
             );
-
-            // Return raw response for custom server
-            const responseBuffer = Buffer.from(response.data);
-            return {
-                statusCode: response.status,
-                headers: response.headers,
-                body: responseBuffer.toString(),
-            };
         } catch (error: unknown) {
-            const onionError = error as OnionError;
-            this.logger.error(
-                "Onion request failed:",
-                onionError.response?.data?.toString() || onionError.message
-            );
-            throw new Error(
-                `Failed to send onion request: ${onionError.message}`
+            throw this.recordPathFailure(
+                onionRequest.path,
+                this.toOnionError(error as AxiosLikeError, onionRequest.path)
             );
         }
+
+        const data = Buffer.from(response.data);
+        const delivered = response.status >= 200 && response.status < 300;
+        let reply: T;
+        try {
+            reply = await readReply(data);
+        } catch (error: any) {
+            if (!delivered) {
+                throw this.recordPathFailure(
+                    onionRequest.path,
+                    this.toOnionError(
+                        {
+                            message: `Request failed with status code ${response.status}`,
+                            response: { status: response.status, data },
+                        },
+                        onionRequest.path
+                    )
+                );
+            }
+            this.logger.error("Failed to decrypt onion response", {
+                error: error.message,
+                ciphertext: data,
+            });
+            throw error;
+        }
+
+        const latencyMs = Date.now() - startTime;
+        this.pathManager.recordSuccess(onionRequest.path, latencyMs);
+        this.metrics.requestDuration.observe(
+            {
+                hops: onionRequest.path.length,
+                guard: `${onionRequest.entryNode.ip}:${onionRequest.entryNode.port}`,
+            },
+            latencyMs / 1000
+        );
+
+        return {
+            status: response.status,
+            headers: response.headers,
+            reply,
+        };
+    }
+
+    // Helper function to record a failed request against path and the node
+    // blamed for it, returning the error to throw
+    private recordPathFailure(
+        path: OnionPathNode[],
+        onionError: NodeUnreachableError | HopRejectedError | TlsVerificationError
+    ): OnionError {
+        const failedNode = this.findFailedNode(onionError, path);
+        this.pathManager.recordFailure(path, failedNode);
+        if (failedNode) {
+            this.metrics.nodeFailures.inc({
+                node: `${failedNode.ip}:${failedNode.port}`,
+            });
+        }
+        this.logger.warn("Onion request failed", {
+            error: onionError.message,
+        });
+        return onionError;
+    }
+
+    /**
+     * Convert an axios error from the guard node into a typed onion error
+     * A path node named in the response body is recorded as the failed node
+     */
+    private toOnionError(
+        error: AxiosLikeError,
+        path: OnionPathNode[]
+    ): NodeUnreachableError | HopRejectedError | TlsVerificationError {
+        const guard = `${path[0].ip}:${path[0].port}`;
+        const tlsError = toTlsVerificationError(error, guard);
+        if (tlsError) {
+            return tlsError;
+        }
+        if (!error.response) {
+            return new NodeUnreachableError(guard, error.message);
+        }
+
+        const body = error.response.data?.toString() || "";
+        const failedNode = path.find((node) =>
+            body.includes(node.ed25519_pubkey)
+        );
+        return new HopRejectedError(
+            guard,
+            error.response.status ?? 0,
+            body,
+            failedNode?.ed25519_pubkey
+        );
+    }
+
+    /**
+     * Work out which node in the path caused a failure, if possible
+     * An unreachable or unverifiable guard failed itself; otherwise only a
+     * node named by the hop
+     */
+    private findFailedNode(
+        error: NodeUnreachableError | HopRejectedError | TlsVerificationError,
+        path: OnionPathNode[]
+    ): OnionPathNode | undefined {
+        if (
+            error instanceof NodeUnreachableError ||
+            error instanceof TlsVerificationError
+        ) {
+            return path[0];
+        }
+        return path.find((node) => node.ed25519_pubkey === error.failedNode);
+    }
+
+    /**
+     * Decrypt the destination server's reply using the final ephemeral key
+     * The server encrypts to the same shared secret it used to decrypt the request
+     */
+    private async decryptOnionResponse(
+        ciphertext: Buffer,
+        onionRequest: OnionRequestResult
+    ): Promise<Buffer> {
+        const responseEncryption = new HopEncryption(
+            Buffer.from(onionRequest.finalEphemeralKeyPair.secretKey),
+            Buffer.from(onionRequest.finalEphemeralKeyPair.publicKey),
+            false
+        );
+
+        return responseEncryption.decrypt(
+            onionRequest.encType,
+            ciphertext,
+            onionRequest.destinationPubKey
+        );
     }
 }
 
@@ -498,9 +1355,13 @@ interface OnionPayload<T = Record<string, unknown>> {
     method: string;
     /** Parameters to pass to the method */
     params: T;
+    /** Signature block added by signRequest */
+    auth?: RequestAuth;
 }
 
 export interface OnionDestination {
+    /** Custom server destination (the default) */
+    type?: "server";
     /** Hostname or IP address of the destination server */
     host: string;
     /** Port number of the destination server */
@@ -509,9 +1370,55 @@ export interface OnionDestination {
     protocol: "http" | "https";
     /** Target endpoint path on the destination server */
     target: string;
+    /** X25519 public key (hex) of the destination server for E2EE */
+    x25519_pubkey: string;
+    /**
+     * Ed25519 identity key (hex) of the destination server, which signs its
+     * published keys; needed by refreshDestinationKeys
+     */
+    ed25519_pubkey?: string;
 }
 
-interface OnionPathNode {
+/**
+ * Service node that answers the request itself, e.g. get_n_service_nodes
+ * or a storage server RPC
+ */
+export interface SnodeDestination {
+    type: "snode";
+    /** Ed25519 public key of the destination node */
+    ed25519_pubkey: string;
+    /** X25519 public key (hex) of the destination node for E2EE */
+    x25519_pubkey: string;
+}
+
+/**
+ * Snode destination for a service node record
+ */
+export function toSnodeDestination(node: ServiceNode): SnodeDestination {
+    return {
+        type: "snode",
+        ed25519_pubkey: node.pubkey_ed25519,
+        x25519_pubkey: node.pubkey_x25519,
+    };
+}
+
+export interface SnodeResponse<T = unknown> {
+    /** Status the service node answered with */
+    statusCode: number;
+    /** Reply body, parsed when it is JSON */
+    body: T;
+}
+
+export type NodeRefreshMode = "onion" | "seed";
+
+export interface OnionRequestOptions {
+    /** Encryption type for every layer, overriding the builder default */
+    encType?: EncryptionType;
+    /** Set false to skip signing with the builder identity */
+    sign?: boolean;
+}
+
+export interface OnionPathNode {
     /** Ed25519 public key for identity verification */
     ed25519_pubkey: string;
     /** X25519 public key for encryption key exchange */
@@ -522,6 +1429,14 @@ interface OnionPathNode {
     port: number;
 }
 
+interface OnionMetrics {
+    registry: MetricsRegistry;
+    requests: Counter;
+    requestDuration: Histogram;
+    pathBuilds: Counter;
+    nodeFailures: Counter;
+}
+
 interface OnionResponse {
     /** HTTP status code of the response */
     statusCode: number;
@@ -531,86 +1446,246 @@ interface OnionResponse {
     body: string;
 }
 
-interface OnionError {
+export interface PathDiversity {
+    /** Never put two nodes from the same swarm in one path */
+    distinctSwarms: boolean;
+    /** Never put two nodes from the same /24 subnet in one path */
+    distinctSubnets: boolean;
+}
+
+interface EntryNodeResponse<T> {
+    /** HTTP status relayed by the entry node */
+    status: number;
+    /** Response headers from the entry node */
+    headers: Record<string, string>;
+    /** Decrypted reply from the destination */
+    reply: T;
+}
+
+interface AxiosLikeError {
     /** Error message */
     message: string;
     /** Optional response data from axios */
     response?: {
+        status?: number;
         data?: unknown;
     };
 }
 
-interface OnionRequestResult {
-    /** Encrypted payload for onion routing */
-    encryptedPayload: Uint8Array;
-    /** Entry node information */
-    entryNode: OnionPathNode;
-    /** Ephemeral key for the first hop */
-    ephemeralKey: Buffer;
-    /** Final ephemeral key pair for destination */
-    finalEphemeralKeyPair: {
-        publicKey: Uint8Array;
-        secretKey: Uint8Array;
-    };
+/**
+ * Connection errors, guard certificates we cannot verify and guard-node 5xx
+ * responses are worth retrying over a new path
+ */
+function isRetryableOnionError(error: unknown): boolean {
+    if (
+        error instanceof NodeUnreachableError ||
+        error instanceof TlsVerificationError
+    ) {
+        return true;
+    }
+    return error instanceof HopRejectedError && error.status >= 500;
 }
 
-class ConsoleLogger {
-    private logLevel: LogLevel;
-    private prefix: string;
+/**
+ * Register the builder's metrics in registry; the node list age is read
+ * from whichever directory the builder uses when metrics are collected
+ */
+function createOnionMetrics(
+    registry: MetricsRegistry,
+    directory: () => ServiceNodeDirectory
+): OnionMetrics {
+    registry
+        .gauge(
+            "onion_snode_list_age_seconds",
+            "Seconds since the service node list was last refreshed"
+        )
+        .collectWith(() => {
+            const updatedAt = directory().getUpdatedAt();
+            return updatedAt
+                ? (Date.now() - updatedAt.getTime()) / 1000
+                : undefined;
+        });
 
-    constructor(logLevel: LogLevel = LogLevel.DEV, prefix: string = "🧅") {
-        this.logLevel = logLevel;
-        this.prefix = prefix;
-    }
+    return {
+        registry,
+        requests: registry.counter(
+            "onion_requests_total",
+            "Onion requests by outcome: success, or the error code that ended them"
+        ),
+        requestDuration: registry.histogram(
+            "onion_request_duration_seconds",
+            "Round trip of successful onion requests by hop count and guard node"
+        ),
+        pathBuilds: registry.counter(
+            "onion_path_builds_total",
+            "Onion paths built, by result"
+        ),
+        nodeFailures: registry.counter(
+            "onion_node_failures_total",
+            "Failed requests blamed on a path node, by node"
+        ),
+    };
+}
 
-    public setLogLevel(level: LogLevel): void {
-        this.logLevel = level;
+// Helper function to label a failed request by the error that ended it;
+// after retries that is the last attempt's error
+function failureOutcome(error: unknown): string {
+    const cause = error instanceof RetryError ? error.lastError : error;
+    if (cause instanceof OnionError) {
+        return cause.code;
     }
+    return error instanceof OnionError ? error.code : "UNKNOWN_ERROR";
+}
 
-    public getLogLevel(): LogLevel {
-        return this.logLevel;
+function shuffle<T>(items: T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
     }
+    return result;
+}
 
-    public setPrefix(prefix: string): void {
-        this.prefix = prefix;
+/**
+ * Copy of a v4 request carrying the current request id in x-request-id,
+ * so the server can log under the same id
+ */
+function withRequestIdHeader(request: OnionV4Request): OnionV4Request {
+    const requestId = currentLogContext().requestId;
+    const headers = request.headers ?? {};
+    const hasId = Object.keys(headers).some(
+        (name) => name.toLowerCase() === REQUEST_ID_HEADER
+    );
+    if (typeof requestId !== "string" || hasId) {
+        return request;
     }
+    return {
+        ...request,
+        headers: { ...headers, [REQUEST_ID_HEADER]: requestId },
+    };
+}
 
-    public isProduction(): boolean {
-        return this.logLevel === LogLevel.PROD;
-    }
+function describeDestination(
+    destination: OnionDestination | SnodeDestination
+): string {
+    return destination.type === "snode"
+        ? `snode ${destination.ed25519_pubkey}`
+        : destination.host;
+}
 
-    public isDevelopment(): boolean {
-        return this.logLevel === LogLevel.DEV;
+/**
+ * Map a get_n_service_nodes result to ServiceNode records
+ * Returns null when the response has no service_node_states
+ */
+function toServiceNodes(data: unknown): ServiceNode[] | null {
+    const result = (data as { result?: unknown } | null)?.result;
+    const states = (result as { service_node_states?: unknown } | null)
+        ?.service_node_states;
+    if (!Array.isArray(states)) {
+        return null;
     }
+    // Field values are checked later by validateServiceNode
+    return states.filter(isServiceNodeState).map((node) => ({
+        pubkey_ed25519: node.pubkey_ed25519,
+        pubkey_x25519: node.pubkey_x25519,
+        public_ip: node.public_ip,
+        storage_port: node.storage_port,
+        storage_lmq_port: node.storage_lmq_port,
+        swarm_id: node.swarm_id,
+    }));
+}
 
-    public error(message: string, ...args: any[]): void {
-        if (this.logLevel === LogLevel.DEV) {
-            console.error(`${this.prefix} ❌ ${message}`, ...args);
-        }
-    }
+function isServiceNodeState(state: unknown): state is ServiceNodeState {
+    return typeof state === "object" && state !== null;
+}
 
-    public warn(message: string, ...args: any[]): void {
-        if (this.logLevel === LogLevel.DEV) {
-            console.warn(`${this.prefix} ⚠️ ${message}`, ...args);
-        }
+/**
+ * Nodes of sample whose records appear unchanged in fullList
+ */
+function confirmNodes(
+    sample: ServiceNode[],
+    fullList: ServiceNode[]
+): ServiceNode[] {
+    const known = new Set(fullList.map((node) => nodeRecordKey(node)));
+    return sample.filter((node) => known.has(nodeRecordKey(node)));
+}
+
+function nodeRecordKey(node: ServiceNode): string {
+    return [
+        node.pubkey_ed25519,
+        node.pubkey_x25519,
+        node.public_ip,
+        node.storage_port,
+        node.storage_lmq_port,
+        node.swarm_id,
+    ].join("|");
+}
+
+/**
+ * Unwrap a service node's onion reply, {"status","body"} with body usually
+ * a JSON string, the way storage servers answer onion requests
+ * Anything else is treated as a 200 with the whole reply as the body
+ */
+function decodeSnodeReply(body: string): { status: number; body: unknown } {
+    const reply = parseJson(body);
+    const status = (reply as { status?: unknown } | null)?.status;
+    if (typeof reply !== "object" || typeof status !== "number") {
+        return { status: 200, body: reply };
     }
 
-    public log(message: string, ...args: any[]): void {
-        if (this.logLevel === LogLevel.DEV) {
-            console.log(`${this.prefix} ℹ️ ${message}`, ...args);
-        }
+    const inner = (reply as { body?: unknown }).body;
+    return {
+        status,
+        body: typeof inner === "string" ? parseJson(inner) : inner,
+    };
+}
+
+// Helper function to throw the typed LsrpcError for an { error, code }
+// reply from the destination server
+function checkLsrpcReply(response: OnionResponse): OnionResponse {
+    if (response.statusCode >= 200 && response.statusCode < 300) {
+        return response;
+    }
+    const body = parseJson(response.body) as Partial<LsrpcErrorBody> | null;
+    if (typeof body?.error === "string" && typeof body.code === "string") {
+        throw lsrpcErrorFromBody(response.statusCode, body as LsrpcErrorBody);
     }
+    return response;
+}
 
-    public debug(message: string, ...args: any[]): void {
-        if (this.logLevel === LogLevel.DEV) {
-            console.log(`${this.prefix} 🔍 ${message}`, ...args);
-        }
+// Parse JSON, keeping the original string when it is not JSON
+function parseJson(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch (error: unknown) {
+        return text;
     }
 }
 
-enum LogLevel {
-    DEV = "dev",
-    PROD = "prod",
+function seedNodeForAttempt(attempt: number): string {
+    return OXEN_SEED_NODES[(attempt - 1) % OXEN_SEED_NODES.length];
+}
+
+interface OnionRequestResult {
+    /** Encrypted payload for onion routing */
+    encryptedPayload: Uint8Array;
+    /** Entry node information */
+    entryNode: OnionPathNode;
+    /** Full onion path, entry node first */
+    path: OnionPathNode[];
+    /** Ephemeral key for the first hop */
+    ephemeralKey: Buffer;
+    /** Final ephemeral key pair for destination */
+    finalEphemeralKeyPair: {
+        publicKey: Uint8Array;
+        secretKey: Uint8Array;
+    };
+    /** X25519 public key of the destination server */
+    destinationPubKey: Buffer;
+    /** Encryption type used for every layer */
+    encType: EncryptionType;
+    /** Onion request version: 2 (JSON payload) or 4 (bencoded HTTP request) */
+    version: 2 | 4;
 }
 
 const SERVICE_NODE_FIELDS = {
@@ -622,24 +1697,30 @@ const SERVICE_NODE_FIELDS = {
     swarm_id: true,
 } as const;
 
+// Service nodes asked on each onion refresh: one for a sample of nodes and
+// one for the full list that confirms it
+const NODE_LIST_SOURCES = 2;
+
 const OXEN_SEED_NODES = [
-    "http://seed1.getsession.org/json_rpc",
-    "http://seed2.getsession.org/json_rpc",
-    "http://seed3.getsession.org/json_rpc",
+    "https://seed1.getsession.org/json_rpc",
+    "https://seed2.getsession.org/json_rpc",
+    "https://seed3.getsession.org/json_rpc",
 ] as const;
 
 interface GetServiceNodesResponse {
     jsonrpc: "2.0";
     id: number;
     result: {
-        service_node_states: Array<{
-            service_node_pubkey: string;
-            public_ip: string;
-            storage_port: number;
-            pubkey_x25519: string;
-            pubkey_ed25519: string;
-            storage_lmq_port: number;
-            swarm_id: number;
-        }>;
+        service_node_states: ServiceNodeState[];
     };
 }
+
+interface ServiceNodeState {
+    service_node_pubkey: string;
+    public_ip: string;
+    storage_port: number;
+    pubkey_x25519: string;
+    pubkey_ed25519: string;
+    storage_lmq_port: number;
+    swarm_id: number;
+}
@@ -0,0 +1,238 @@
+import { HopEncryption, CryptoUtils } from "./crypto-util";
+import { DecryptionError, OnionDecodeError } from "./onion-errors";
+import { decodeV4Request, ParsedV4Request } from "./onion-v4";
+
+/**
+ * Server-side decoder for onion request bodies
+ * Reads the [uint32 LE size][payload][routing json] framing produced by
+ * OnionBuilder.buildOnionRequest, decrypting the payload first when it
+ * arrives wrapped as [size][ciphertext][{"ephemeral_key","enc_type"}]
+ * The server may hold several keys (e.g. during key rotation); each is
+ * tried in turn, and the one that worked is returned for the reply
+ */
+export class OnionRequestDecoder {
+    private keys: ServerEncryptionSource;
+
+    constructor(keys: ServerEncryptionSource) {
+        this.keys = keys;
+    }
+
+    /**
+     * Decode a raw onion request body into the parsed request and routing metadata
+     */
+    async decode<T = unknown>(body: Buffer): Promise<DecodedOnionRequest<T>> {
+        const outer = decodeOnionFrame(body);
+
+        let frame = outer;
+        let ephemeralKey: Buffer | undefined;
+        let encType: string | undefined;
+        let encryption: HopEncryption | undefined;
+
+        if (typeof outer.json.ephemeral_key === "string") {
+            ephemeralKey = CryptoUtils.fromHex(outer.json.ephemeral_key);
+            encType =
+                typeof outer.json.enc_type === "string"
+                    ? outer.json.enc_type
+                    : "aes-gcm";
+
+            const decrypted = await this.decrypt(
+                encType,
+                outer.data,
+                ephemeralKey
+            );
+            frame = decodeOnionFrame(decrypted.plaintext);
+            encryption = decrypted.encryption;
+        }
+
+        let payload: T;
+        try {
+            payload = JSON.parse(frame.data.toString("utf8"));
+        } catch (error: any) {
+            throw new OnionDecodeError(
+                `Onion payload is not valid JSON: ${error.message}`
+            );
+        }
+
+        return {
+            payload,
+            rawPayload: frame.data,
+            routing: {
+                ...frame.json,
+                headers: parseHeaders(frame.json.headers),
+                version:
+                    typeof frame.json.version === "number"
+                        ? frame.json.version
+                        : DEFAULT_ONION_VERSION,
+            },
+            encrypted: ephemeralKey !== undefined,
+            ephemeralKey,
+            encType,
+            encryption,
+        };
+    }
+
+    /**
+     * Decode a v4 onion request body: [size][ciphertext][{"ephemeral_key",
+     * "enc_type"}] wrapping a bencoded request (see onion-v4.ts)
+     * v4 requests are always encrypted to the server key
+     */
+    async decodeV4(body: Buffer): Promise<DecodedOnionV4Request> {
+        const outer = decodeOnionFrame(body);
+        if (typeof outer.json.ephemeral_key !== "string") {
+            throw new OnionDecodeError("v4 onion request has no ephemeral_key");
+        }
+
+        const ephemeralKey = CryptoUtils.fromHex(outer.json.ephemeral_key);
+        const encType =
+            typeof outer.json.enc_type === "string"
+                ? outer.json.enc_type
+                : "aes-gcm";
+        const { plaintext, encryption } = await this.decrypt(
+            encType,
+            outer.data,
+            ephemeralKey
+        );
+
+        return {
+            request: decodeV4Request(plaintext),
+            ephemeralKey,
+            encType,
+            encryption,
+        };
+    }
+
+    // Decrypt with the first server key that works; wrong keys fail
+    // authentication, so only the last DecryptionError is reported
+    private async decrypt(
+        encType: string,
+        ciphertext: Buffer,
+        ephemeralKey: Buffer
+    ): Promise<{ plaintext: Buffer; encryption: HopEncryption }> {
+        const keys =
+            typeof this.keys === "function" ? await this.keys() : [this.keys];
+        let lastError: unknown = new DecryptionError(encType, "no server key");
+        for (const encryption of keys) {
+            try {
+                const plaintext = await encryption.decrypt(
+                    encType,
+                    ciphertext,
+                    ephemeralKey
+                );
+                return { plaintext, encryption };
+            } catch (error: unknown) {
+                if (!(error instanceof DecryptionError)) {
+                    throw error;
+                }
+                lastError = error;
+            }
+        }
+        throw lastError;
+    }
+}
+
+/**
+ * Split a [uint32 LE size][data][json] frame into its data and trailing JSON
+ */
+export function decodeOnionFrame(body: Buffer): OnionFrame {
+    if (body.length < 4) {
+        throw new OnionDecodeError(
+            `Onion frame too short: expected at least 4 bytes, got ${body.length}`
+        );
+    }
+
+    const size = body.readUInt32LE(0);
+    if (4 + size > body.length) {
+        throw new OnionDecodeError(
+            `Onion frame size ${size} exceeds body length ${body.length - 4}`
+        );
+    }
+
+    const data = body.subarray(4, 4 + size);
+    const jsonBuffer = body.subarray(4 + size);
+
+    let json: Record<string, unknown> = {};
+    if (jsonBuffer.length > 0) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(jsonBuffer.toString("utf8"));
+        } catch (error: any) {
+            throw new OnionDecodeError(
+                `Onion frame routing is not valid JSON: ${error.message}`
+            );
+        }
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+            throw new OnionDecodeError(
+                "Onion frame routing must be a JSON object"
+            );
+        }
+        json = parsed as Record<string, unknown>;
+    }
+
+    return { data, json };
+}
+
+function parseHeaders(headers: unknown): Record<string, string> {
+    if (!headers || typeof headers !== "object" || Array.isArray(headers)) {
+        return {};
+    }
+
+    const result: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers)) {
+        result[key.toLowerCase()] = String(value);
+    }
+    return result;
+}
+
+const DEFAULT_ONION_VERSION = 2;
+
+/**
+ * The server key, or a function listing every key requests may be
+ * encrypted to, current key first
+ */
+export type ServerEncryptionSource =
+    | HopEncryption
+    | (() => HopEncryption[] | Promise<HopEncryption[]>);
+
+export interface OnionFrame {
+    /** Size-prefixed data section (payload or ciphertext) */
+    data: Buffer;
+    /** Trailing JSON object (routing metadata or encryption info) */
+    json: Record<string, unknown>;
+}
+
+export interface OnionRoutingMeta {
+    /** Headers for the destination request, with lowercased names */
+    headers: Record<string, string>;
+    /** Onion request framing version */
+    version: number;
+    /** Any other routing fields sent by the client */
+    [key: string]: unknown;
+}
+
+export interface DecodedOnionRequest<T = unknown> {
+    /** Parsed JSON request payload */
+    payload: T;
+    /** Raw payload bytes before JSON parsing */
+    rawPayload: Buffer;
+    /** Routing metadata that followed the payload */
+    routing: OnionRoutingMeta;
+    /** Whether the payload was encrypted to the server key */
+    encrypted: boolean;
+    /** Client ephemeral key used for the payload, if encrypted */
+    ephemeralKey?: Buffer;
+    /** Encryption type used for the payload, if encrypted */
+    encType?: string;
+    /** Server key that decrypted the payload; the reply must use it too */
+    encryption?: HopEncryption;
+}
+
+export interface DecodedOnionV4Request {
+    /** Bencoded request metadata and body */
+    request: ParsedV4Request;
+    /** Client ephemeral key the reply is encrypted to */
+    ephemeralKey: Buffer;
+    /** Encryption type used for the request and its reply */
+    encType: string;
+    /** Server key that decrypted the request; the reply must use it too */
+    encryption: HopEncryption;
+}
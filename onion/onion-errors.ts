@@ -0,0 +1,353 @@
+import type { RetryAttempt } from "./retry-policy";
+
+/**
+ * Base class for every onion request failure
+ * `code` is a stable identifier callers can switch on
+ */
+export class OnionError extends Error {
+    public readonly code: string;
+
+    constructor(code: string, message: string) {
+        super(message);
+        this.name = new.target.name;
+        this.code = code;
+    }
+}
+
+/**
+ * Not enough usable service nodes to build a path
+ */
+export class PathConstructionError extends OnionError {
+    public readonly required: number;
+    public readonly available: number;
+
+    constructor(required: number, available: number) {
+        super(
+            "PATH_CONSTRUCTION_FAILED",
+            `Unable to build onion path: need ${required} active service nodes, got ${available}`
+        );
+        this.required = required;
+        this.available = available;
+    }
+}
+
+/**
+ * No response at all from a node or seed (connection refused, timeout, DNS)
+ */
+export class NodeUnreachableError extends OnionError {
+    /** ip:port or URL that could not be reached */
+    public readonly target: string;
+    /** Underlying network error message */
+    public readonly reason: string;
+
+    constructor(target: string, reason: string) {
+        super("NODE_UNREACHABLE", `Node ${target} unreachable: ${reason}`);
+        this.target = target;
+        this.reason = reason;
+    }
+}
+
+/**
+ * A node's certificate failed CA validation or matched none of its pins
+ * Nothing was sent to it
+ */
+export class TlsVerificationError extends OnionError {
+    /** ip:port or URL of the node */
+    public readonly target: string;
+    /** Why the certificate was rejected */
+    public readonly reason: string;
+
+    constructor(target: string, reason: string) {
+        super(
+            "TLS_VERIFICATION_FAILED",
+            `TLS verification failed for ${target}: ${reason}`
+        );
+        this.target = target;
+        this.reason = reason;
+    }
+}
+
+/**
+ * A node answered with a non-2xx status instead of forwarding the request
+ */
+export class HopRejectedError extends OnionError {
+    /** ip:port or URL of the node that answered */
+    public readonly target: string;
+    /** HTTP status returned by the node */
+    public readonly status: number;
+    /** Response body returned by the node */
+    public readonly body: string;
+    /** Ed25519 key of the path node named in the body, if any */
+    public readonly failedNode?: string;
+
+    constructor(
+        target: string,
+        status: number,
+        body: string,
+        failedNode?: string
+    ) {
+        super(
+            "HOP_REJECTED",
+            `Node ${target} rejected onion request with status ${status}${
+                body ? `: ${body}` : ""
+            }`
+        );
+        this.target = target;
+        this.status = status;
+        this.body = body;
+        this.failedNode = failedNode;
+    }
+}
+
+/**
+ * Ciphertext could not be decrypted (wrong key, tampered or truncated data)
+ */
+export class DecryptionError extends OnionError {
+    public readonly encType: string;
+    public readonly reason: string;
+
+    constructor(encType: string, reason: string) {
+        super("DECRYPTION_FAILED", `Failed to decrypt ${encType}: ${reason}`);
+        this.encType = encType;
+        this.reason = reason;
+    }
+}
+
+/**
+ * enc_type value that HopEncryption does not implement
+ */
+export class UnsupportedEncryptionError extends OnionError {
+    public readonly encType: string;
+
+    constructor(encType: string) {
+        super(
+            "UNSUPPORTED_ENCRYPTION",
+            `Unsupported encryption type: ${encType}`
+        );
+        this.encType = encType;
+    }
+}
+
+/**
+ * OnionDestination is missing or has an invalid field
+ */
+export class DestinationValidationError extends OnionError {
+    /** Name of the offending field, if a single field is at fault */
+    public readonly field?: string;
+
+    constructor(message: string, field?: string) {
+        super("INVALID_DESTINATION", message);
+        this.field = field;
+    }
+}
+
+/**
+ * A destination's published keys could not be fetched, or are not signed
+ * by its ed25519_pubkey
+ */
+export class ServerKeysError extends OnionError {
+    constructor(message: string) {
+        super("INVALID_SERVER_KEYS", message);
+    }
+}
+
+/**
+ * Onion request body does not follow the expected framing
+ */
+export class OnionDecodeError extends OnionError {
+    constructor(message: string) {
+        super("ONION_DECODE_FAILED", message);
+    }
+}
+
+/**
+ * Every retry attempt failed; lists each attempt's node and error
+ */
+export class RetryError extends OnionError {
+    public readonly attempts: RetryAttempt[];
+    public readonly lastError?: unknown;
+
+    constructor(
+        operation: string = "operation",
+        attempts: RetryAttempt[],
+        lastError?: unknown
+    ) {
+        const summary = attempts
+            .map(
+                (attempt) =>
+                    `[${attempt.attempt}]${
+                        attempt.node ? ` ${attempt.node}:` : ""
+                    } ${attempt.error}`
+            )
+            .join("; ");
+        super(
+            "RETRIES_EXHAUSTED",
+            `Failed to ${operation} after ${attempts.length} attempt${
+                attempts.length === 1 ? "" : "s"
+            }: ${summary}`
+        );
+        this.attempts = attempts;
+        this.lastError = lastError;
+    }
+}
+
+/**
+ * LSRPC request failure with the HTTP status and JSON body the server returns
+ */
+export class LsrpcError extends Error {
+    public readonly status: number;
+    public readonly code: string;
+    public readonly details?: Record<string, unknown>;
+
+    constructor(
+        status: number,
+        code: string,
+        message: string,
+        details?: Record<string, unknown>
+    ) {
+        super(message);
+        this.name = new.target.name;
+        this.status = status;
+        this.code = code;
+        this.details = details;
+    }
+
+    /**
+     * JSON error body: { error, code, details? }
+     */
+    toJSON(): LsrpcErrorBody {
+        return {
+            error: this.message,
+            code: this.code,
+            ...(this.details ? { details: this.details } : {}),
+        };
+    }
+}
+
+/**
+ * Request body could not be decoded, decrypted or parsed
+ */
+export class LsrpcParseError extends LsrpcError {
+    constructor(message: string, details?: Record<string, unknown>) {
+        super(400, "PARSE_ERROR", message, details);
+    }
+}
+
+/**
+ * Request parsed but its method or params are invalid
+ */
+export class LsrpcValidationError extends LsrpcError {
+    constructor(
+        code: "INVALID_METHOD" | "INVALID_PARAMS",
+        message: string,
+        details?: Record<string, unknown>
+    ) {
+        super(400, code, message, details);
+    }
+}
+
+/**
+ * Requested route or record does not exist
+ */
+export class LsrpcNotFoundError extends LsrpcError {
+    constructor(message: string, details?: Record<string, unknown>) {
+        super(404, "NOT_FOUND", message, details);
+    }
+}
+
+/**
+ * Request signature is missing, invalid, stale or replayed
+ */
+export class LsrpcAuthError extends LsrpcError {
+    constructor(
+        code:
+            | "SIGNATURE_REQUIRED"
+            | "INVALID_SIGNATURE"
+            | "STALE_REQUEST"
+            | "REPLAYED_REQUEST",
+        message: string,
+        details?: Record<string, unknown>
+    ) {
+        super(401, code, message, details);
+    }
+}
+
+/**
+ * Caller is authenticated but may not act on the requested record
+ */
+export class LsrpcForbiddenError extends LsrpcError {
+    constructor(message: string, details?: Record<string, unknown>) {
+        super(403, "FORBIDDEN", message, details);
+    }
+}
+
+/**
+ * Request body or params exceed the size allowed for the method
+ */
+export class LsrpcPayloadTooLargeError extends LsrpcError {
+    constructor(message: string, details?: Record<string, unknown>) {
+        super(413, "PAYLOAD_TOO_LARGE", message, details);
+    }
+}
+
+/**
+ * Too many requests from one client or in total, or a full mailbox
+ * details.retryAfterMs says when a retry can succeed, if known
+ */
+export class LsrpcRateLimitError extends LsrpcError {
+    constructor(
+        code: "RATE_LIMITED" | "MAILBOX_FULL" | "STORAGE_FULL",
+        message: string,
+        details?: Record<string, unknown>
+    ) {
+        super(429, code, message, details);
+    }
+
+    public get retryAfterMs(): number | undefined {
+        const value = this.details?.retryAfterMs;
+        return typeof value === "number" ? value : undefined;
+    }
+}
+
+/**
+ * Rebuild the typed LsrpcError for an { error, code, details? } reply
+ */
+export function lsrpcErrorFromBody(
+    status: number,
+    body: LsrpcErrorBody
+): LsrpcError {
+    const { error: message, code, details } = body;
+    switch (code) {
+        case "PARSE_ERROR":
+            return new LsrpcParseError(message, details);
+        case "INVALID_METHOD":
+        case "INVALID_PARAMS":
+            return new LsrpcValidationError(code, message, details);
+        case "NOT_FOUND":
+            return new LsrpcNotFoundError(message, details);
+        case "SIGNATURE_REQUIRED":
+        case "INVALID_SIGNATURE":
+        case "STALE_REQUEST":
+        case "REPLAYED_REQUEST":
+            return new LsrpcAuthError(code, message, details);
+        case "FORBIDDEN":
+            return new LsrpcForbiddenError(message, details);
+        case "PAYLOAD_TOO_LARGE":
+            return new LsrpcPayloadTooLargeError(message, details);
+        case "RATE_LIMITED":
+        case "MAILBOX_FULL":
+        case "STORAGE_FULL":
+            return new LsrpcRateLimitError(code, message, details);
+        default:
+            return new LsrpcError(status, code, message, details);
+    }
+}
+
+export interface LsrpcErrorBody {
+    /** Human readable error message */
+    error: string;
+    /** Stable error code */
+    code: string;
+    /** Extra structured information, e.g. the offending field */
+    details?: Record<string, unknown>;
+}
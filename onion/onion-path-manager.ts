@@ -0,0 +1,218 @@
+import type { OnionPathNode } from "./onion-builder";
+
+/**
+ * Keeps a small pool of onion paths and per-node health for OnionBuilder
+ * Paths are reused across requests; a path is rebuilt once it fails too
+ * often or contains a node that has been dropped for repeated failures
+ */
+export class OnionPathManager {
+    private buildPath: PathBuilder;
+    private poolSize: number;
+    private maxNodeFailures: number;
+    private maxPathFailures: number;
+    private paths: ManagedPath[] = [];
+    private nodeHealth: Map<string, NodeHealth> = new Map();
+
+    constructor(buildPath: PathBuilder, options: PathManagerOptions = {}) {
+        this.buildPath = buildPath;
+        this.poolSize = options.poolSize ?? 2;
+        this.maxNodeFailures = options.maxNodeFailures ?? 3;
+        this.maxPathFailures = options.maxPathFailures ?? 3;
+    }
+
+    /**
+     * Get a path of the given length, building new ones until the pool is full
+     * A path containing any node in avoidNodes (ed25519 keys) is never
+     * returned; when every pooled path does, a one-off path is built instead
+     */
+    public async getPath(
+        pathLength: number,
+        avoidNodes: Set<string> = new Set()
+    ): Promise<OnionPathNode[]> {
+        this.prunePaths(pathLength);
+
+        while (this.paths.length < this.poolSize) {
+            const path = await this.buildPath(
+                pathLength,
+                this.getDroppedNodes()
+            );
+            this.paths.push({ nodes: path, failures: 0 });
+        }
+
+        const usable = this.paths.filter(
+            (path) =>
+                !path.nodes.some((node) => avoidNodes.has(node.ed25519_pubkey))
+        );
+        if (usable.length === 0) {
+            const excluded = this.getDroppedNodes();
+            avoidNodes.forEach((key) => excluded.add(key));
+            return this.buildPath(pathLength, excluded);
+        }
+
+        const index = Math.floor(Math.random() * usable.length);
+        return usable[index].nodes;
+    }
+
+    /**
+     * Record a successful request over path, with its round-trip latency
+     */
+    public recordSuccess(path: OnionPathNode[], latencyMs: number): void {
+        const managed = this.findPath(path);
+        if (managed) {
+            managed.failures = 0;
+        }
+
+        for (const node of path) {
+            const health = this.getHealth(node);
+            health.successes++;
+            health.consecutiveFailures = 0;
+            health.lastLatencyMs = latencyMs;
+            health.totalLatencyMs += latencyMs;
+            health.averageLatencyMs = health.totalLatencyMs / health.successes;
+        }
+    }
+
+    /**
+     * Record a failed request over path
+     * failedNode is the node known to have failed, when the error identifies one
+     */
+    public recordFailure(
+        path: OnionPathNode[],
+        failedNode?: OnionPathNode
+    ): void {
+        const managed = this.findPath(path);
+        if (managed) {
+            managed.failures++;
+        }
+
+        if (failedNode) {
+            const health = this.getHealth(failedNode);
+            health.failures++;
+            health.consecutiveFailures++;
+            if (health.consecutiveFailures >= this.maxNodeFailures) {
+                health.dropped = true;
+            }
+        }
+
+        this.prunePaths();
+    }
+
+    /**
+     * Remove a path from the pool so the next request builds a fresh one
+     */
+    public discardPath(path: OnionPathNode[]): void {
+        this.paths = this.paths.filter((managed) => managed.nodes !== path);
+    }
+
+    /**
+     * Forget all pooled paths, e.g. after the service node list changes
+     */
+    public clearPaths(): void {
+        this.paths = [];
+    }
+
+    /**
+     * Current pooled paths, for debugging
+     */
+    public getPaths(): OnionPathNode[][] {
+        return this.paths.map((path) => path.nodes);
+    }
+
+    /**
+     * Health of every node that has been used in a path, for debugging
+     */
+    public getNodeHealth(): NodeHealth[] {
+        return Array.from(this.nodeHealth.values()).map((health) => ({
+            ...health,
+        }));
+    }
+
+    private getDroppedNodes(): Set<string> {
+        const dropped = new Set<string>();
+        for (const [key, health] of this.nodeHealth) {
+            if (health.dropped) dropped.add(key);
+        }
+        return dropped;
+    }
+
+    // Remove paths with the wrong length, too many failures or dropped nodes
+    private prunePaths(pathLength?: number): void {
+        this.paths = this.paths.filter(
+            (path) =>
+                (pathLength === undefined ||
+                    path.nodes.length === pathLength) &&
+                path.failures < this.maxPathFailures &&
+                !path.nodes.some(
+                    (node) => this.nodeHealth.get(node.ed25519_pubkey)?.dropped
+                )
+        );
+    }
+
+    private findPath(path: OnionPathNode[]): ManagedPath | undefined {
+        return this.paths.find((managed) => managed.nodes === path);
+    }
+
+    private getHealth(node: OnionPathNode): NodeHealth {
+        let health = this.nodeHealth.get(node.ed25519_pubkey);
+        if (!health) {
+            health = {
+                ed25519_pubkey: node.ed25519_pubkey,
+                ip: node.ip,
+                port: node.port,
+                successes: 0,
+                failures: 0,
+                consecutiveFailures: 0,
+                lastLatencyMs: null,
+                averageLatencyMs: null,
+                totalLatencyMs: 0,
+                dropped: false,
+            };
+            this.nodeHealth.set(node.ed25519_pubkey, health);
+        }
+        return health;
+    }
+}
+
+type PathBuilder = (
+    pathLength: number,
+    excludeNodes: Set<string>
+) => Promise<OnionPathNode[]>;
+
+interface ManagedPath {
+    /** Nodes in the path, entry node first */
+    nodes: OnionPathNode[];
+    /** Failures since the last success over this path */
+    failures: number;
+}
+
+export interface PathManagerOptions {
+    /** Number of paths kept in the pool */
+    poolSize?: number;
+    /** Consecutive failures before a node is dropped */
+    maxNodeFailures?: number;
+    /** Consecutive failures before a path is rebuilt */
+    maxPathFailures?: number;
+}
+
+export interface NodeHealth {
+    /** Ed25519 public key identifying the node */
+    ed25519_pubkey: string;
+    /** IP address of the node */
+    ip: string;
+    /** Port number of the node */
+    port: number;
+    /** Successful requests through this node */
+    successes: number;
+    /** Failed requests attributed to this node */
+    failures: number;
+    /** Failures since the last success */
+    consecutiveFailures: number;
+    /** Latency of the last successful request, in ms */
+    lastLatencyMs: number | null;
+    /** Average latency of successful requests, in ms */
+    averageLatencyMs: number | null;
+    /** Sum of successful request latencies, in ms */
+    totalLatencyMs: number;
+    /** Whether the node is excluded from new paths */
+    dropped: boolean;
+}
@@ -0,0 +1,150 @@
+import { bencode, bdecode } from "./bencode";
+import { OnionDecodeError } from "./onion-errors";
+
+/**
+ * v4 onion request framing
+ * Request:  l<json {"method","endpoint","headers"}>[<body>]e
+ * Response: l<json {"code","headers"}>[<body>]e
+ * The metadata JSON and the body are bencoded byte strings, so bodies can
+ * be any binary content rather than JSON only
+ */
+
+/** Destination path v4 onion requests are sent to */
+export const ONION_V4_TARGET = "/oxen/v4/lsrpc";
+
+export function encodeV4Request(request: OnionV4Request): Buffer {
+    const meta = JSON.stringify({
+        method: request.method.toUpperCase(),
+        endpoint: request.endpoint,
+        headers: request.headers || {},
+    });
+    return bencode(
+        request.body !== undefined
+            ? [meta, toBodyBuffer(request.body)]
+            : [meta]
+    );
+}
+
+export function decodeV4Request(data: Buffer): ParsedV4Request {
+    const { meta, body } = decodeV4Parts(data, "request");
+
+    if (typeof meta.method !== "string" || !meta.method) {
+        throw new OnionDecodeError("v4 request metadata is missing method");
+    }
+    if (typeof meta.endpoint !== "string" || !meta.endpoint.startsWith("/")) {
+        throw new OnionDecodeError(
+            "v4 request metadata must have an endpoint starting with /"
+        );
+    }
+
+    return {
+        method: meta.method.toUpperCase(),
+        endpoint: meta.endpoint,
+        headers: lowercaseHeaders(meta.headers),
+        body,
+    };
+}
+
+export function encodeV4Response(response: OnionV4Response): Buffer {
+    const meta = JSON.stringify({
+        code: response.status,
+        headers: response.headers,
+    });
+    return bencode(
+        response.body !== undefined ? [meta, response.body] : [meta]
+    );
+}
+
+export function decodeV4Response(data: Buffer): OnionV4Response {
+    const { meta, body } = decodeV4Parts(data, "response");
+
+    if (typeof meta.code !== "number") {
+        throw new OnionDecodeError("v4 response metadata is missing code");
+    }
+
+    return {
+        status: meta.code,
+        headers: lowercaseHeaders(meta.headers),
+        body,
+    };
+}
+
+// Split l<meta json>[<body>]e into parsed metadata and the optional body
+function decodeV4Parts(
+    data: Buffer,
+    kind: "request" | "response"
+): { meta: Record<string, any>; body?: Buffer } {
+    const parts = bdecode(data);
+    if (
+        !Array.isArray(parts) ||
+        parts.length < 1 ||
+        parts.length > 2 ||
+        !parts.every((part) => Buffer.isBuffer(part))
+    ) {
+        throw new OnionDecodeError(
+            `v4 ${kind} must be a bencoded list of metadata and optional body`
+        );
+    }
+
+    let meta: unknown;
+    try {
+        meta = JSON.parse((parts[0] as Buffer).toString("utf8"));
+    } catch (error: any) {
+        throw new OnionDecodeError(
+            `v4 ${kind} metadata is not valid JSON: ${error.message}`
+        );
+    }
+    if (!meta || typeof meta !== "object" || Array.isArray(meta)) {
+        throw new OnionDecodeError(`v4 ${kind} metadata must be a JSON object`);
+    }
+
+    return {
+        meta: meta as Record<string, any>,
+        body: parts[1] as Buffer | undefined,
+    };
+}
+
+function toBodyBuffer(body: Buffer | string | object): Buffer {
+    if (Buffer.isBuffer(body)) return body;
+    if (typeof body === "string") return Buffer.from(body);
+    return Buffer.from(JSON.stringify(body));
+}
+
+function lowercaseHeaders(headers: unknown): Record<string, string> {
+    if (!headers || typeof headers !== "object" || Array.isArray(headers)) {
+        return {};
+    }
+
+    const result: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers)) {
+        result[key.toLowerCase()] = String(value);
+    }
+    return result;
+}
+
+export interface OnionV4Request {
+    /** HTTP method, e.g. GET or POST */
+    method: string;
+    /** Path on the destination server, starting with / */
+    endpoint: string;
+    /** Request headers; lowercased when decoded */
+    headers?: Record<string, string>;
+    /** Request body; objects are sent as JSON */
+    body?: Buffer | string | object;
+}
+
+export interface ParsedV4Request extends OnionV4Request {
+    /** Request headers, with lowercased names */
+    headers: Record<string, string>;
+    /** Raw request body, if any */
+    body?: Buffer;
+}
+
+export interface OnionV4Response {
+    /** HTTP status code from the destination */
+    status: number;
+    /** Response headers, with lowercased names */
+    headers: Record<string, string>;
+    /** Raw response body, if any */
+    body?: Buffer;
+}
@@ -0,0 +1,177 @@
+import * as nacl from "tweetnacl";
+import { CryptoUtils } from "./crypto-util";
+
+/**
+ * Ed25519 request signing for LSRPC
+ * A signed request carries auth: { pubkey, timestamp, nonce, signature },
+ * where the signature covers the method, timestamp, nonce and canonical JSON
+ * of the params, so the server can tie each request to the identity key that
+ * sent it
+ */
+
+export function generateIdentityKeyPair(): IdentityKeyPair {
+    const keyPair = nacl.sign.keyPair();
+    return {
+        publicKey: Buffer.from(keyPair.publicKey),
+        secretKey: Buffer.from(keyPair.secretKey),
+    };
+}
+
+/**
+ * Identity from a hex 32-byte seed or 64-byte Ed25519 secret key
+ */
+export function identityFromSecretKey(secretKeyHex: string): IdentityKeyPair {
+    const bytes = CryptoUtils.fromHex(secretKeyHex);
+    let keyPair: nacl.SignKeyPair;
+    if (bytes.length === nacl.sign.seedLength) {
+        keyPair = nacl.sign.keyPair.fromSeed(bytes);
+    } else if (bytes.length === nacl.sign.secretKeyLength) {
+        keyPair = nacl.sign.keyPair.fromSecretKey(bytes);
+    } else {
+        throw new Error(
+            "Identity secret key must be a 32-byte seed or 64-byte secret key in hex"
+        );
+    }
+    return {
+        publicKey: Buffer.from(keyPair.publicKey),
+        secretKey: Buffer.from(keyPair.secretKey),
+    };
+}
+
+/**
+ * Add an auth block signed with identity to an LSRPC request
+ */
+export function signRequest<T extends SignableRequest>(
+    request: T,
+    identity: IdentityKeyPair,
+    timestamp: number = Date.now()
+): T & { auth: RequestAuth } {
+    // Two identical requests in the same ms still get distinct signatures
+    const nonce = CryptoUtils.toHex(Buffer.from(nacl.randomBytes(16)));
+    const signature = nacl.sign.detached(
+        signingMessage(request.method, request.params, timestamp, nonce),
+        identity.secretKey
+    );
+    return {
+        ...request,
+        auth: {
+            pubkey: CryptoUtils.toHex(identity.publicKey),
+            timestamp,
+            nonce,
+            signature: CryptoUtils.toHex(Buffer.from(signature)),
+        },
+    };
+}
+
+/**
+ * Check that auth.signature was made by auth.pubkey over this request
+ * Signatures with a non-canonical S (S >= L) are refused: tweetnacl
+ * accepts S + L as well, which would give one request two signatures
+ * Timestamp freshness and replays are left to the caller
+ */
+export function verifyRequestSignature(
+    request: SignableRequest,
+    auth: RequestAuth
+): boolean {
+    if (
+        !matches(auth.pubkey, HEX_PUBKEY_PATTERN) ||
+        !matches(auth.signature, HEX_SIGNATURE_PATTERN) ||
+        !matches(auth.nonce, HEX_NONCE_PATTERN) ||
+        !Number.isInteger(auth.timestamp) ||
+        !hasCanonicalScalar(auth.signature)
+    ) {
+        return false;
+    }
+
+    return nacl.sign.detached.verify(
+        signingMessage(
+            request.method,
+            request.params,
+            auth.timestamp,
+            auth.nonce
+        ),
+        CryptoUtils.fromHex(auth.signature),
+        CryptoUtils.fromHex(auth.pubkey)
+    );
+}
+
+/**
+ * JSON with object keys sorted, so both sides sign identical bytes no
+ * matter how the params were serialized in transit
+ */
+export function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map((item) => canonicalJson(item ?? null)).join(",")}]`;
+    }
+    if (value && typeof value === "object") {
+        const entries = Object.keys(value)
+            .filter((key) => (value as any)[key] !== undefined)
+            .sort()
+            .map(
+                (key) =>
+                    `${JSON.stringify(key)}:${canonicalJson((value as any)[key])}`
+            );
+        return `{${entries.join(",")}}`;
+    }
+    return JSON.stringify(value ?? null);
+}
+
+function signingMessage(
+    method: string,
+    params: unknown,
+    timestamp: number,
+    nonce: string
+): Buffer {
+    return Buffer.from(
+        [
+            SIGNATURE_DOMAIN,
+            method,
+            timestamp,
+            nonce.toLowerCase(),
+            canonicalJson(params ?? {}),
+        ].join("\n")
+    );
+}
+
+// S is the second half of the signature, a little-endian scalar below L
+function hasCanonicalScalar(signature: string): boolean {
+    const s = CryptoUtils.fromHex(signature).subarray(32).reverse();
+    return BigInt(`0x${s.toString("hex")}`) < ED25519_ORDER;
+}
+
+function matches(value: unknown, pattern: RegExp): value is string {
+    return typeof value === "string" && pattern.test(value);
+}
+
+// Keeps LSRPC signatures from being valid for any other protocol
+const SIGNATURE_DOMAIN = "lsrpc-request-v1";
+const HEX_PUBKEY_PATTERN = /^[0-9a-f]{64}$/i;
+const HEX_SIGNATURE_PATTERN = /^[0-9a-f]{128}$/i;
+const HEX_NONCE_PATTERN = /^[0-9a-f]{16,64}$/i;
+// Order L of the Ed25519 base point, 2^252 + 27742317777372353535851937790883648493
+const ED25519_ORDER = BigInt(
+    "0x1000000000000000000000000000000014def9dea2f79cd65812631a5cf5d3ed"
+);
+
+export interface IdentityKeyPair {
+    /** Ed25519 public key (32 bytes) */
+    publicKey: Buffer;
+    /** Ed25519 secret key (64 bytes) */
+    secretKey: Buffer;
+}
+
+export interface SignableRequest {
+    method: string;
+    params?: unknown;
+}
+
+export interface RequestAuth {
+    /** Ed25519 public key of the sender, hex */
+    pubkey: string;
+    /** When the request was signed, in ms since the epoch */
+    timestamp: number;
+    /** Random hex string that makes each signature unique */
+    nonce: string;
+    /** Ed25519 signature over method, timestamp, nonce and params, hex */
+    signature: string;
+}
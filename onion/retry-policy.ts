@@ -0,0 +1,105 @@
+import { RetryError } from "./onion-errors";
+
+/**
+ * Retry with exponential backoff, jitter and an overall deadline
+ * Shared by seed node fetches and onion request sending
+ */
+export async function withRetry<T>(
+    operation: (attempt: number) => Promise<T>,
+    policy: RetryPolicy,
+    hooks: RetryHooks = {}
+): Promise<T> {
+    const startTime = Date.now();
+    const attempts: RetryAttempt[] = [];
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+        try {
+            return await operation(attempt);
+        } catch (error: unknown) {
+            lastError = error;
+            const message =
+                error instanceof Error ? error.message : String(error);
+            attempts.push({
+                attempt,
+                node: hooks.describeTarget?.(attempt, error),
+                error: message,
+            });
+
+            if (hooks.shouldRetry && !hooks.shouldRetry(error)) {
+                throw new RetryError(hooks.operation, attempts, error);
+            }
+            if (attempt === policy.maxAttempts) {
+                break;
+            }
+
+            const delay = getRetryDelay(attempt, policy);
+            if (Date.now() - startTime + delay > policy.deadlineMs) {
+                break;
+            }
+
+            hooks.onRetry?.(attempt, delay, error);
+            await sleep(delay);
+        }
+    }
+
+    throw new RetryError(hooks.operation, attempts, lastError);
+}
+
+/**
+ * Backoff before the attempt after `attempt`: base * 2^(attempt-1), capped,
+ * then spread by +/- jitter so clients do not retry in lockstep
+ */
+export function getRetryDelay(attempt: number, policy: RetryPolicy): number {
+    const exponential = Math.min(
+        policy.maxDelayMs,
+        policy.baseDelayMs * Math.pow(2, attempt - 1)
+    );
+    const spread = exponential * policy.jitter * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(exponential + spread));
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 5,
+    baseDelayMs: 500,
+    maxDelayMs: 10000,
+    jitter: 0.2,
+    deadlineMs: 60000,
+};
+
+export interface RetryPolicy {
+    /** Maximum number of attempts, including the first */
+    maxAttempts: number;
+    /** Delay before the first retry, in ms */
+    baseDelayMs: number;
+    /** Upper bound for a single backoff delay, in ms */
+    maxDelayMs: number;
+    /** Random spread applied to each delay, as a fraction (0-1) */
+    jitter: number;
+    /** Overall time budget across all attempts, in ms */
+    deadlineMs: number;
+}
+
+export interface RetryAttempt {
+    /** Attempt number, starting at 1 */
+    attempt: number;
+    /** Node or URL the attempt was sent to */
+    node?: string;
+    /** Error message of the failed attempt */
+    error: string;
+}
+
+interface RetryHooks {
+    /** What is being attempted, e.g. "send onion request", for error messages */
+    operation?: string;
+    /** Return false to stop retrying for this error */
+    shouldRetry?: (error: unknown) => boolean;
+    /** Describe the node or URL used by an attempt, for error reporting */
+    describeTarget?: (attempt: number, error: unknown) => string | undefined;
+    /** Called before sleeping ahead of the next attempt */
+    onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
@@ -0,0 +1,119 @@
+import * as nacl from "tweetnacl";
+import { CryptoUtils } from "./crypto-util";
+import { IdentityKeyPair, canonicalJson } from "./request-signing";
+
+/**
+ * Signed key publication for LSRPC servers (GET /oxen/keys)
+ * The server's Ed25519 identity signs its current X25519 key and the
+ * retired ones it still accepts, so a client that knows the identity key
+ * can pick up a rotated X25519 key without trusting the transport
+ */
+
+/** Endpoint serving the signed keys, over HTTP and v4 onion requests */
+export const SERVER_KEYS_ENDPOINT = "/oxen/keys";
+
+export interface RetiredX25519Key {
+    /** X25519 public key, hex */
+    pubkey: string;
+    /** When the server stops accepting requests encrypted to it, in ms */
+    expires_at: number;
+}
+
+export interface PublishedServerKeys {
+    /** Ed25519 identity key that signed the document, hex */
+    ed25519_pubkey: string;
+    /** X25519 key clients should encrypt to, hex */
+    x25519_pubkey: string;
+    /** Rotated keys still accepted during their grace period */
+    previous_x25519: RetiredX25519Key[];
+    /** When the document was signed, in ms since the epoch */
+    timestamp: number;
+    /** Ed25519 signature over the other fields, hex */
+    signature: string;
+}
+
+export function signServerKeys(
+    keys: Omit<PublishedServerKeys, "ed25519_pubkey" | "signature">,
+    identity: IdentityKeyPair
+): PublishedServerKeys {
+    const unsigned = {
+        ...keys,
+        ed25519_pubkey: CryptoUtils.toHex(identity.publicKey),
+    };
+    const signature = nacl.sign.detached(
+        signingMessage(unsigned),
+        identity.secretKey
+    );
+    return {
+        ...unsigned,
+        signature: CryptoUtils.toHex(Buffer.from(signature)),
+    };
+}
+
+export interface VerifyServerKeysOptions {
+    /** How often the server rotates its X25519 key in ms, 0 if it never does */
+    rotationIntervalMs?: number;
+    /** Accepted clock difference with the server in ms, default 5 minutes */
+    maxSkewMs?: number;
+    /** Current time in ms, default Date.now() */
+    now?: number;
+}
+
+/**
+ * Check that document is well formed, signed by ed25519Pubkey (hex) and
+ * fresh: a document older than the rotation interval plus the clock skew
+ * may still list a key the server has since rotated out
+ */
+export function verifyServerKeys(
+    document: unknown,
+    ed25519Pubkey: string,
+    options: VerifyServerKeysOptions = {}
+): document is PublishedServerKeys {
+    const rotationIntervalMs = options.rotationIntervalMs ?? 0;
+    const maxSkewMs = options.maxSkewMs ?? DEFAULT_MAX_SKEW_MS;
+    const now = options.now ?? Date.now();
+    if (!document || typeof document !== "object") {
+        return false;
+    }
+    const { signature, ...unsigned } = document as PublishedServerKeys;
+    if (
+        !matches(unsigned.ed25519_pubkey, HEX_KEY_PATTERN) ||
+        !matches(unsigned.x25519_pubkey, HEX_KEY_PATTERN) ||
+        !matches(signature, HEX_SIGNATURE_PATTERN) ||
+        !Number.isFinite(unsigned.timestamp) ||
+        !Array.isArray(unsigned.previous_x25519) ||
+        !unsigned.previous_x25519.every(
+            (key) =>
+                matches(key?.pubkey, HEX_KEY_PATTERN) &&
+                Number.isFinite(key.expires_at)
+        ) ||
+        unsigned.ed25519_pubkey.toLowerCase() !==
+            ed25519Pubkey.toLowerCase() ||
+        unsigned.timestamp < now - rotationIntervalMs - maxSkewMs ||
+        unsigned.timestamp > now + maxSkewMs
+    ) {
+        return false;
+    }
+
+    return nacl.sign.detached.verify(
+        signingMessage(unsigned),
+        CryptoUtils.fromHex(signature),
+        CryptoUtils.fromHex(unsigned.ed25519_pubkey)
+    );
+}
+
+function signingMessage(
+    unsigned: Omit<PublishedServerKeys, "signature">
+): Buffer {
+    return Buffer.from(`${SIGNATURE_DOMAIN}\n${canonicalJson(unsigned)}`);
+}
+
+function matches(value: unknown, pattern: RegExp): value is string {
+    return typeof value === "string" && pattern.test(value);
+}
+
+// Keeps key documents from being valid as any other signed message
+const SIGNATURE_DOMAIN = "lsrpc-server-keys-v1";
+const DEFAULT_MAX_SKEW_MS = 5 * 60 * 1000;
+const HEX_KEY_PATTERN = /^[0-9a-f]{64}$/i;
+const HEX_SIGNATURE_PATTERN = /^[0-9a-f]{128}$/i;
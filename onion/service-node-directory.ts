@@ -0,0 +1,254 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { isIPv4 } from "net";
+import type { ServiceNode } from "./onion-builder";
+import { OnionError } from "./onion-errors";
+
+/**
+ * Directory of known service nodes
+ * Validates node records, indexes them by swarm id, persists the list to a
+ * JSON file so the client can start without seed nodes, and can refresh
+ * itself on an interval
+ */
+export class ServiceNodeDirectory {
+    private nodes: ServiceNode[] = [];
+    private swarms: Map<string, ServiceNode[]> = new Map();
+    private updatedAt: Date | null = null;
+    private filePath?: string;
+    private refreshIntervalMs: number;
+    private minNodes: number;
+    private refreshTimer?: NodeJS.Timeout;
+
+    constructor(options: ServiceNodeDirectoryOptions = {}) {
+        this.filePath = options.filePath;
+        this.refreshIntervalMs = options.refreshIntervalMs ?? 60 * 60 * 1000;
+        this.minNodes = options.minNodes ?? DEFAULT_MIN_NODES;
+    }
+
+    /**
+     * Replace the node list, dropping records that fail validation
+     * Returns the nodes that were rejected
+     * getUpdatedAt is left alone: only refresh and load know how fresh a
+     * list is
+     */
+    public setNodes(nodes: ServiceNode[]): ServiceNode[] {
+        const { valid, rejected } = partitionNodes(nodes);
+
+        this.nodes = valid;
+        this.swarms = new Map();
+        for (const node of valid) {
+            const swarmId = String(node.swarm_id);
+            const swarm = this.swarms.get(swarmId) || [];
+            swarm.push(node);
+            this.swarms.set(swarmId, swarm);
+        }
+
+        return rejected;
+    }
+
+    public getNodes(): ServiceNode[] {
+        return this.nodes;
+    }
+
+    /**
+     * Nodes that belong to the given swarm
+     */
+    public getSwarm(swarmId: number | string): ServiceNode[] {
+        return this.swarms.get(String(swarmId)) || [];
+    }
+
+    public getSwarmIds(): string[] {
+        return Array.from(this.swarms.keys());
+    }
+
+    /**
+     * Fewest valid nodes a refreshed list may have
+     */
+    public getMinNodes(): number {
+        return this.minNodes;
+    }
+
+    /**
+     * When the node list was last fetched, or null until a refresh or load
+     */
+    public getUpdatedAt(): Date | null {
+        return this.updatedAt;
+    }
+
+    /**
+     * Load the node list from the configured JSON file
+     * Its age comes from the file's updatedAt, else the file's modified time
+     * Returns false when no file is configured or it does not exist yet
+     */
+    public async load(): Promise<boolean> {
+        if (!this.filePath) return false;
+
+        let contents: string;
+        try {
+            contents = await fs.readFile(this.filePath, "utf8");
+        } catch (error: any) {
+            if (error.code === "ENOENT") return false;
+            throw error;
+        }
+
+        const parsed: ServiceNodeFile | ServiceNode[] = JSON.parse(contents);
+        const nodes = Array.isArray(parsed) ? parsed : parsed.nodes || [];
+        this.setNodes(nodes);
+        this.updatedAt =
+            !Array.isArray(parsed) && parsed.updatedAt
+                ? new Date(parsed.updatedAt)
+                : (await fs.stat(this.filePath)).mtime;
+        return true;
+    }
+
+    /**
+     * Save the node list to the configured JSON file
+     */
+    public async save(): Promise<void> {
+        if (!this.filePath) return;
+
+        const file: ServiceNodeFile = {
+            updatedAt: this.updatedAt?.toISOString(),
+            nodes: this.nodes,
+        };
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        // Write then rename so a crash never leaves a half-written file
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(file, null, 2));
+        await fs.rename(tempPath, this.filePath);
+    }
+
+    /**
+     * Fetch a new node list, replace the current one and save it
+     * A list with fewer than minNodes valid nodes is refused: the current
+     * list and the file are left as they were
+     */
+    public async refresh(fetchNodes: NodeFetcher): Promise<ServiceNode[]> {
+        const nodes = await fetchNodes();
+        const { valid } = partitionNodes(nodes);
+        if (valid.length < this.minNodes) {
+            throw new OnionError(
+                "INVALID_SNODE_LIST",
+                `Refusing a node list with ${valid.length} valid nodes, at least ${this.minNodes} are required`
+            );
+        }
+        this.setNodes(valid);
+        this.updatedAt = new Date();
+        await this.save();
+        return this.nodes;
+    }
+
+    /**
+     * Refresh every refreshIntervalMs until stopAutoRefresh is called
+     * Failed refreshes keep the current list and are reported to onError
+     */
+    public startAutoRefresh(
+        fetchNodes: NodeFetcher,
+        onError: (error: unknown) => void = () => {}
+    ): void {
+        this.stopAutoRefresh();
+        this.refreshTimer = setInterval(() => {
+            this.refresh(fetchNodes).catch(onError);
+        }, this.refreshIntervalMs);
+        // Do not keep the process alive just to refresh nodes
+        this.refreshTimer.unref();
+    }
+
+    public stopAutoRefresh(): void {
+        if (this.refreshTimer) {
+            clearInterval(this.refreshTimer);
+            this.refreshTimer = undefined;
+        }
+    }
+}
+
+/**
+ * Check a service node record, returning a list of problems (empty if valid)
+ */
+export function validateServiceNode(node: ServiceNode): string[] {
+    const errors: string[] = [];
+    if (!node || typeof node !== "object") {
+        return ["node must be an object"];
+    }
+    if (!HEX_KEY_PATTERN.test(node.pubkey_ed25519 || "")) {
+        errors.push("pubkey_ed25519 must be 64 hex characters");
+    }
+    if (!HEX_KEY_PATTERN.test(node.pubkey_x25519 || "")) {
+        errors.push("pubkey_x25519 must be 64 hex characters");
+    }
+    if (!isIPv4(node.public_ip || "") || node.public_ip === "0.0.0.0") {
+        errors.push("public_ip must be an IPv4 address");
+    }
+    if (!isPort(node.storage_port) || node.storage_port === 0) {
+        errors.push("storage_port must be between 1 and 65535");
+    }
+    if (!isPort(node.storage_lmq_port)) {
+        errors.push("storage_lmq_port must be between 0 and 65535");
+    }
+    if (typeof node.swarm_id !== "number" || node.swarm_id < 0) {
+        errors.push("swarm_id must be a non-negative number");
+    }
+    return errors;
+}
+
+// Helper function to split nodes into valid, unique records and the rest
+function partitionNodes(nodes: ServiceNode[]): {
+    valid: ServiceNode[];
+    rejected: ServiceNode[];
+} {
+    const valid: ServiceNode[] = [];
+    const rejected: ServiceNode[] = [];
+    const seen = new Set<string>();
+
+    for (const node of nodes) {
+        if (
+            validateServiceNode(node).length > 0 ||
+            seen.has(node.pubkey_ed25519)
+        ) {
+            rejected.push(node);
+            continue;
+        }
+        seen.add(node.pubkey_ed25519);
+        valid.push(node);
+    }
+
+    return { valid, rejected };
+}
+
+/**
+ * /24 subnet of an IPv4 address, e.g. "10.1.2"
+ */
+export function getSubnet24(ip: string): string {
+    return ip.split(".").slice(0, 3).join(".");
+}
+
+function isPort(port: unknown): boolean {
+    return (
+        typeof port === "number" &&
+        Number.isInteger(port) &&
+        port >= 0 &&
+        port <= 65535
+    );
+}
+
+const HEX_KEY_PATTERN = /^[0-9a-f]{64}$/i;
+
+const DEFAULT_MIN_NODES = 5;
+
+type NodeFetcher = () => Promise<ServiceNode[]>;
+
+export interface ServiceNodeDirectoryOptions {
+    /** JSON file the node list is loaded from and saved to */
+    filePath?: string;
+    /** Interval between automatic refreshes, in ms (default 1 hour) */
+    refreshIntervalMs?: number;
+    /** Fewest valid nodes a refreshed list may have (default 5) */
+    minNodes?: number;
+}
+
+interface ServiceNodeFile {
+    /** When the list was fetched; left out when that is unknown */
+    updatedAt?: string;
+    /** Service node records */
+    nodes: ServiceNode[];
+}
@@ -0,0 +1,333 @@
+import {
+    LsrpcForbiddenError,
+    LsrpcNotFoundError,
+    LsrpcRateLimitError,
+} from "../onion/onion-errors";
+import {
+    MessagePosition,
+    MessageStore,
+    StoredMessage,
+    isVisibleTo,
+} from "../storage/message-store";
+import { defineMethod, RequestOf } from "./method-registry";
+import { paramsError, schema } from "./schema";
+
+/**
+ * LSRPC message methods: send, get, list, delete and ack
+ */
+
+// Message time-to-live limit, in ms
+export const MAX_MESSAGE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Page size limits for list_messages
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 100;
+// send_message params size limit, in bytes, and how many live messages
+// one recipient key and the whole server may hold
+export const DEFAULT_MAX_MESSAGE_BYTES = 64 * 1024;
+export const DEFAULT_MAX_MESSAGES_PER_RECIPIENT = 1000;
+export const DEFAULT_MAX_STORED_MESSAGES = 100000;
+
+const DELIVERY_ORDER: DeliveryStatus[] = ["pending", "delivered", "read"];
+
+const messageId = schema.string();
+const hexKey = schema.string({
+    pattern: /^[0-9a-f]{64}$/i,
+    problem: "must be a 32-byte hex public key",
+});
+// Lowercased before use, so stored keys compare with verified caller keys
+const mailbox = schema.string({
+    pattern: /^[0-9a-f]{64}$/i,
+    problem: "must be a 32-byte hex public key",
+});
+// list_messages position: "<createdAt>:<msgId>" of the last message seen
+const cursor = schema.string({
+    pattern: /^\d+:\S+$/,
+    problem: "must be a nextCursor from list_messages",
+});
+const base64 = schema.string({
+    pattern: /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/,
+    problem: "must be a non-empty base64 string",
+});
+
+export function createMessageMethods(options: MessageMethodsOptions) {
+    const { store, defaultTtlMs } = options;
+    const maxMessagesPerRecipient =
+        options.maxMessagesPerRecipient ?? DEFAULT_MAX_MESSAGES_PER_RECIPIENT;
+    const maxStoredMessages =
+        options.maxStoredMessages ?? DEFAULT_MAX_STORED_MESSAGES;
+    let lastMessageId = 0;
+    let seeding: Promise<void> | undefined;
+
+    // Generate increasing, unique timestamp-based message ids
+    // The first call starts after the highest id in the store, so ids from
+    // a persistent store are not handed out again after a restart
+    async function nextMessageId(now: number): Promise<string> {
+        seeding ??= seedMessageId();
+        await seeding;
+        lastMessageId = Math.max(now, lastMessageId + 1);
+        return lastMessageId.toString();
+    }
+
+    async function seedMessageId(): Promise<void> {
+        const stored = await store.list({ limit: Number.MAX_SAFE_INTEGER });
+        for (const message of stored) {
+            const id = Number(message.msgId);
+            if (Number.isSafeInteger(id)) {
+                lastMessageId = Math.max(lastMessageId, id);
+            }
+        }
+    }
+
+    // Fetch a live message the caller may read, or throw a not-found error
+    // (so other users' message ids are not revealed)
+    async function getStoredMessage(
+        msgId: string,
+        caller: string | null
+    ): Promise<MessageRecord> {
+        const message = await store.get(msgId);
+        if (!message || !isVisibleTo(message, caller)) {
+            throw messageNotFound(msgId);
+        }
+        return message as MessageRecord;
+    }
+
+    return {
+        get_message: defineMethod({
+            params: { msgId: messageId },
+            handle: async ({ msgId }, { caller }: LsrpcContext) =>
+                getStoredMessage(msgId, caller),
+        }),
+
+        send_message: defineMethod({
+            maxParamsBytes:
+                options.maxMessageBytes ?? DEFAULT_MAX_MESSAGE_BYTES,
+            params: {
+                ciphertext: base64,
+                encType: schema.oneOf("aes-gcm", "xchacha20"),
+                senderKey: hexKey,
+                recipientKey: hexKey,
+                recipient: schema.optional(mailbox),
+                conversationId: schema.optional(schema.string()),
+                ttl: schema.optional(schema.integer(1, MAX_MESSAGE_TTL_MS)),
+            },
+            handle: async (params, { caller }: LsrpcContext) => {
+                const recipientKey = params.recipientKey.toLowerCase();
+                const held = await store.sizeForRecipientKey(recipientKey);
+                if (held >= maxMessagesPerRecipient) {
+                    throw new LsrpcRateLimitError(
+                        "MAILBOX_FULL",
+                        "Recipient has too many stored messages",
+                        { recipientKey, maxMessages: maxMessagesPerRecipient }
+                    );
+                }
+                // Recipient keys are the sender's choice, so the total is
+                // capped as well
+                if ((await store.size()) >= maxStoredMessages) {
+                    throw new LsrpcRateLimitError(
+                        "STORAGE_FULL",
+                        "Server is storing too many messages",
+                        { maxMessages: maxStoredMessages }
+                    );
+                }
+
+                const now = Date.now();
+                // Content arrives encrypted by the sender; only the
+                // recipient's and sender's keys can decrypt it
+                const data: MessageRecord = {
+                    msgId: await nextMessageId(now),
+                    ciphertext: params.ciphertext,
+                    encType: params.encType,
+                    senderKey: params.senderKey.toLowerCase(),
+                    recipientKey,
+                    conversationId: params.conversationId,
+                    recipient: params.recipient?.toLowerCase(),
+                    sender: caller,
+                    status: "sent",
+                    timestamp: new Date(now).toISOString(),
+                    createdAt: now,
+                    expiresAt: now + (params.ttl ?? defaultTtlMs),
+                    deliveryStatus: "pending",
+                    encrypted: true,
+                };
+                await store.put(data);
+                return data;
+            },
+        }),
+
+        list_messages: defineMethod({
+            params: {
+                conversationId: schema.optional(schema.string()),
+                recipient: schema.optional(mailbox),
+                since: schema.optional(
+                    schema.integer(0, Number.MAX_SAFE_INTEGER)
+                ),
+                cursor: schema.optional(cursor),
+                limit: schema.optional(schema.integer(1, MAX_LIST_LIMIT)),
+            },
+            check: (params) => {
+                if (
+                    params.conversationId === undefined &&
+                    params.recipient === undefined
+                ) {
+                    throw paramsError([
+                        {
+                            field: "params.conversationId",
+                            message:
+                                "params.conversationId or params.recipient is required",
+                        },
+                    ]);
+                }
+            },
+            handle: async (
+                params,
+                { caller }: LsrpcContext
+            ): Promise<MessagePage> => {
+                const { conversationId, since } = params;
+                const limit = params.limit ?? DEFAULT_LIST_LIMIT;
+                // Fetch one extra message to tell whether another page exists
+                const page = await store.list({
+                    conversationId,
+                    recipient: params.recipient?.toLowerCase(),
+                    since,
+                    after: params.cursor
+                        ? parseCursor(params.cursor)
+                        : undefined,
+                    visibleTo: caller,
+                    limit: limit + 1,
+                });
+                const messages = page.slice(0, limit) as MessageRecord[];
+                const last = messages[messages.length - 1];
+                return {
+                    messages,
+                    hasMore: page.length > limit,
+                    nextCursor: last
+                        ? `${last.createdAt}:${last.msgId}`
+                        : params.cursor ?? null,
+                };
+            },
+        }),
+
+        delete_message: defineMethod({
+            params: { msgId: messageId },
+            handle: async ({ msgId }, { caller }: LsrpcContext) => {
+                const message = await getStoredMessage(msgId, caller);
+                if (message.sender && message.sender !== caller) {
+                    throw new LsrpcForbiddenError(
+                        "Only the sender can delete this message",
+                        { msgId }
+                    );
+                }
+                if (!(await store.delete(msgId))) {
+                    throw messageNotFound(msgId);
+                }
+                return { msgId, deleted: true };
+            },
+        }),
+
+        ack_message: defineMethod({
+            params: {
+                msgId: messageId,
+                status: schema.oneOf("delivered", "read"),
+            },
+            handle: async ({ msgId, status }, { caller }: LsrpcContext) => {
+                const message = await getStoredMessage(msgId, caller);
+                if (
+                    message.sender &&
+                    message.recipient &&
+                    message.recipient !== caller
+                ) {
+                    throw new LsrpcForbiddenError(
+                        "Only the recipient can acknowledge this message",
+                        { msgId }
+                    );
+                }
+                // Delivery only moves forward: pending -> delivered -> read
+                const current = message.deliveryStatus as DeliveryStatus;
+                if (
+                    DELIVERY_ORDER.indexOf(status) <=
+                    DELIVERY_ORDER.indexOf(current)
+                ) {
+                    return message;
+                }
+                const data: MessageRecord = {
+                    ...message,
+                    deliveryStatus: status,
+                    [`${status}At`]: new Date().toISOString(),
+                };
+                await store.put(data);
+                return data;
+            },
+        }),
+    };
+}
+
+function parseCursor(value: string): MessagePosition {
+    const separator = value.indexOf(":");
+    return {
+        createdAt: Number(value.slice(0, separator)),
+        msgId: value.slice(separator + 1),
+    };
+}
+
+function messageNotFound(msgId: string): LsrpcNotFoundError {
+    return new LsrpcNotFoundError(`Message ${msgId} not found`, { msgId });
+}
+
+export type MessageMethods = ReturnType<typeof createMessageMethods>;
+
+/** LSRPC request bodies, one variant per method */
+export type LsrpcRequest = RequestOf<MessageMethods>;
+
+export type DeliveryStatus = "pending" | "delivered" | "read";
+
+/**
+ * Message as stored and returned by the message methods
+ */
+export interface MessageRecord extends StoredMessage {
+    /** Encrypted message content, base64 */
+    ciphertext: string;
+    /** Cipher used for ciphertext */
+    encType: "aes-gcm" | "xchacha20";
+    /** Sender's X25519 public key, hex */
+    senderKey: string;
+    /** Recipient's X25519 public key, hex */
+    recipientKey: string;
+    /** Verified Ed25519 key (hex) of the sender, null if sent unsigned */
+    sender: string | null;
+    status: "sent";
+    /** When the message was sent, ISO 8601 */
+    timestamp: string;
+    deliveryStatus: DeliveryStatus;
+    /** When the recipient acknowledged delivery, ISO 8601 */
+    deliveredAt?: string;
+    /** When the recipient acknowledged reading, ISO 8601 */
+    readAt?: string;
+    encrypted: true;
+}
+
+export interface MessagePage {
+    /** Messages oldest first */
+    messages: MessageRecord[];
+    /** Whether more messages follow this page */
+    hasMore: boolean;
+    /** Pass as cursor to fetch the next page */
+    nextCursor: string | null;
+}
+
+export interface LsrpcContext {
+    /** Verified sender key of the request, or null when unsigned */
+    caller: string | null;
+}
+
+export interface MessageMethodsOptions {
+    /** Where messages are kept */
+    store: MessageStore;
+    /** Time-to-live for messages sent without a ttl, in ms */
+    defaultTtlMs: number;
+    /** send_message params size limit, in bytes */
+    maxMessageBytes?: number;
+    /** Live messages one recipient key may hold */
+    maxMessagesPerRecipient?: number;
+    /** Live messages the whole store may hold */
+    maxStoredMessages?: number;
+}
@@ -0,0 +1,176 @@
+import {
+    LsrpcError,
+    LsrpcParseError,
+    LsrpcPayloadTooLargeError,
+    LsrpcValidationError,
+} from "../onion/onion-errors";
+import { Infer, ParamsSchema, parseParams } from "./schema";
+
+/**
+ * LSRPC method registry
+ * Each method declares its params schema and handler; requests are
+ * validated against the schema before the handler runs, and the request
+ * and result types are derived from the registered methods
+ */
+
+// Params size limit, as JSON bytes, for methods that do not set their own
+export const DEFAULT_MAX_PARAMS_BYTES = 4 * 1024;
+
+export interface LsrpcMethod<P extends ParamsSchema, R, C> {
+    /** Schema the request params must match */
+    params: P;
+    /** Largest params accepted, as JSON bytes (default: the registry's) */
+    maxParamsBytes?: number;
+    /** Checks spanning several fields, run after the schema */
+    check?(params: Infer<P>): void;
+    /** Run the method, resolving to the reply's data */
+    handle(params: Infer<P>, context: C): Promise<R>;
+}
+
+export type MethodMap<C> = Record<string, LsrpcMethod<any, unknown, C>>;
+
+/** Request body accepted by a set of methods */
+export type RequestOf<M extends MethodMap<any>> = {
+    [K in keyof M & string]: {
+        method: K;
+        params: Infer<M[K]["params"]>;
+    };
+}[keyof M & string];
+
+/** Reply data of one method */
+export type ResultOf<M extends MethodMap<any>, K extends keyof M> = Awaited<
+    ReturnType<M[K]["handle"]>
+>;
+
+/**
+ * Declare a method, inferring its params and result types
+ */
+export function defineMethod<P extends ParamsSchema, R, C>(
+    method: LsrpcMethod<P, R, C>
+): LsrpcMethod<P, R, C> {
+    return method;
+}
+
+export class MethodRegistry<C, M extends MethodMap<C>> {
+    private methods: M;
+    private maxParamsBytes: number;
+
+    constructor(methods: M, options: MethodRegistryOptions = {}) {
+        this.methods = methods;
+        this.maxParamsBytes =
+            options.maxParamsBytes ?? DEFAULT_MAX_PARAMS_BYTES;
+    }
+
+    public names(): (keyof M & string)[] {
+        return Object.keys(this.methods);
+    }
+
+    /**
+     * Check method and params, throwing LsrpcParseError,
+     * LsrpcValidationError or LsrpcPayloadTooLargeError
+     */
+    public validate(body: unknown): RequestOf<M> {
+        if (!body || typeof body !== "object" || Array.isArray(body)) {
+            throw new LsrpcParseError("Request body must be a JSON object");
+        }
+
+        const { method, params = {} } = body as Record<string, any>;
+        if (
+            typeof method !== "string" ||
+            !Object.prototype.hasOwnProperty.call(this.methods, method)
+        ) {
+            throw new LsrpcValidationError(
+                "INVALID_METHOD",
+                `Invalid method. Must be one of: ${this.names().join(", ")}`,
+                { field: "method" }
+            );
+        }
+
+        if (!params || typeof params !== "object" || Array.isArray(params)) {
+            throw new LsrpcValidationError(
+                "INVALID_PARAMS",
+                "params must be an object",
+                { field: "params" }
+            );
+        }
+
+        const definition = this.methods[method];
+        const maxBytes = definition.maxParamsBytes ?? this.maxParamsBytes;
+        const size = Buffer.byteLength(JSON.stringify(params));
+        if (size > maxBytes) {
+            throw new LsrpcPayloadTooLargeError(
+                `params for ${method} must be at most ${maxBytes} bytes`,
+                { method, maxBytes, size }
+            );
+        }
+
+        const parsed = parseParams(params, definition.params);
+        definition.check?.(parsed);
+        return { method, params: parsed } as RequestOf<M>;
+    }
+
+    /**
+     * Run a validated request
+     */
+    public async dispatch(
+        request: RequestOf<M>,
+        context: C
+    ): Promise<ResultOf<M, keyof M>> {
+        const definition = this.methods[request.method];
+        return (await definition.handle(
+            request.params,
+            context
+        )) as ResultOf<M, keyof M>;
+    }
+}
+
+/**
+ * Run each request of a batch in order, turning failures into per-item
+ * error bodies so one bad request does not fail the rest
+ */
+export async function runBatch<T>(
+    requests: unknown[],
+    run: (body: unknown) => Promise<T>,
+    onUnexpectedError: (error: unknown) => void = () => {}
+): Promise<(T | BatchErrorItem)[]> {
+    const results: (T | BatchErrorItem)[] = [];
+    for (const body of requests) {
+        try {
+            results.push(await run(body));
+        } catch (error: unknown) {
+            if (error instanceof LsrpcError) {
+                results.push({
+                    success: false,
+                    status: error.status,
+                    ...error.toJSON(),
+                });
+            } else {
+                onUnexpectedError(error);
+                results.push({
+                    success: false,
+                    status: 500,
+                    error: "Internal server error",
+                    code: "INTERNAL_ERROR",
+                });
+            }
+        }
+    }
+    return results;
+}
+
+export interface MethodRegistryOptions {
+    /** Params size limit for methods without maxParamsBytes, in bytes */
+    maxParamsBytes?: number;
+}
+
+export interface BatchErrorItem {
+    success: false;
+    /** HTTP status the request would have failed with on its own */
+    status: number;
+    /** Human readable error message */
+    error: string;
+    /** Stable error code */
+    code: string;
+    /** Extra structured information, e.g. the offending field */
+    details?: Record<string, unknown>;
+}
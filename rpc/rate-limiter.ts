@@ -0,0 +1,97 @@
+/**
+ * Token bucket rate limiter
+ * Each key gets a bucket of `burst` tokens that refills at `perSecond`
+ * tokens a second; a request takes one token and is refused when the
+ * bucket is empty
+ */
+
+// How often buckets that have refilled completely are forgotten
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+export class RateLimiter {
+    private buckets: Map<string, Bucket> = new Map();
+    private options: RateLimitOptions;
+    private lastPrune = 0;
+
+    constructor(options: RateLimitOptions) {
+        if (!(options.perSecond > 0) || !(options.burst >= 1)) {
+            throw new Error(
+                "Rate limit needs perSecond > 0 and a burst of at least 1"
+            );
+        }
+        this.options = options;
+    }
+
+    /**
+     * Take cost tokens from key's bucket if it has them
+     * retryAfterMs says how long until the bucket holds cost tokens again
+     */
+    public take(
+        key: string,
+        cost: number = 1,
+        now: number = Date.now()
+    ): RateLimitResult {
+        this.prune(now);
+        const { burst } = this.options;
+        const bucket = this.buckets.get(key) ?? { tokens: burst, updatedAt: now };
+        bucket.tokens = this.refill(bucket, now);
+        bucket.updatedAt = now;
+        this.buckets.set(key, bucket);
+
+        if (bucket.tokens >= cost) {
+            bucket.tokens -= cost;
+            return { allowed: true, remaining: Math.floor(bucket.tokens) };
+        }
+        const missing = Math.min(cost, burst) - bucket.tokens;
+        return {
+            allowed: false,
+            remaining: Math.floor(bucket.tokens),
+            retryAfterMs: Math.ceil((missing / this.options.perSecond) * 1000),
+        };
+    }
+
+    public size(): number {
+        return this.buckets.size;
+    }
+
+    private refill(bucket: Bucket, now: number): number {
+        const elapsedMs = Math.max(0, now - bucket.updatedAt);
+        return Math.min(
+            this.options.burst,
+            bucket.tokens + (elapsedMs / 1000) * this.options.perSecond
+        );
+    }
+
+    // Forget full buckets; a new bucket starts full anyway
+    private prune(now: number): void {
+        if (now - this.lastPrune < PRUNE_INTERVAL_MS) {
+            return;
+        }
+        this.lastPrune = now;
+        for (const [key, bucket] of this.buckets) {
+            if (this.refill(bucket, now) >= this.options.burst) {
+                this.buckets.delete(key);
+            }
+        }
+    }
+}
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+export interface RateLimitOptions {
+    /** Tokens added back per second */
+    perSecond: number;
+    /** Bucket size: how many requests may arrive at once */
+    burst: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    /** Whole tokens left after this request */
+    remaining: number;
+    /** When refused, ms until the request would be allowed */
+    retryAfterMs?: number;
+}
@@ -0,0 +1,123 @@
+import { LsrpcValidationError } from "../onion/onion-errors";
+
+/**
+ * Minimal params schemas for LSRPC methods
+ * Each schema checks one field and reports a FieldError instead of
+ * throwing, so every invalid field of a request is reported at once; the
+ * TypeScript type of valid params is inferred from the schema
+ */
+
+export interface Schema<T> {
+    /** Whether the field may be left out */
+    optional: boolean;
+    /** Problem with value (e.g. "must be a string"), or null if valid */
+    check(value: unknown): string | null;
+    /** Only used for type inference */
+    readonly _type?: T;
+}
+
+export type ParamsSchema = Record<string, Schema<unknown>>;
+
+/** Params type described by a ParamsSchema */
+export type Infer<P extends ParamsSchema> = {
+    [K in keyof P as P[K]["optional"] extends true ? never : K]: SchemaType<
+        P[K]
+    >;
+} & {
+    [K in keyof P as P[K]["optional"] extends true ? K : never]?: SchemaType<
+        P[K]
+    >;
+};
+
+type SchemaType<S> = S extends Schema<infer T> ? T : never;
+
+export interface FieldError {
+    /** Offending field, e.g. params.msgId */
+    field: string;
+    /** What is wrong with it */
+    message: string;
+}
+
+export const schema = {
+    string(
+        options: { pattern?: RegExp; problem?: string } = {}
+    ): Schema<string> & { optional: false } {
+        const problem = options.problem || "must be a non-empty string";
+        return required((value) =>
+            typeof value === "string" &&
+            value.length > 0 &&
+            (!options.pattern || options.pattern.test(value))
+                ? null
+                : problem
+        );
+    },
+
+    integer(min: number, max: number): Schema<number> & { optional: false } {
+        return required((value) =>
+            Number.isInteger(value) &&
+            (value as number) >= min &&
+            (value as number) <= max
+                ? null
+                : `must be a whole number between ${min} and ${max}`
+        );
+    },
+
+    oneOf<T extends string>(
+        ...values: T[]
+    ): Schema<T> & { optional: false } {
+        return required((value) =>
+            values.includes(value as T)
+                ? null
+                : `must be ${values.map((v) => `"${v}"`).join(" or ")}`
+        );
+    },
+
+    optional<T>(inner: Schema<T>): Schema<T> & { optional: true } {
+        return { optional: true, check: inner.check };
+    },
+};
+
+/**
+ * Check params against a schema, throwing LsrpcValidationError listing
+ * every invalid field
+ */
+export function parseParams<P extends ParamsSchema>(
+    params: Record<string, unknown>,
+    paramsSchema: P
+): Infer<P> {
+    const errors: FieldError[] = [];
+    for (const [name, fieldSchema] of Object.entries(paramsSchema)) {
+        const value = params[name];
+        if (value === undefined && fieldSchema.optional) {
+            continue;
+        }
+        const problem = fieldSchema.check(value);
+        if (problem) {
+            errors.push({
+                field: `params.${name}`,
+                message: `params.${name} ${problem}`,
+            });
+        }
+    }
+
+    if (errors.length > 0) {
+        throw paramsError(errors);
+    }
+    return params as Infer<P>;
+}
+
+/**
+ * Validation error for invalid params; the first error is the message
+ */
+export function paramsError(errors: FieldError[]): LsrpcValidationError {
+    return new LsrpcValidationError("INVALID_PARAMS", errors[0].message, {
+        field: errors[0].field,
+        errors,
+    });
+}
+
+function required<T>(
+    check: (value: unknown) => string | null
+): Schema<T> & { optional: false } {
+    return { optional: false, check };
+}
@@ -1,228 +1,870 @@
-import express, { Request, Response } from "express";
-
-const app = express();
-const PORT = process.env.PORT || 3001;
-
-// Middleware
-app.use(express.json());
-app.use(express.raw({ type: "application/octet-stream", limit: "10mb" }));
-app.use(express.raw({ type: "text/*", limit: "10mb" }));
-app.use(express.raw({ type: "*/*", limit: "10mb" }));
-
-// Interface for request body
-interface LsrpcRequest {
-    method: "get_message" | "send_message";
-    params?: {
-        msgId?: string;
-        msg?: string;
-        conversationId?: string;
-        [key: string]: any;
-    };
+import express, { Express, NextFunction, Request, Response } from "express";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { HopEncryption, CryptoUtils } from "./onion/crypto-util";
+import {
+    OnionRequestDecoder,
+    DecodedOnionRequest,
+    DecodedOnionV4Request,
+} from "./onion/onion-decoder";
+import {
+    ONION_V4_TARGET,
+    encodeV4Response,
+    OnionV4Response,
+    ParsedV4Request,
+} from "./onion/onion-v4";
+import {
+    DecryptionError,
+    LsrpcError,
+    LsrpcParseError,
+    LsrpcNotFoundError,
+    LsrpcAuthError,
+    LsrpcPayloadTooLargeError,
+    LsrpcRateLimitError,
+} from "./onion/onion-errors";
+import { RequestAuth, verifyRequestSignature } from "./onion/request-signing";
+import { SERVER_KEYS_ENDPOINT, signServerKeys } from "./onion/server-keys";
+import { MetricsRegistry, PROMETHEUS_CONTENT_TYPE } from "./onion/metrics";
+import {
+    Logger,
+    REQUEST_ID_HEADER,
+    requestIdFrom,
+    runWithLogContext,
+} from "./onion/logger";
+import { MessageStore, MemoryMessageStore } from "./storage/message-store";
+import { JsonLogMessageStore } from "./storage/json-log-message-store";
+import { ReplayCache } from "./storage/replay-cache";
+import {
+    ServerKeyStore,
+    ServerX25519Key,
+} from "./storage/server-key-store";
+import { MethodRegistry, runBatch } from "./rpc/method-registry";
+import { createMessageMethods, LsrpcRequest } from "./rpc/message-methods";
+import { RateLimiter } from "./rpc/rate-limiter";
+import { ServerConfig, loadServerConfig } from "./config/server-config";
+
+// Most requests a single batch array may carry
+const MAX_BATCH_SIZE = 20;
+// How often expired messages are dropped
+const PURGE_INTERVAL_MS = 60 * 1000;
+
+export interface ServerApp {
+    app: Express;
+    logger: Logger;
+    /** Store the LSRPC methods read and write */
+    store: MessageStore;
+    /** Server identity and X25519 keys */
+    keys: ServerKeyStore;
+    /** Request and storage metrics served at GET /metrics */
+    metrics: MetricsRegistry;
+}
+
+export interface ServerHandle {
+    app: Express;
+    server: http.Server;
+    /** Port listened on; the assigned one when config.port is 0 */
+    port: number;
+    /** Server identity and X25519 keys */
+    keys: ServerKeyStore;
+    /** Stop accepting connections, drain requests and flush storage */
+    close(): Promise<void>;
+}
+
+// LSRPC request that passed validation and authentication
+interface AuthorizedCall {
+    request: LsrpcRequest;
+    /** Verified sender key, or null for an allowed unsigned request */
+    caller: string | null;
+    /** Client rate limit bucket, by sender key or IP */
+    clientKey: string;
+}
+
+// Batch item that is either ready to run or already failed
+interface BatchStep {
+    call?: AuthorizedCall;
+    error?: unknown;
 }
 
-const db: { [key: string]: any } = {};
+/**
+ * Build the LSRPC express app for config without listening
+ * Tests drive the app directly; createServer also listens and closes
+ */
+export async function createApp(config: ServerConfig): Promise<ServerApp> {
+    const app = express();
+    const logger = new Logger({ name: "server", ...config.log });
+    const { limits } = config;
+
+    // Server X25519 keys used to decrypt onion payloads and encrypt replies:
+    // the current one, and rotated ones still in their grace period
+    const keys = await openServerKeys(config, logger);
+    const onionDecoder = new OnionRequestDecoder(async () =>
+        (await keys.getActiveKeys()).map(toHopEncryption)
+    );
+
+    // Behind ngrok or another proxy, take the client IP from X-Forwarded-For
+    if (config.trustProxy !== undefined) {
+        app.set("trust proxy", config.trustProxy);
+    }
+
+    // Middleware; each method also limits its own params (maxParamsBytes)
+    app.use(express.json({ limit: limits.maxBodyBytes }));
+    app.use(
+        express.raw({
+            type: "application/octet-stream",
+            limit: limits.maxBodyBytes,
+        })
+    );
+    // Log everything a request does under one id: the client's x-request-id,
+    // or a new one (after the body parsers, which do not keep the context)
+    app.use((req: Request, res: Response, next: NextFunction) => {
+        const requestId = requestIdFrom(req.headers[REQUEST_ID_HEADER]);
+        res.setHeader(REQUEST_ID_HEADER, requestId);
+        runWithLogContext({ requestId }, next);
+    });
+
+    const messageStore = createMessageStore(config);
+    const lsrpcMethods = new MethodRegistry(
+        createMessageMethods({
+            store: messageStore,
+            defaultTtlMs: config.storage.messageTtlMs,
+            maxMessageBytes: limits.maxMessageBytes,
+            maxMessagesPerRecipient: limits.maxMessagesPerRecipient,
+            maxStoredMessages: limits.maxStoredMessages,
+        })
+    );
+
+    // Signed requests: how far a signature timestamp may be from our clock,
+    // and whether unsigned (anonymous) requests are accepted at all
+    const { signatureMaxSkewMs, allowUnsigned } = config.auth;
+    const replayCache = new ReplayCache(signatureMaxSkewMs);
+
+    // Token buckets for LSRPC requests: one per client, keyed by the
+    // verified sender key (onion traffic shares the exit node's IP) or, for
+    // unsigned requests, the forwarding IP; and one for the whole server
+    const clientRateLimiter = new RateLimiter(limits.clientRate);
+    const globalRateLimiter = new RateLimiter(limits.globalRate);
+
+    // LSRPC requests by method and status (batch items count one each), and
+    // live messages in the store
+    const metrics = new MetricsRegistry();
+    const lsrpcRequests = metrics.counter(
+        "lsrpc_requests_total",
+        "LSRPC requests by method and HTTP status"
+    );
+    metrics
+        .gauge("lsrpc_stored_messages", "Live messages in the message store")
+        .collectWith(() => messageStore.count());
+
+    // POST /oxen/custom-endpoint/lsrpc endpoint
+    app.post(
+        "/oxen/custom-endpoint/lsrpc",
+        decodeOnionBody,
+        async (req: Request<{}, {}, LsrpcRequest>, res: Response) => {
+            try {
+                const body = parseRequestBody(req, res);
+                logger.debug("LSRPC request", {
+                    method: Array.isArray(body)
+                        ? `batch of ${body.length}`
+                        : body?.method,
+                    onion: res.locals.onionRequest !== undefined,
+                });
+                return await sendJson(
+                    res,
+                    200,
+                    await handleLsrpcBody(body, clientIp(req))
+                );
+            } catch (error: unknown) {
+                return sendError(res, error);
+            }
+        }
+    );
+
+    // POST /oxen/v4/lsrpc endpoint: v4 onion requests carrying an HTTP
+    // method, endpoint, headers and body, answered with a bencoded reply
+    app.post(ONION_V4_TARGET, async (req: Request, res: Response) => {
+        if (!Buffer.isBuffer(req.body)) {
+            return sendError(
+                res,
+                new LsrpcParseError("v4 onion request body must be binary")
+            );
+        }
+
+        let onionRequest: DecodedOnionV4Request;
+        try {
+            onionRequest = await onionDecoder.decodeV4(req.body);
+        } catch (error: any) {
+            logger.warn("Failed to decode v4 onion request", {
+                error: error.message,
+            });
+            return sendError(res, toDecodeError(error));
+        }
+
+        // The client's request id travels inside the encrypted request
+        const { method, endpoint, headers } = onionRequest.request;
+        const requestId = requestIdFrom(headers?.[REQUEST_ID_HEADER]);
+        try {
+            const response = await runWithLogContext({ requestId }, () => {
+                logger.debug("Decoded v4 onion request", { method, endpoint });
+                return handleV4Request(onionRequest.request, clientIp(req));
+            });
+            const encrypted = await onionRequest.encryption.encrypt(
+                onionRequest.encType,
+                encodeV4Response(response),
+                onionRequest.ephemeralKey
+            );
+            return res
+                .status(200)
+                .type("application/octet-stream")
+                .send(encrypted);
+        } catch (error: unknown) {
+            return sendError(res, error);
+        }
+    });
+
+    // Health check endpoint
+    app.get("/health", (req: Request, res: Response) => {
+        res.json(healthStatus());
+    });
+
+    // Metrics in the Prometheus text format
+    app.get("/metrics", async (req: Request, res: Response) => {
+        try {
+            const text = await metrics.toPrometheus();
+            res.type(PROMETHEUS_CONTENT_TYPE).send(text);
+        } catch (error: unknown) {
+            return sendError(res, error);
+        }
+    });
+
+    // Current public keys, signed by the server's Ed25519 identity
+    app.get(SERVER_KEYS_ENDPOINT, async (req: Request, res: Response) => {
+        try {
+            res.json(await publishedKeys());
+        } catch (error: unknown) {
+            return sendError(res, error);
+        }
+    });
 
-// POST /oxen/custom-endpoint/lsrpc endpoint
-app.post(
-    "/oxen/custom-endpoint/lsrpc",
-    (req: Request<{}, {}, LsrpcRequest>, res: Response) => {
-        const body = parseRequestBody(req);
-        const { method, params } = body;
-        console.log("📬 Parsed request body:", req.headers);
-        // Validate method
+    // Map body parser failures (malformed JSON, oversized bodies) to JSON
+    // errors
+    app.use((error: any, req: Request, res: Response, next: NextFunction) => {
+        if (error?.type === "entity.parse.failed") {
+            return sendError(
+                res,
+                new LsrpcParseError("Request body is not valid JSON", {
+                    reason: error.message,
+                })
+            );
+        }
+        if (error?.type === "entity.too.large") {
+            return sendError(
+                res,
+                new LsrpcPayloadTooLargeError("Request body too large", {
+                    maxBytes: limits.maxBodyBytes,
+                })
+            );
+        }
+        return sendError(res, error);
+    });
+
+    return { app, logger, store: messageStore, keys, metrics };
+
+    // Helper function to sign the current and still accepted X25519 keys
+    async function publishedKeys() {
+        const [current, ...retired] = await keys.getActiveKeys();
+        return signServerKeys(
+            {
+                x25519_pubkey: CryptoUtils.toHex(current.publicKey),
+                previous_x25519: retired.map((key) => ({
+                    pubkey: CryptoUtils.toHex(key.publicKey),
+                    expires_at: key.expiresAt!,
+                })),
+                timestamp: Date.now(),
+            },
+            await keys.getIdentity()
+        );
+    }
+
+    // Middleware to decode application/octet-stream onion request bodies
+    // into res.locals.onionRequest before they reach the route handler
+    async function decodeOnionBody(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ) {
         if (
-            !method ||
-            (method !== "get_message" && method !== "send_message")
+            req.headers["content-type"] !== "application/octet-stream" ||
+            !Buffer.isBuffer(req.body)
         ) {
-            return res.status(400).json({
-                error: 'Invalid method. Must be either "get_message" or "send_message"',
+            return next();
+        }
+
+        try {
+            const onionRequest = await onionDecoder.decode(req.body);
+            logger.debug("Decoded onion request", {
+                version: onionRequest.routing.version,
+                encrypted: onionRequest.encrypted,
             });
+            res.locals.onionRequest = onionRequest;
+            next();
+        } catch (error: any) {
+            logger.warn("Failed to decode onion request", {
+                error: error.message,
+            });
+            return sendError(res, toDecodeError(error));
         }
+    }
 
-        // Handle different methods
-        switch (method) {
-            case "get_message":
-                const msgId = params.msgId;
-                let data = db[msgId];
-                if (!msgId || !data) {
-                    data = {
-                        msgId: "12345",
-                        content: "Hello, this is a sample message!",
-                        timestamp: new Date().toISOString(),
-                        sender: "user123",
-                        recipient: "user456",
-                        encrypted: true,
-                    };
-                }
-                return res.json({
-                    success: true,
-                    method: "get_message",
-                    data,
-                });
+    // Helper function to validate, authenticate and run one LSRPC request
+    async function handleLsrpcRequest(body: any, ip: string) {
+        const call = authorizeLsrpcRequest(body, ip);
+        const limitErrors = chargeClients([call]);
+        return dispatchLsrpcRequest(call, limitErrors.get(call.clientKey));
+    }
 
-            case "send_message":
-                const msg = {
-                    msgId: new Date().getTime().toString(),
-                    msg: params.msg,
-                    status: "sent",
-                    timestamp: new Date().toISOString(),
-                    recipient: "user789",
-                    deliveryStatus: "pending",
-                    encrypted: true,
-                    confirmationCode: "ABC123XYZ",
-                };
-                db[msg.msgId] = msg;
-                return res.json({
-                    success: true,
-                    method: "send_message",
-                    data: msg,
-                });
+    // Helper function to answer a single request, or each request of a batch
+    // array in order (failed batch items become error items)
+    // A batch costs one token per request, globally and for each client
+    // The global limit is checked here rather than before decoding, so onion
+    // clients get the 429 inside their encrypted reply
+    async function handleLsrpcBody(body: any, ip: string) {
+        const batch = Array.isArray(body);
+        if (batch && (body.length === 0 || body.length > MAX_BATCH_SIZE)) {
+            countLsrpcRequest("batch", 400);
+            throw new LsrpcParseError(
+                `Batch must contain between 1 and ${MAX_BATCH_SIZE} requests`,
+                { maxBatchSize: MAX_BATCH_SIZE }
+            );
+        }
+        try {
+            takeRateLimitToken(
+                globalRateLimiter,
+                "global",
+                batch ? body.length : 1,
+                "Server is busy, try again later"
+            );
+        } catch (error: unknown) {
+            countLsrpcRequest(
+                batch ? "batch" : body?.method,
+                errorStatus(error)
+            );
+            throw error;
+        }
+        if (!batch) {
+            return handleLsrpcRequest(body, ip);
+        }
 
-            default:
-                return res.status(400).json({
-                    error: "Unsupported method",
-                });
+        // Authenticate every request first so each client pays for all of
+        // its requests at once
+        const steps: BatchStep[] = body.map((item: unknown) => {
+            try {
+                return { call: authorizeLsrpcRequest(item, ip) };
+            } catch (error: unknown) {
+                return { error };
+            }
+        });
+        const limitErrors = chargeClients(
+            steps.flatMap((step) => (step.call ? [step.call] : []))
+        );
+        return runBatch(
+            steps,
+            async (step) => {
+                const { call, error } = step as BatchStep;
+                if (!call) throw error;
+                return dispatchLsrpcRequest(
+                    call,
+                    limitErrors.get(call.clientKey)
+                );
+            },
+            (error) => logger.error("Unexpected error", { error })
+        );
+    }
+
+    // Helper function to validate and authenticate one LSRPC request; its
+    // client is the verified sender key, or the IP for unsigned requests
+    function authorizeLsrpcRequest(body: any, ip: string): AuthorizedCall {
+        try {
+            const request = lsrpcMethods.validate(body);
+            const caller = authenticateRequest(request, body.auth);
+            return {
+                request,
+                caller,
+                clientKey: caller ? `sender:${caller}` : `ip:${ip}`,
+            };
+        } catch (error: unknown) {
+            countLsrpcRequest(body?.method, errorStatus(error));
+            throw error;
         }
     }
-);
 
-// Health check endpoint
-app.get("/health", (req: Request, res: Response) => {
-    res.json({ status: "OK", timestamp: new Date().toISOString() });
-});
+    // Helper function to take one client token per call from each client's
+    // bucket, returning the rate limit error of clients that ran out
+    function chargeClients(calls: AuthorizedCall[]): Map<string, unknown> {
+        const costs = new Map<string, number>();
+        for (const call of calls) {
+            costs.set(call.clientKey, (costs.get(call.clientKey) ?? 0) + 1);
+        }
+        const limitErrors = new Map<string, unknown>();
+        for (const [clientKey, cost] of costs) {
+            try {
+                takeRateLimitToken(
+                    clientRateLimiter,
+                    clientKey,
+                    cost,
+                    "Too many requests from this client"
+                );
+            } catch (error: unknown) {
+                limitErrors.set(clientKey, error);
+            }
+        }
+        return limitErrors;
+    }
 
-// Start server
-app.listen(PORT, () => {
-    console.log(`Server is running on port ${PORT}`);
-    console.log(`Health check: http://localhost:${PORT}/health`);
-    console.log(
-        `LSRPC endpoint: http://localhost:${PORT}/oxen/custom-endpoint/lsrpc`
-    );
-});
+    // Helper function to run an authorized call, or fail it with its
+    // client's rate limit error
+    async function dispatchLsrpcRequest(
+        call: AuthorizedCall,
+        limitError?: unknown
+    ) {
+        const { request, caller } = call;
+        try {
+            if (limitError) throw limitError;
+            const data = await lsrpcMethods.dispatch(request, { caller });
+            countLsrpcRequest(request.method, 200);
+            return { success: true, method: request.method, data };
+        } catch (error: unknown) {
+            countLsrpcRequest(request.method, errorStatus(error));
+            throw error;
+        }
+    }
 
-// Helper function to clean corrupted prefixes from onion request body
-function cleanCorruptedPrefix(bodyString: string): string {
-    // Find the first valid JSON object
-    const jsonStart = bodyString.indexOf("{");
-    if (jsonStart > 0) {
-        const prefix = bodyString.substring(0, jsonStart);
-        return bodyString.substring(jsonStart);
+    // Helper function to count an LSRPC request; names that are not
+    // methods are counted as "unknown" so clients cannot add labels
+    function countLsrpcRequest(method: unknown, status: number) {
+        const known =
+            method === "batch" ||
+            (lsrpcMethods.names() as unknown[]).includes(method);
+        lsrpcRequests.inc({
+            method: known ? String(method) : "unknown",
+            status,
+        });
     }
-    return bodyString;
-}
 
-// Helper function to parse binary onion request data
-function parseBinaryOnionRequest(body: Buffer): any {
-    console.log("🔧 Parsing binary onion request data...");
+    // Helper function to take cost tokens from limiter's bucket for key, or
+    // throw a RATE_LIMITED error saying when to retry
+    function takeRateLimitToken(
+        limiter: RateLimiter,
+        key: string,
+        cost: number,
+        message: string
+    ): void {
+        const result = limiter.take(key, cost);
+        if (!result.allowed) {
+            logger.debug("Rate limited", {
+                key,
+                retryAfterMs: result.retryAfterMs,
+            });
+            throw new LsrpcRateLimitError("RATE_LIMITED", message, {
+                retryAfterMs: result.retryAfterMs,
+            });
+        }
+    }
 
-    try {
-        // Try to convert to string and clean prefixes
-        const bodyString = body.toString("utf8");
+    // Helper function to check a request's auth block, returning the
+    // verified sender key, or null for unsigned requests when those are
+    // allowed
+    function authenticateRequest(
+        request: LsrpcRequest,
+        auth: RequestAuth | undefined
+    ): string | null {
+        if (auth === undefined) {
+            if (allowUnsigned) {
+                return null;
+            }
+            throw new LsrpcAuthError(
+                "SIGNATURE_REQUIRED",
+                "Request must be signed with an Ed25519 identity key"
+            );
+        }
 
-        // Clean corrupted prefixes
-        const cleanedBody = cleanCorruptedPrefix(bodyString);
+        if (
+            !auth ||
+            typeof auth !== "object" ||
+            !verifyRequestSignature(request, auth)
+        ) {
+            throw new LsrpcAuthError(
+                "INVALID_SIGNATURE",
+                "Request signature is invalid"
+            );
+        }
 
-        // Extract JSON objects from cleaned data
-        if (cleanedBody.includes("{") && cleanedBody.includes("}")) {
-            const jsonObjects: any[] = [];
-            let currentPos = 0;
+        const now = Date.now();
+        if (Math.abs(now - auth.timestamp) > signatureMaxSkewMs) {
+            throw new LsrpcAuthError(
+                "STALE_REQUEST",
+                "Request timestamp is too far from the server clock",
+                { maxSkewMs: signatureMaxSkewMs, serverTime: now }
+            );
+        }
+        // Keyed on what the signature covers, so a re-encoded signature
+        // is still a replay
+        const pubkey = auth.pubkey.toLowerCase();
+        const requestKey = `${pubkey}:${auth.nonce.toLowerCase()}`;
+        if (!replayCache.remember(requestKey, auth.timestamp, now)) {
+            throw new LsrpcAuthError(
+                "REPLAYED_REQUEST",
+                "Request has already been received"
+            );
+        }
 
-            while (currentPos < cleanedBody.length) {
-                const braceStart = cleanedBody.indexOf("{", currentPos);
-                if (braceStart === -1) break;
+        return pubkey;
+    }
 
-                // Find the matching closing brace
-                let braceCount = 0;
-                let braceEnd = -1;
+    // Helper function to dispatch a v4 request to the matching route
+    // Errors become the usual { error, code, details? } body with their
+    // status
+    async function handleV4Request(
+        request: ParsedV4Request,
+        ip: string
+    ): Promise<OnionV4Response> {
+        try {
+            const route = `${request.method} ${request.endpoint}`;
+            switch (route) {
+                case "POST /oxen/custom-endpoint/lsrpc":
+                    return v4Json(
+                        200,
+                        await handleLsrpcBody(parseV4Json(request), ip)
+                    );
+                case "GET /health":
+                    return v4Json(200, healthStatus());
+                case `GET ${SERVER_KEYS_ENDPOINT}`:
+                    return v4Json(200, await publishedKeys());
+                default:
+                    throw new LsrpcNotFoundError(`No v4 route for ${route}`);
+            }
+        } catch (error: unknown) {
+            if (error instanceof LsrpcError) {
+                return v4Json(
+                    error.status,
+                    error.toJSON(),
+                    retryAfterHeader(error)
+                );
+            }
+            logger.error("Unexpected error", { error });
+            return v4Json(500, {
+                error: "Internal server error",
+                code: "INTERNAL_ERROR",
+            });
+        }
+    }
 
-                for (let i = braceStart; i < cleanedBody.length; i++) {
-                    if (cleanedBody[i] === "{") braceCount++;
-                    if (cleanedBody[i] === "}") braceCount--;
+    // Helper function to send an error as a consistent
+    // { error, code, details? } body
+    async function sendError(res: Response, error: unknown) {
+        if (error instanceof LsrpcError) {
+            res.set(retryAfterHeader(error));
+            return sendJson(res, error.status, error.toJSON());
+        }
 
-                    if (braceCount === 0) {
-                        braceEnd = i;
-                        break;
-                    }
-                }
+        logger.error("Unexpected error", { error });
+        return sendJson(res, 500, {
+            error: "Internal server error",
+            code: "INTERNAL_ERROR",
+        });
+    }
 
-                if (braceEnd !== -1) {
-                    const jsonString = cleanedBody.substring(
-                        braceStart,
-                        braceEnd + 1
-                    );
+    // Helper function to send a JSON response, encrypted back to the client
+    // when the request arrived as an encrypted onion payload
+    async function sendJson(res: Response, status: number, body: any) {
+        const onionRequest: DecodedOnionRequest | undefined =
+            res.locals.onionRequest;
+        const ephemeralKey = onionRequest?.ephemeralKey;
+        const encryption = onionRequest?.encryption;
+        if (!ephemeralKey || !encryption) {
+            return res.status(status).json(body);
+        }
 
-                    try {
-                        const parsed = JSON.parse(jsonString);
-                        jsonObjects.push(parsed);
-                    } catch (error: any) {
-                        console.log(
-                            "❌ Failed to parse JSON object from binary:",
-                            jsonString,
-                            "Error:",
-                            error.message
-                        );
-                    }
-
-                    currentPos = braceEnd + 1;
-                } else {
-                    break;
-                }
-            }
+        const encrypted = await encryption.encrypt(
+            onionRequest.encType || "aes-gcm",
+            Buffer.from(JSON.stringify(body)),
+            ephemeralKey
+        );
+        return res
+            .status(status)
+            .type("text/plain")
+            .send(CryptoUtils.toBase64(encrypted));
+    }
+}
 
-            // The first object is always the actual request payload
-            if (jsonObjects.length > 0) {
-                const firstObject = jsonObjects[0];
-                console.log("request payload:", firstObject);
-                return firstObject;
-            }
+/**
+ * Start the app on config.port (and config.host) and resolve once it
+ * listens
+ * close() stops accepting connections, lets in-flight requests finish for
+ * up to config.shutdownTimeoutMs, then flushes and closes the store
+ */
+export async function createServer(
+    config: ServerConfig
+): Promise<ServerHandle> {
+    const { app, logger, store, keys } = await createApp(config);
+
+    // Responses in flight; once closing, they tell keep-alive clients to
+    // hang up so their connections end with the response
+    const pending = new Set<http.ServerResponse>();
+    let closing: Promise<void> | null = null;
+    const server = http.createServer((req, res) => {
+        pending.add(res);
+        res.once("close", () => pending.delete(res));
+        if (closing) {
+            res.shouldKeepAlive = false;
         }
+        app(req, res);
+    });
+    await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(config.port, config.host, () => {
+            server.off("error", reject);
+            resolve();
+        });
+    });
+    const { port } = server.address() as AddressInfo;
 
-        // Fallback: try to parse the entire cleaned string as JSON
-        try {
-            const parsed = JSON.parse(cleanedBody);
-            console.log("✅ Successfully parsed cleaned binary data as JSON");
-            return parsed;
-        } catch (error: any) {
-            console.log(
-                "❌ Failed to parse cleaned binary data as JSON:",
-                error
+    // Drop expired messages and rotate a due X25519 key once a minute
+    const purgeTimer = setInterval(() => {
+        store
+            .purgeExpired()
+            .then((removed) => {
+                if (removed > 0) {
+                    logger.info("Purged expired messages", { removed });
+                }
+            })
+            .catch((error) =>
+                logger.error("Failed to purge expired messages", { error })
             );
-            return {
-                raw_body: cleanedBody,
-                original_binary_length: body.length,
-                body_type: "binary_cleaned",
-                parse_error: error.message,
-            };
+        keys
+            .rotateIfDue()
+            .then((key) => {
+                if (key) {
+                    logger.info(
+                        `Rotated server X25519 key, new pubkey: ${CryptoUtils.toHex(
+                            key.publicKey
+                        )}`,
+                        { graceMs: config.keys.rotationGraceMs }
+                    );
+                }
+            })
+            .catch((error) =>
+                logger.error("Failed to rotate server X25519 key", { error })
+            );
+    }, PURGE_INTERVAL_MS);
+    purgeTimer.unref();
+
+    logger.info(`Server is running on port ${port}`);
+    logger.info(`Health check: http://localhost:${port}/health`);
+    logger.info(
+        `LSRPC endpoint: http://localhost:${port}/oxen/custom-endpoint/lsrpc`
+    );
+    logger.info(
+        `v4 onion endpoint: http://localhost:${port}${ONION_V4_TARGET}`
+    );
+    // Public keys clients encrypt to and verify, so they are part of the
+    // message
+    const current = await keys.getCurrentKey();
+    const identity = await keys.getIdentity();
+    logger.info(
+        `Server X25519 pubkey: ${CryptoUtils.toHex(current.publicKey)}`
+    );
+    logger.info(
+        `Server Ed25519 pubkey: ${CryptoUtils.toHex(identity.publicKey)}`
+    );
+
+    async function shutdown(): Promise<void> {
+        logger.info("Shutting down, waiting for in-flight requests");
+        clearInterval(purgeTimer);
+
+        const closed = new Promise<void>((resolve, reject) =>
+            server.close((error) => (error ? reject(error) : resolve()))
+        );
+        server.closeIdleConnections();
+        for (const res of pending) {
+            res.shouldKeepAlive = false;
+        }
+        // Cut off whatever is still running when the timeout is up
+        const forceTimer = setTimeout(() => {
+            logger.warn("Closing connections still open at shutdown timeout", {
+                timeoutMs: config.shutdownTimeoutMs,
+            });
+            server.closeAllConnections();
+        }, config.shutdownTimeoutMs);
+        try {
+            await closed;
+        } finally {
+            clearTimeout(forceTimer);
         }
+
+        await store.close();
+        logger.info("Server stopped");
+    }
+
+    return {
+        app,
+        server,
+        port,
+        keys,
+        close: () => (closing ??= shutdown()),
+    };
+}
+
+// Helper function to load the server keys from config.keys.dir, creating
+// them on first start; without a directory they last for this process only
+async function openServerKeys(
+    config: ServerConfig,
+    logger: Logger
+): Promise<ServerKeyStore> {
+    const { dir, x25519SecretKey, rotationIntervalMs, rotationGraceMs } =
+        config.keys;
+    const keys = new ServerKeyStore({
+        dir,
+        x25519SecretKey,
+        rotationIntervalMs,
+        rotationGraceMs,
+    });
+    // Surface a broken key file at startup
+    await keys.getCurrentKey();
+
+    if (!keys.isPersistent()) {
+        logger.warn(
+            "SERVER_KEYS_DIR not set, server keys last for this process only"
+        );
+    }
+    if (keys.isFixed() && rotationIntervalMs > 0) {
+        logger.warn(
+            "SERVER_X25519_SECRET_KEY is set, X25519 key rotation is off"
+        );
+    }
+    return keys;
+}
+
+function toHopEncryption(key: ServerX25519Key): HopEncryption {
+    return new HopEncryption(key.secretKey, key.publicKey, true);
+}
+
+// Helper function to pick the message store: an append-only JSON log at
+// config.storage.path, or memory only
+function createMessageStore(config: ServerConfig): MessageStore {
+    if (config.storage.backend === "memory") {
+        return new MemoryMessageStore();
+    }
+    return new JsonLogMessageStore(config.storage.path);
+}
+
+// Helper function to map onion decoding failures to LSRPC errors
+function toDecodeError(error: any): LsrpcError {
+    if (error instanceof DecryptionError) {
+        return new LsrpcError(
+            400,
+            "DECRYPTION_FAILED",
+            "Unable to decrypt onion request",
+            { reason: error.message }
+        );
+    }
+    return new LsrpcParseError("Unable to decode onion request", {
+        reason: error.message,
+    });
+}
+
+// Address the request came from: the client, or the exit node for onion
+// traffic (see trustProxy)
+function clientIp(req: Request): string {
+    return req.ip ?? req.socket.remoteAddress ?? "unknown";
+}
+
+// Helper function to parse a v4 request body as JSON
+function parseV4Json(request: ParsedV4Request): any {
+    if (!request.body || request.body.length === 0) {
+        throw new LsrpcParseError("Request body is required");
+    }
+    try {
+        return JSON.parse(request.body.toString("utf8"));
     } catch (error: any) {
-        console.log("❌ Failed to process binary data:", error);
-        return {
-            body_type: "binary_error",
-            error: error.message,
-            binary_length: body.length,
-        };
+        throw new LsrpcParseError("Request body is not valid JSON", {
+            reason: error.message,
+        });
+    }
+}
+
+function v4Json(
+    status: number,
+    body: unknown,
+    headers: Record<string, string> = {}
+): OnionV4Response {
+    return {
+        status,
+        headers: { "content-type": "application/json", ...headers },
+        body: Buffer.from(JSON.stringify(body)),
+    };
+}
+
+// HTTP status an error is answered with
+function errorStatus(error: unknown): number {
+    return error instanceof LsrpcError ? error.status : 500;
+}
+
+// Helper function to build a Retry-After header (whole seconds) for rate
+// limit errors that know when a retry can succeed
+function retryAfterHeader(error: LsrpcError): Record<string, string> {
+    if (!(error instanceof LsrpcRateLimitError)) {
+        return {};
     }
+    const retryAfterMs = error.retryAfterMs;
+    return retryAfterMs === undefined
+        ? {}
+        : { "retry-after": String(Math.ceil(retryAfterMs / 1000)) };
 }
 
-function parseRequestBody(req: Request): any {
+function healthStatus() {
+    return { status: "OK", timestamp: new Date().toISOString() };
+}
+
+export function parseRequestBody(req: Request, res: Response): any {
     // If body is already parsed JSON (from regular HTTP requests)
     if (
         req.body &&
         typeof req.body === "object" &&
         !Buffer.isBuffer(req.body)
     ) {
-        console.log("✅ Body is already parsed JSON");
         return req.body;
     }
 
-    // 🔧 OPTION 2: Handle binary data properly
-    if (req.headers["content-type"] === "application/octet-stream") {
-        console.log("🔧 Binary data detected, handling as octet-stream...");
-        return parseBinaryOnionRequest(req.body);
+    // Onion request decoded by decodeOnionBody
+    const onionRequest: DecodedOnionRequest | undefined =
+        res.locals.onionRequest;
+    if (onionRequest) {
+        return onionRequest.payload;
     }
 
-    console.log("❌ No body or unrecognized body type");
     return null;
 }
 
-export default app;
+// Start from the environment (and SERVER_CONFIG_FILE) and close cleanly on
+// SIGINT or SIGTERM
+async function main(): Promise<void> {
+    const handle = await createServer(await loadServerConfig());
+    for (const signal of ["SIGINT", "SIGTERM"] as const) {
+        process.once(signal, () => {
+            handle.close().then(
+                () => process.exit(0),
+                (error) => {
+                    console.error("💥 Shutdown failed:", error);
+                    process.exit(1);
+                }
+            );
+        });
+    }
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error("💥 Failed to start server:", error.message ?? error);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,191 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import {
+    MemoryMessageStore,
+    MessageStoreOptions,
+    MessageQuery,
+    StoredMessage,
+    isExpired,
+} from "./message-store";
+
+/**
+ * MessageStore persisted as an append-only JSON log (one entry per line)
+ * Messages are served from memory; every change is appended to the log,
+ * which is replayed on startup and compacted to the live messages when
+ * expired ones are purged, or when replaced and deleted entries make up
+ * most of it
+ */
+export class JsonLogMessageStore extends MemoryMessageStore {
+    private filePath: string;
+    private ready: Promise<void>;
+    // Appends run one at a time so log lines never interleave
+    private writes: Promise<void> = Promise.resolve();
+    // Lines in the log, counted from the last load or compaction
+    private logLines = 0;
+    private minCompactLines: number;
+
+    constructor(filePath: string, options: JsonLogMessageStoreOptions = {}) {
+        super(options);
+        this.filePath = filePath;
+        this.minCompactLines = options.minCompactLines ?? 1000;
+        this.ready = this.load();
+        // Load failures surface from the first call that awaits ready
+        this.ready.catch(() => {});
+    }
+
+    public async put(message: StoredMessage): Promise<void> {
+        await this.ready;
+        await super.put(message);
+        await this.append({ op: "put", message });
+    }
+
+    public async get(msgId: string): Promise<StoredMessage | null> {
+        await this.ready;
+        return super.get(msgId);
+    }
+
+    public async list(query: MessageQuery): Promise<StoredMessage[]> {
+        await this.ready;
+        return super.list(query);
+    }
+
+    public async delete(msgId: string): Promise<boolean> {
+        await this.ready;
+        const existed = await super.delete(msgId);
+        if (existed) {
+            await this.append({ op: "delete", msgId });
+        }
+        return existed;
+    }
+
+    public async count(): Promise<number> {
+        await this.ready;
+        return super.count();
+    }
+
+    public async size(): Promise<number> {
+        await this.ready;
+        return super.size();
+    }
+
+    public async sizeForRecipientKey(recipientKey: string): Promise<number> {
+        await this.ready;
+        return super.sizeForRecipientKey(recipientKey);
+    }
+
+    public async purgeExpired(): Promise<number> {
+        await this.ready;
+        const removed = await super.purgeExpired();
+        if (removed > 0) {
+            await this.compact();
+        }
+        return removed;
+    }
+
+    public async close(): Promise<void> {
+        await this.ready;
+        await this.writes;
+    }
+
+    /**
+     * Rewrite the log so it only holds the live messages
+     */
+    public async compact(): Promise<void> {
+        await this.ready;
+        this.logLines = this.entries().length;
+        await this.enqueue(async () => {
+            const lines = this.entries().map((message) =>
+                JSON.stringify({ op: "put", message })
+            );
+            // Write then rename so a crash never leaves a half-written log
+            const tempPath = `${this.filePath}.tmp`;
+            await fs.writeFile(
+                tempPath,
+                lines.length > 0 ? `${lines.join("\n")}\n` : ""
+            );
+            await fs.rename(tempPath, this.filePath);
+        });
+    }
+
+    // Replay the log into memory, skipping expired messages
+    private async load(): Promise<void> {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+        let contents: string;
+        try {
+            contents = await fs.readFile(this.filePath, "utf8");
+        } catch (error: any) {
+            if (error.code === "ENOENT") return;
+            throw error;
+        }
+
+        // End a torn last line so the next append starts on a fresh line
+        if (contents.length > 0 && !contents.endsWith("\n")) {
+            await fs.appendFile(this.filePath, "\n");
+        }
+
+        const now = this.now();
+        for (const line of contents.split("\n")) {
+            if (line.trim()) this.logLines++;
+            const entry = parseEntry(line);
+            if (entry?.op === "put" && !isExpired(entry.message, now)) {
+                await super.put(entry.message);
+            } else if (entry?.op === "delete") {
+                await super.delete(entry.msgId);
+            }
+        }
+    }
+
+    // Append entry, then compact once the log holds over twice as many
+    // lines as there are stored messages
+    private async append(entry: LogEntry): Promise<void> {
+        this.logLines++;
+        await this.enqueue(() =>
+            fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`)
+        );
+        if (
+            this.logLines >= this.minCompactLines &&
+            this.logLines > 2 * this.entries().length
+        ) {
+            await this.compact();
+        }
+    }
+
+    private enqueue(write: () => Promise<void>): Promise<void> {
+        const next = this.writes.then(write);
+        // Keep the queue going after a failed write; the caller still sees it
+        this.writes = next.catch(() => {});
+        return next;
+    }
+}
+
+// Parse one log line; blank or torn lines (e.g. from a crash) are skipped
+function parseEntry(line: string): LogEntry | null {
+    if (!line.trim()) return null;
+    try {
+        const entry = JSON.parse(line);
+        if (
+            entry?.op === "put" &&
+            typeof entry.message?.msgId === "string" &&
+            typeof entry.message.createdAt === "number" &&
+            typeof entry.message.expiresAt === "number"
+        ) {
+            return entry;
+        }
+        if (entry?.op === "delete" && typeof entry.msgId === "string") {
+            return entry;
+        }
+    } catch (error: unknown) {
+        // Torn write, fall through
+    }
+    return null;
+}
+
+export interface JsonLogMessageStoreOptions extends MessageStoreOptions {
+    /** Fewest log lines before updates alone trigger a compaction (1000) */
+    minCompactLines?: number;
+}
+
+type LogEntry =
+    | { op: "put"; message: StoredMessage }
+    | { op: "delete"; msgId: string };
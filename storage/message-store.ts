@@ -0,0 +1,220 @@
+/**
+ * Storage for LSRPC messages
+ * Every message has an expiry; expired messages are never returned and are
+ * removed by purgeExpired
+ */
+export interface MessageStore {
+    /** Store a message, replacing any message with the same msgId */
+    put(message: StoredMessage): Promise<void>;
+    /** Get a message by id, or null if it does not exist or has expired */
+    get(msgId: string): Promise<StoredMessage | null>;
+    /**
+     * Live messages matching query, oldest first (createdAt, then msgId)
+     */
+    list(query: MessageQuery): Promise<StoredMessage[]>;
+    /** Delete a message, returning whether it existed */
+    delete(msgId: string): Promise<boolean>;
+    /** Number of live (unexpired) messages */
+    count(): Promise<number>;
+    /**
+     * Number of stored messages, without scanning them; unlike count, this
+     * includes messages that expired since the last purgeExpired
+     */
+    size(): Promise<number>;
+    /** Like size, for the messages encrypted to recipientKey */
+    sizeForRecipientKey(recipientKey: string): Promise<number>;
+    /** Remove every expired message, returning how many were removed */
+    purgeExpired(): Promise<number>;
+    /** Flush pending writes and release resources */
+    close(): Promise<void>;
+}
+
+/**
+ * MessageStore kept in memory; everything is lost on restart
+ */
+export class MemoryMessageStore implements MessageStore {
+    private messages: Map<string, StoredMessage> = new Map();
+    // Stored messages per recipientKey, updated on every change
+    private recipientKeySizes: Map<string, number> = new Map();
+    protected now: () => number;
+
+    constructor(options: MessageStoreOptions = {}) {
+        this.now = options.now ?? Date.now;
+    }
+
+    public async put(message: StoredMessage): Promise<void> {
+        const previous = this.messages.get(message.msgId);
+        if (previous) {
+            this.track(previous, -1);
+        }
+        this.messages.set(message.msgId, message);
+        this.track(message, 1);
+    }
+
+    public async get(msgId: string): Promise<StoredMessage | null> {
+        const message = this.messages.get(msgId);
+        if (!message || isExpired(message, this.now())) {
+            return null;
+        }
+        return message;
+    }
+
+    public async list(query: MessageQuery): Promise<StoredMessage[]> {
+        const now = this.now();
+        return this.entries()
+            .filter((message) => matchesQuery(message, query, now))
+            .sort(compareMessages)
+            .slice(0, query.limit);
+    }
+
+    public async delete(msgId: string): Promise<boolean> {
+        const message = this.messages.get(msgId);
+        if (!message) {
+            return false;
+        }
+        this.messages.delete(msgId);
+        this.track(message, -1);
+        return true;
+    }
+
+    public async count(): Promise<number> {
+        const now = this.now();
+        const live = this.entries().filter(
+            (message) => !isExpired(message, now)
+        );
+        return live.length;
+    }
+
+    public async size(): Promise<number> {
+        return this.messages.size;
+    }
+
+    public async sizeForRecipientKey(recipientKey: string): Promise<number> {
+        return this.recipientKeySizes.get(recipientKey) ?? 0;
+    }
+
+    public async purgeExpired(): Promise<number> {
+        const now = this.now();
+        let removed = 0;
+        for (const [msgId, message] of this.messages) {
+            if (isExpired(message, now)) {
+                this.messages.delete(msgId);
+                this.track(message, -1);
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    public async close(): Promise<void> {}
+
+    /**
+     * Every stored message, expired or not, for subclasses that persist them
+     */
+    protected entries(): StoredMessage[] {
+        return Array.from(this.messages.values());
+    }
+
+    // Helper function to add change to the size of message's recipientKey
+    private track(message: StoredMessage, change: number): void {
+        const { recipientKey } = message;
+        if (recipientKey === undefined) return;
+        const size = (this.recipientKeySizes.get(recipientKey) ?? 0) + change;
+        if (size > 0) {
+            this.recipientKeySizes.set(recipientKey, size);
+        } else {
+            this.recipientKeySizes.delete(recipientKey);
+        }
+    }
+}
+
+export function isExpired(message: StoredMessage, now: number): boolean {
+    return message.expiresAt <= now;
+}
+
+function matchesQuery(
+    message: StoredMessage,
+    query: MessageQuery,
+    now: number
+): boolean {
+    return (
+        !isExpired(message, now) &&
+        (query.conversationId === undefined ||
+            message.conversationId === query.conversationId) &&
+        (query.recipient === undefined ||
+            message.recipient === query.recipient) &&
+        (query.recipientKey === undefined ||
+            message.recipientKey === query.recipientKey) &&
+        (query.since === undefined || message.createdAt > query.since) &&
+        (query.after === undefined ||
+            compareMessages(message, query.after) > 0) &&
+        (query.visibleTo === undefined || isVisibleTo(message, query.visibleTo))
+    );
+}
+
+/**
+ * Whether caller (a verified sender key, or null when anonymous) may read
+ * message: messages without a sender are public, others are only visible
+ * to their sender and recipient
+ */
+export function isVisibleTo(
+    message: StoredMessage,
+    caller: string | null
+): boolean {
+    return (
+        !message.sender ||
+        (caller !== null &&
+            (message.sender === caller || message.recipient === caller))
+    );
+}
+
+function compareMessages(a: MessagePosition, b: MessagePosition): number {
+    return a.createdAt - b.createdAt || a.msgId.localeCompare(b.msgId);
+}
+
+export interface StoredMessage {
+    /** Unique message id */
+    msgId: string;
+    /** When the message was stored, in ms since the epoch */
+    createdAt: number;
+    /** When the message expires, in ms since the epoch */
+    expiresAt: number;
+    /** Conversation the message belongs to, if any */
+    conversationId?: string;
+    /** Mailbox the message was sent to, if any */
+    recipient?: string;
+    /** X25519 key (hex) the message is encrypted to, if any */
+    recipientKey?: string;
+    /** Verified Ed25519 key (hex) of the sender, null if sent unsigned */
+    sender?: string | null;
+    /** Remaining message fields, returned to clients as stored */
+    [field: string]: unknown;
+}
+
+/** Where a message falls in list order: createdAt, then msgId */
+export type MessagePosition = Pick<StoredMessage, "createdAt" | "msgId">;
+
+export interface MessageQuery {
+    /** Only messages in this conversation */
+    conversationId?: string;
+    /** Only messages in this recipient's mailbox */
+    recipient?: string;
+    /** Only messages encrypted to this X25519 key */
+    recipientKey?: string;
+    /** Only messages created after this time, in ms since the epoch */
+    since?: number;
+    /**
+     * Only messages listed after this one; unlike since, this does not skip
+     * other messages created in the same millisecond
+     */
+    after?: MessagePosition;
+    /** Only messages this sender key (null for anonymous) may read */
+    visibleTo?: string | null;
+    /** Maximum number of messages to return */
+    limit: number;
+}
+
+export interface MessageStoreOptions {
+    /** Clock used for expiry checks, in ms (default Date.now) */
+    now?: () => number;
+}
@@ -0,0 +1,51 @@
+/**
+ * Remembers request ids (e.g. sender key and nonce) for a time window so a
+ * captured request cannot be sent again while its timestamp is still
+ * accepted
+ */
+
+// Most time between sweeps for ids whose window has passed
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+export class ReplayCache {
+    private seen: Map<string, number> = new Map();
+    private windowMs: number;
+    private lastPrune = 0;
+
+    constructor(windowMs: number) {
+        this.windowMs = windowMs;
+    }
+
+    /**
+     * Record id, returning false if it was already seen inside the window
+     * timestamp is when the request was made, in ms since the epoch
+     */
+    public remember(id: string, timestamp: number, now: number = Date.now()) {
+        this.prune(now);
+        if (this.seen.has(id)) {
+            return false;
+        }
+        this.seen.set(id, timestamp + this.windowMs);
+        return true;
+    }
+
+    public size(): number {
+        return this.seen.size;
+    }
+
+    // Forget ids whose timestamps are now too old to be accepted anyway;
+    // sweeps at most once per window (or PRUNE_INTERVAL_MS) so each request
+    // does not scan every id
+    private prune(now: number): void {
+        const interval = Math.min(this.windowMs, PRUNE_INTERVAL_MS);
+        if (now - this.lastPrune < interval) {
+            return;
+        }
+        this.lastPrune = now;
+        for (const [id, expiresAt] of this.seen) {
+            if (expiresAt < now) {
+                this.seen.delete(id);
+            }
+        }
+    }
+}
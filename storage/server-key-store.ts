@@ -0,0 +1,311 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import * as nacl from "tweetnacl";
+import { CryptoUtils } from "../onion/crypto-util";
+import {
+    IdentityKeyPair,
+    generateIdentityKeyPair,
+    identityFromSecretKey,
+} from "../onion/request-signing";
+
+/**
+ * Server keys: an Ed25519 identity that signs the published keys, and the
+ * X25519 keys onion requests are encrypted to
+ * Keys are created on first start and kept in <dir>/server-keys.json,
+ * readable by the owner only. Rotating the X25519 key keeps the old one
+ * working until its grace period ends, so clients have time to refresh
+ */
+
+const KEY_FILE_NAME = "server-keys.json";
+// Owner-only permissions for the key directory and file
+const DIR_MODE = 0o700;
+const FILE_MODE = 0o600;
+
+export class ServerKeyStore {
+    private filePath: string | null;
+    private options: ServerKeyStoreOptions;
+    private now: () => number;
+    // A new identity, until load() finds a stored one
+    private identity: IdentityKeyPair = generateIdentityKeyPair();
+    // Newest first; only the first has no expiresAt
+    private x25519Keys: ServerX25519Key[] = [];
+    private ready: Promise<void>;
+    // Saves run one at a time so a slow write never overwrites a newer one
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(options: ServerKeyStoreOptions = {}) {
+        this.options = options;
+        this.filePath = options.dir
+            ? path.join(options.dir, KEY_FILE_NAME)
+            : null;
+        this.now = options.now ?? Date.now;
+        this.ready = this.load();
+        // Load failures surface from the first call that awaits ready
+        this.ready.catch(() => {});
+    }
+
+    /**
+     * Whether keys survive a restart; without a directory they only live
+     * in memory
+     */
+    public isPersistent(): boolean {
+        return this.filePath !== null;
+    }
+
+    /**
+     * Whether the X25519 key was given by configuration, which disables
+     * rotation
+     */
+    public isFixed(): boolean {
+        return this.options.x25519SecretKey !== undefined;
+    }
+
+    public async getIdentity(): Promise<IdentityKeyPair> {
+        await this.ready;
+        return this.identity;
+    }
+
+    /**
+     * The key clients should encrypt to
+     */
+    public async getCurrentKey(): Promise<ServerX25519Key> {
+        await this.ready;
+        return this.x25519Keys[0];
+    }
+
+    /**
+     * Keys requests may be encrypted to: the current one, then the rotated
+     * ones still in their grace period
+     */
+    public async getActiveKeys(): Promise<ServerX25519Key[]> {
+        await this.ready;
+        const now = this.now();
+        return this.x25519Keys.filter(
+            (key) => key.expiresAt === undefined || key.expiresAt > now
+        );
+    }
+
+    /**
+     * Replace the current X25519 key with a new one; the old key keeps
+     * working for rotationGraceMs
+     */
+    public async rotate(): Promise<ServerX25519Key> {
+        await this.ready;
+        if (this.isFixed()) {
+            throw new Error(
+                "Cannot rotate an X25519 key set by SERVER_X25519_SECRET_KEY"
+            );
+        }
+
+        const now = this.now();
+        const key: ServerX25519Key = {
+            ...generateX25519KeyPair(),
+            createdAt: now,
+        };
+        const expiresAt = now + (this.options.rotationGraceMs ?? 0);
+        const retired = this.x25519Keys.map((old) => ({
+            ...old,
+            expiresAt: Math.min(old.expiresAt ?? expiresAt, expiresAt),
+        }));
+        this.x25519Keys = [
+            key,
+            ...retired.filter((old) => old.expiresAt > now),
+        ];
+        await this.save();
+        return key;
+    }
+
+    /**
+     * Rotate when the current key is older than rotationIntervalMs
+     * Resolves with the new key, or null when no rotation was due
+     */
+    public async rotateIfDue(): Promise<ServerX25519Key | null> {
+        await this.ready;
+        const interval = this.options.rotationIntervalMs ?? 0;
+        if (
+            interval <= 0 ||
+            this.isFixed() ||
+            this.now() - this.x25519Keys[0].createdAt < interval
+        ) {
+            return null;
+        }
+        return this.rotate();
+    }
+
+    // Read the key file, creating it on first start
+    private async load(): Promise<void> {
+        const stored = this.filePath ? await this.readKeyFile() : null;
+        const now = this.now();
+        if (stored) {
+            this.identity = stored.identity;
+            this.x25519Keys = stored.x25519Keys.filter(
+                (key) => key.expiresAt === undefined || key.expiresAt > now
+            );
+        } else {
+            this.x25519Keys = [{ ...generateX25519KeyPair(), createdAt: now }];
+            if (this.filePath) {
+                await this.save();
+            }
+        }
+
+        // A configured key stands in for the stored ones, without touching
+        // the file
+        if (this.options.x25519SecretKey !== undefined) {
+            this.x25519Keys = [
+                {
+                    ...x25519KeyPairFromSecretKey(
+                        this.options.x25519SecretKey
+                    ),
+                    createdAt: now,
+                },
+            ];
+        }
+    }
+
+    private async readKeyFile(): Promise<StoredKeys | null> {
+        const filePath = this.filePath!;
+        let contents: string;
+        try {
+            contents = await fs.readFile(filePath, "utf8");
+        } catch (error: any) {
+            if (error.code === "ENOENT") return null;
+            throw error;
+        }
+
+        // Tighten a key file someone made readable by others
+        const { mode } = await fs.stat(filePath);
+        if ((mode & 0o077) !== 0) {
+            await fs.chmod(filePath, FILE_MODE);
+        }
+
+        try {
+            return parseKeyFile(JSON.parse(contents));
+        } catch (error: any) {
+            throw new Error(
+                `${filePath} is not a valid server key file: ${error.message}`
+            );
+        }
+    }
+
+    private save(): Promise<void> {
+        const filePath = this.filePath;
+        if (!filePath) {
+            return Promise.resolve();
+        }
+        const contents: KeyFile = {
+            identitySecretKey: CryptoUtils.toHex(this.identity.secretKey),
+            x25519Keys: this.x25519Keys.map((key) => ({
+                secretKey: CryptoUtils.toHex(key.secretKey),
+                createdAt: key.createdAt,
+                expiresAt: key.expiresAt,
+            })),
+        };
+
+        const next = this.writes.then(async () => {
+            await fs.mkdir(path.dirname(filePath), {
+                recursive: true,
+                mode: DIR_MODE,
+            });
+            // Write then rename so a crash never leaves a half-written file;
+            // chmod in case the temp file was left behind with other modes
+            const tempPath = `${filePath}.tmp`;
+            await fs.writeFile(tempPath, JSON.stringify(contents, null, 2), {
+                mode: FILE_MODE,
+            });
+            await fs.chmod(tempPath, FILE_MODE);
+            await fs.rename(tempPath, filePath);
+        });
+        // Keep the queue going after a failed write; the caller still sees it
+        this.writes = next.catch(() => {});
+        return next;
+    }
+}
+
+/**
+ * X25519 keypair for a hex 32-byte secret key
+ */
+export function x25519KeyPairFromSecretKey(
+    secretKeyHex: string
+): X25519KeyPair {
+    const secretKey = CryptoUtils.fromHex(secretKeyHex);
+    if (secretKey.length !== nacl.box.secretKeyLength) {
+        throw new Error("X25519 secret key must be 32 bytes hex");
+    }
+    return {
+        secretKey,
+        publicKey: Buffer.from(nacl.scalarMult.base(secretKey)),
+    };
+}
+
+function generateX25519KeyPair(): X25519KeyPair {
+    const keyPair = nacl.box.keyPair();
+    return {
+        secretKey: Buffer.from(keyPair.secretKey),
+        publicKey: Buffer.from(keyPair.publicKey),
+    };
+}
+
+function parseKeyFile(parsed: any): StoredKeys {
+    if (
+        typeof parsed?.identitySecretKey !== "string" ||
+        !Array.isArray(parsed.x25519Keys) ||
+        parsed.x25519Keys.length === 0
+    ) {
+        throw new Error("expected identitySecretKey and x25519Keys");
+    }
+    return {
+        identity: identityFromSecretKey(parsed.identitySecretKey),
+        x25519Keys: parsed.x25519Keys.map((key: any) => {
+            if (
+                typeof key?.createdAt !== "number" ||
+                (key.expiresAt !== undefined &&
+                    typeof key.expiresAt !== "number")
+            ) {
+                throw new Error("x25519Keys need createdAt timestamps");
+            }
+            return {
+                ...x25519KeyPairFromSecretKey(String(key.secretKey)),
+                createdAt: key.createdAt,
+                expiresAt: key.expiresAt,
+            };
+        }),
+    };
+}
+
+interface StoredKeys {
+    identity: IdentityKeyPair;
+    x25519Keys: ServerX25519Key[];
+}
+
+interface KeyFile {
+    /** Ed25519 secret key, hex */
+    identitySecretKey: string;
+    x25519Keys: { secretKey: string; createdAt: number; expiresAt?: number }[];
+}
+
+export interface X25519KeyPair {
+    /** X25519 public key (32 bytes) */
+    publicKey: Buffer;
+    /** X25519 secret key (32 bytes) */
+    secretKey: Buffer;
+}
+
+export interface ServerX25519Key extends X25519KeyPair {
+    /** When the key was created, in ms since the epoch */
+    createdAt: number;
+    /** Set once the key is rotated out: when it stops being accepted */
+    expiresAt?: number;
+}
+
+export interface ServerKeyStoreOptions {
+    /** Directory holding server-keys.json; keys stay in memory when unset */
+    dir?: string;
+    /** Hex X25519 secret key to use instead of the stored ones */
+    x25519SecretKey?: string;
+    /** Age at which rotateIfDue replaces the X25519 key; 0 never does */
+    rotationIntervalMs?: number;
+    /** How long a rotated X25519 key keeps working */
+    rotationGraceMs?: number;
+    /** Clock, in ms (default Date.now) */
+    now?: () => number;
+}
@@ -1,14 +1,33 @@
+import { OnionBuilder, OnionDestination } from "./onion/onion-builder";
+import { DEFAULT_SERVICE_NODES } from "./onion/default-service-nodes";
+import { startLocalServiceNodes } from "./onion/local-service-node";
+import { readTlsPinsFile } from "./onion/node-tls";
 import {
-    OnionBuilder,
-    OnionDestination,
-    ServiceNode,
-} from "./onion/onion-builder";
+    generateIdentityKeyPair,
+    identityFromSecretKey,
+} from "./onion/request-signing";
+import {
+    encryptMessage,
+    decryptMessage,
+    messagingKeyPairFromIdentity,
+} from "./onion/message-crypto";
+import { createServer } from "./server";
+import { loadServerConfig } from "./config/server-config";
 
 async function testOnionRequest() {
     try {
         console.log("🧪 Testing Onion Request Sending...\n");
 
-        const onionBuilder = new OnionBuilder(SERVICE_NODES, 3);
+        const onionBuilder = new OnionBuilder(DEFAULT_SERVICE_NODES, 3);
+        onionBuilder.setIdentity(loadIdentity());
+        // The public nodes use self-signed certificates: pin them with
+        // ONION_TLS_PINS, or set ONION_INSECURE_TLS=true to skip the checks
+        onionBuilder.setNodeTls({
+            insecure: process.env.ONION_INSECURE_TLS === "true",
+            pins: process.env.ONION_TLS_PINS
+                ? await readTlsPinsFile(process.env.ONION_TLS_PINS)
+                : undefined,
+        });
         // await onionBuilder.updateServiceNodes(3);
         console.log("📤 Sending onion request...");
 
@@ -18,6 +37,7 @@ async function testOnionRequest() {
             port: 443, // HTTPS port
             protocol: "https", // Protocol
             target: "/oxen/custom-endpoint/lsrpc", // Target endpoint
+            x25519_pubkey: process.env.SERVER_X25519_PUBKEY || "", // Printed by the server on startup
         };
 
         console.log("🚀 Testing onion request to custom server...");
@@ -56,38 +76,104 @@ async function testOnionRequest() {
     }
 }
 
-const SERVICE_NODES: ServiceNode[] = [
-    {
-        pubkey_ed25519:
-            "d458bccd428b87db4da22a20b41da2a5672d6d0e3976a24e9f3e594ac593abfd",
-        pubkey_x25519:
-            "5c27d9a28c3fe2c4ccc58359c661f34dcbbbfc96faa31d5e0de8450f054c8061",
-        public_ip: "185.219.84.241",
-        storage_lmq_port: 22020,
-        storage_port: 22021,
-        swarm_id: 17942340915444056063,
-    },
-    {
-        pubkey_ed25519:
-            "772b436c009f56c3cb27b78541d27ba41d3c3ac839784dad2d0295689083a027",
-        pubkey_x25519:
-            "dd3649b11681729d3607239d68c0181c046dcba3e4357fe968a3b0b5247cac27",
-        public_ip: "102.219.85.100",
-        storage_lmq_port: 20200,
-        storage_port: 22100,
-        swarm_id: 13402712491054596095,
-    },
-    {
-        pubkey_ed25519:
-            "ff7a9782e66b20bc29ee97c6c7591da1a72333df6e3e76ee85b4708cc6788c0b",
-        pubkey_x25519:
-            "3d723113a98838d576438176230613ea1dd478cfcb890383ba09272796813431",
-        public_ip: "154.12.246.164",
-        storage_lmq_port: 22020,
-        storage_port: 22021,
-        swarm_id: 18302628885633695743,
-    },
-];
-
-// Run the test
-testOnionRequest().catch(console.error);
+/**
+ * Run a real 3-hop onion request against server.ts using local service nodes
+ */
+async function testLocalOnionRequest() {
+    console.log("🧪 Testing Onion Request through local service nodes...\n");
+
+    // Keep demo messages out of the on-disk store unless MESSAGE_STORE says
+    // otherwise
+    const server = await createServer(
+        await loadServerConfig({ MESSAGE_STORE: "memory", ...process.env })
+    );
+    const serverX25519 = (await server.keys.getCurrentKey()).publicKey;
+    const serverEd25519 = (await server.keys.getIdentity()).publicKey;
+
+    const { network, serviceNodes } = await startLocalServiceNodes(3);
+    try {
+        const identity = loadIdentity();
+        const messagingKeys = messagingKeyPairFromIdentity(identity);
+        const onionBuilder = new OnionBuilder(serviceNodes, 3);
+        onionBuilder.setIdentity(identity);
+        onionBuilder.setNodeProtocol("http");
+        // Local nodes all share 127.0.0.1 and swarm 0
+        onionBuilder.setPathDiversity({
+            distinctSwarms: false,
+            distinctSubnets: false,
+        });
+
+        const localServer: OnionDestination = {
+            host: "localhost",
+            port: server.port,
+            protocol: "http",
+            target: "/oxen/custom-endpoint/lsrpc",
+            x25519_pubkey: serverX25519.toString("hex"),
+            ed25519_pubkey: serverEd25519.toString("hex"),
+        };
+
+        // Note to self: encrypted to our own messaging key
+        const encrypted = await encryptMessage(
+            "Hello local onion",
+            messagingKeys.publicKey.toString("hex"),
+            messagingKeys
+        );
+        const sent = await onionBuilder.sendOnionRequest(
+            { method: "send_message", params: { ...encrypted } },
+            localServer
+        );
+        console.log("✅ send_message:", sent.statusCode, sent.body);
+
+        const msgId = JSON.parse(sent.body).data.msgId;
+        const fetched = await onionBuilder.sendOnionRequest(
+            { method: "get_message", params: { msgId } },
+            localServer
+        );
+        console.log("✅ get_message:", fetched.statusCode, fetched.body);
+        const plaintext = await decryptMessage(
+            JSON.parse(fetched.body).data,
+            messagingKeys
+        );
+        console.log("✅ Decrypted message:", plaintext.toString());
+
+        const health = await onionBuilder.sendOnionRequestV4(
+            { method: "GET", endpoint: "/health" },
+            localServer
+        );
+        console.log(
+            "✅ v4 GET /health:",
+            health.status,
+            health.body?.toString()
+        );
+
+        // Published keys, checked against the server's Ed25519 identity
+        const refreshed = await onionBuilder.refreshDestinationKeys(
+            localServer
+        );
+        console.log("✅ Verified server X25519 key:", refreshed.x25519_pubkey);
+    } catch (error: unknown) {
+        const errorMessage =
+            error instanceof Error ? error.message : String(error);
+        console.error("❌ Local onion request failed:", errorMessage);
+    } finally {
+        await network.stop();
+        await server.close();
+        process.exit(0);
+    }
+}
+
+// Identity key from IDENTITY_SECRET_KEY (hex seed or secret key), or a
+// fresh one for this run
+function loadIdentity() {
+    const secretKeyHex = process.env.IDENTITY_SECRET_KEY;
+    return secretKeyHex
+        ? identityFromSecretKey(secretKeyHex)
+        : generateIdentityKeyPair();
+}
+
+// Run the test (ONION_NETWORK=oxen uses the public default service nodes)
+if (process.env.ONION_NETWORK === "oxen") {
+    testOnionRequest().catch(console.error);
+} else {
+    testLocalOnionRequest().catch(console.error);
+}
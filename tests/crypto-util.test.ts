@@ -0,0 +1,239 @@
+import { describe, it, expect } from "@jest/globals";
+import * as nacl from "tweetnacl";
+import { HopEncryption, CryptoUtils } from "../onion/crypto-util";
+import {
+    DecryptionError,
+    UnsupportedEncryptionError,
+} from "../onion/onion-errors";
+
+function createHop(): { hop: HopEncryption; publicKey: Buffer } {
+    const keyPair = nacl.box.keyPair();
+    const publicKey = Buffer.from(keyPair.publicKey);
+    return {
+        hop: new HopEncryption(Buffer.from(keyPair.secretKey), publicKey),
+        publicKey,
+    };
+}
+
+describe("HopEncryption", () => {
+    it("derives the same symmetric key on both sides", () => {
+        const alice = nacl.box.keyPair();
+        const bob = nacl.box.keyPair();
+        const hop = new HopEncryption(
+            Buffer.from(alice.secretKey),
+            Buffer.from(alice.publicKey)
+        );
+
+        const aliceKey = hop.deriveSymmetricKey(
+            Buffer.from(alice.secretKey),
+            Buffer.from(bob.publicKey)
+        );
+        const bobKey = hop.deriveSymmetricKey(
+            Buffer.from(bob.secretKey),
+            Buffer.from(alice.publicKey)
+        );
+
+        expect(aliceKey).toHaveLength(32);
+        expect(aliceKey.equals(bobKey)).toBe(true);
+    });
+
+    it("round trips AES-GCM encryption between two keypairs", async () => {
+        const sender = createHop();
+        const recipient = createHop();
+        const plaintext = Buffer.from("hello onion");
+
+        const ciphertext = await sender.hop.encrypt(
+            "aes-gcm",
+            plaintext,
+            recipient.publicKey
+        );
+        const decrypted = await recipient.hop.decrypt(
+            "aes-gcm",
+            ciphertext,
+            sender.publicKey
+        );
+
+        // 12 byte IV + ciphertext + 16 byte tag
+        expect(ciphertext).toHaveLength(12 + plaintext.length + 16);
+        expect(decrypted.toString()).toBe("hello onion");
+    });
+
+    it("uses a fresh IV for every encryption", async () => {
+        const sender = createHop();
+        const recipient = createHop();
+        const plaintext = Buffer.from("same input");
+
+        const first = await sender.hop.encrypt(
+            "gcm",
+            plaintext,
+            recipient.publicKey
+        );
+        const second = await sender.hop.encrypt(
+            "gcm",
+            plaintext,
+            recipient.publicKey
+        );
+
+        expect(first.equals(second)).toBe(false);
+    });
+
+    it("fails to decrypt with the wrong key", async () => {
+        const sender = createHop();
+        const recipient = createHop();
+        const stranger = createHop();
+
+        const ciphertext = await sender.hop.encrypt(
+            "aes-gcm",
+            Buffer.from("secret"),
+            recipient.publicKey
+        );
+
+        await expect(
+            stranger.hop.decrypt("aes-gcm", ciphertext, sender.publicKey)
+        ).rejects.toBeInstanceOf(DecryptionError);
+    });
+
+    it("fails to decrypt tampered ciphertext", async () => {
+        const sender = createHop();
+        const recipient = createHop();
+
+        const ciphertext = await sender.hop.encrypt(
+            "aes-gcm",
+            Buffer.from("secret"),
+            recipient.publicKey
+        );
+        ciphertext[ciphertext.length - 1] ^= 0xff;
+
+        await expect(
+            recipient.hop.decrypt("aes-gcm", ciphertext, sender.publicKey)
+        ).rejects.toThrow();
+    });
+
+    it("rejects ciphertext shorter than IV and tag", async () => {
+        const { hop, publicKey } = createHop();
+
+        await expect(
+            hop.decrypt("aes-gcm", Buffer.alloc(20), publicKey)
+        ).rejects.toThrow("Ciphertext too short for AES-GCM");
+    });
+
+    it("round trips XChaCha20-Poly1305 between client and server", async () => {
+        const clientKeys = nacl.box.keyPair();
+        const serverKeys = nacl.box.keyPair();
+        const client = new HopEncryption(
+            Buffer.from(clientKeys.secretKey),
+            Buffer.from(clientKeys.publicKey),
+            false
+        );
+        const server = new HopEncryption(
+            Buffer.from(serverKeys.secretKey),
+            Buffer.from(serverKeys.publicKey),
+            true
+        );
+        const plaintext = Buffer.from("hello xchacha");
+
+        const request = await client.encrypt(
+            "xchacha20",
+            plaintext,
+            Buffer.from(serverKeys.publicKey)
+        );
+        const reply = await server.encrypt(
+            "xchacha20-poly1305",
+            plaintext,
+            Buffer.from(clientKeys.publicKey)
+        );
+
+        // 24 byte nonce + ciphertext + 16 byte tag
+        expect(request).toHaveLength(24 + plaintext.length + 16);
+        expect(
+            (
+                await server.decrypt(
+                    "xchacha20",
+                    request,
+                    Buffer.from(clientKeys.publicKey)
+                )
+            ).toString()
+        ).toBe("hello xchacha");
+        expect(
+            (
+                await client.decrypt(
+                    "xchacha20",
+                    reply,
+                    Buffer.from(serverKeys.publicKey)
+                )
+            ).toString()
+        ).toBe("hello xchacha");
+    });
+
+    it("orders XChaCha20 key derivation by client and server role", () => {
+        const clientKeys = nacl.box.keyPair();
+        const serverKeys = nacl.box.keyPair();
+        const client = new HopEncryption(
+            Buffer.from(clientKeys.secretKey),
+            Buffer.from(clientKeys.publicKey),
+            false
+        );
+        const server = new HopEncryption(
+            Buffer.from(serverKeys.secretKey),
+            Buffer.from(serverKeys.publicKey),
+            true
+        );
+        const otherClient = new HopEncryption(
+            Buffer.from(serverKeys.secretKey),
+            Buffer.from(serverKeys.publicKey),
+            false
+        );
+
+        const clientKey = client.deriveXChaCha20Key(
+            Buffer.from(serverKeys.publicKey)
+        );
+
+        expect(
+            clientKey.equals(
+                server.deriveXChaCha20Key(Buffer.from(clientKeys.publicKey))
+            )
+        ).toBe(true);
+        expect(
+            clientKey.equals(
+                otherClient.deriveXChaCha20Key(
+                    Buffer.from(clientKeys.publicKey)
+                )
+            )
+        ).toBe(false);
+    });
+
+    it("does not decrypt XChaCha20 ciphertext as AES-GCM", async () => {
+        const sender = createHop();
+        const recipient = createHop();
+
+        const ciphertext = await sender.hop.encrypt(
+            "xchacha20",
+            Buffer.from("secret"),
+            recipient.publicKey
+        );
+
+        await expect(
+            recipient.hop.decrypt("aes-gcm", ciphertext, sender.publicKey)
+        ).rejects.toThrow();
+    });
+
+    it("rejects unsupported encryption types", async () => {
+        const { hop, publicKey } = createHop();
+
+        await expect(
+            hop.encrypt("rot13", Buffer.from("x"), publicKey)
+        ).rejects.toThrow(UnsupportedEncryptionError);
+    });
+});
+
+describe("CryptoUtils", () => {
+    it("round trips hex and base64", () => {
+        const buffer = Buffer.from([0, 1, 254, 255]);
+
+        expect(CryptoUtils.toHex(buffer)).toBe("0001feff");
+        expect(CryptoUtils.fromHex("0001feff").equals(buffer)).toBe(true);
+        expect(
+            CryptoUtils.fromBase64(CryptoUtils.toBase64(buffer)).equals(buffer)
+        ).toBe(true);
+    });
+});
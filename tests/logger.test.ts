@@ -0,0 +1,177 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+    Logger,
+    LoggerOptions,
+    createLogger,
+    currentLogContext,
+    redact,
+    requestIdFrom,
+    runWithLogContext,
+} from "../onion/logger";
+import { HopRejectedError } from "../onion/onion-errors";
+
+function capture(options: LoggerOptions = {}) {
+    const lines: { line: string; level: string }[] = [];
+    const logger = new Logger({
+        name: "test",
+        write: (line, level) => lines.push({ line, level }),
+        ...options,
+    });
+    return { logger, lines };
+}
+
+describe("Logger", () => {
+    it("only writes levels up to its threshold", () => {
+        const { logger, lines } = capture({ level: "warn" });
+
+        logger.error("e");
+        logger.warn("w");
+        logger.info("i");
+        logger.trace("t");
+
+        expect(lines.map((entry) => entry.level)).toEqual(["error", "warn"]);
+        expect(logger.isLevelEnabled("debug")).toBe(false);
+    });
+
+    it("writes nothing when silent", () => {
+        const { logger, lines } = capture({ level: "silent" });
+
+        logger.error("e");
+
+        expect(lines).toEqual([]);
+    });
+
+    it("writes one JSON object per line in json format", () => {
+        const { logger, lines } = capture({ format: "json" });
+
+        logger.child({ component: "paths" }).info("built", { hops: 3 });
+
+        expect(JSON.parse(lines[0].line)).toEqual({
+            time: expect.any(String),
+            level: "info",
+            logger: "test",
+            msg: "built",
+            component: "paths",
+            hops: 3,
+        });
+    });
+
+    it("prints fields after the message in pretty format", () => {
+        const { logger, lines } = capture();
+
+        logger.warn("retrying", { attempt: 2 });
+
+        expect(lines[0].line).toBe('⚠️ [test] retrying {"attempt":2}');
+    });
+
+    it("adds the request id bound by runWithLogContext across awaits", async () => {
+        const { logger, lines } = capture({ format: "json" });
+
+        await runWithLogContext({ requestId: "abc" }, async () => {
+            await new Promise((resolve) => setImmediate(resolve));
+            logger.info("inside");
+        });
+        logger.info("outside");
+
+        expect(JSON.parse(lines[0].line).requestId).toBe("abc");
+        expect(JSON.parse(lines[1].line).requestId).toBeUndefined();
+        expect(currentLogContext()).toEqual({});
+    });
+
+    it("redacts key material and message content by default", () => {
+        const { logger, lines } = capture({ level: "debug", format: "json" });
+
+        logger.debug("encrypting", {
+            symmetricKey: Buffer.alloc(32, 1),
+            iv: "00ff",
+            params: { msgId: "1" },
+            blob: Buffer.alloc(4),
+            node: "10.0.0.1:22100",
+        });
+
+        expect(JSON.parse(lines[0].line)).toMatchObject({
+            symmetricKey: "[redacted]",
+            iv: "[redacted]",
+            params: "[redacted]",
+            blob: "[redacted 4 bytes]",
+            node: "10.0.0.1:22100",
+        });
+    });
+
+    it("shows secrets only when asked to", () => {
+        const { logger, lines } = capture({
+            level: "debug",
+            format: "json",
+            showSecrets: true,
+        });
+
+        logger.debug("encrypting", { symmetricKey: Buffer.from([1, 255]) });
+
+        expect(JSON.parse(lines[0].line).symmetricKey).toBe("01ff");
+    });
+});
+
+describe("redact", () => {
+    it("keeps error names, messages and codes", () => {
+        expect(
+            redact({ error: new HopRejectedError("1.2.3.4:1", 502, "bad") })
+        ).toEqual({
+            error: {
+                name: "HopRejectedError",
+                message: "Node 1.2.3.4:1 rejected onion request with status 502: bad",
+                code: "HOP_REJECTED",
+                stack: expect.any(String),
+            },
+        });
+    });
+
+    it("cuts cycles but not repeated objects", () => {
+        const shared = { id: 1 };
+        const looped: Record<string, unknown> = { shared, again: shared };
+        looped.self = looped;
+
+        expect(redact(looped)).toEqual({
+            shared: { id: 1 },
+            again: { id: 1 },
+            self: "[circular]",
+        });
+    });
+});
+
+describe("createLogger", () => {
+    it("reads LOG_LEVEL, LOG_FORMAT and LOG_SHOW_SECRETS", () => {
+        const lines: string[] = [];
+        const logger = createLogger(
+            "env",
+            { write: (line) => lines.push(line) },
+            { LOG_LEVEL: "trace", LOG_FORMAT: "json", LOG_SHOW_SECRETS: "true" }
+        );
+
+        logger.trace("t", { nonce: "n" });
+
+        expect(JSON.parse(lines[0])).toMatchObject({ level: "trace", nonce: "n" });
+    });
+
+    it("is silent under NODE_ENV=test unless LOG_LEVEL is set", () => {
+        expect(
+            createLogger("env", {}, { NODE_ENV: "test" }).isLevelEnabled("error")
+        ).toBe(false);
+    });
+
+    it("rejects unknown settings", () => {
+        expect(() => createLogger("env", {}, { LOG_LEVEL: "loud" })).toThrow(
+            "LOG_LEVEL must be one of"
+        );
+        expect(() => createLogger("env", {}, { LOG_FORMAT: "xml" })).toThrow(
+            "LOG_FORMAT must be pretty or json"
+        );
+    });
+});
+
+describe("requestIdFrom", () => {
+    it("keeps a short token and replaces anything else", () => {
+        expect(requestIdFrom("abc-123")).toBe("abc-123");
+        expect(requestIdFrom("has spaces")).toMatch(/^[0-9a-f]{16}$/);
+        expect(requestIdFrom(undefined)).toMatch(/^[0-9a-f]{16}$/);
+    });
+});
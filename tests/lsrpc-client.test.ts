@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals";
+import * as nacl from "tweetnacl";
+import { CryptoUtils } from "../onion/crypto-util";
+import { OnionBuilder } from "../onion/onion-builder";
+import { Logger } from "../onion/logger";
+import { startLocalServiceNodes } from "../onion/local-service-node";
+import { generateIdentityKeyPair } from "../onion/request-signing";
+import { generateMessagingKeyPair } from "../onion/message-crypto";
+import {
+    LsrpcClient,
+    DirectTransport,
+    OnionTransport,
+    LsrpcTransport,
+} from "../onion/lsrpc-client";
+import {
+    LsrpcError,
+    LsrpcAuthError,
+    LsrpcNotFoundError,
+    LsrpcValidationError,
+} from "../onion/onion-errors";
+import { createServer, ServerHandle } from "../server";
+import { loadServerConfig } from "../config/server-config";
+
+const quietLogger = new Logger({ level: "silent" });
+
+const serverKeyPair = nacl.box.keyPair();
+let server: ServerHandle;
+let baseUrl: string;
+
+beforeAll(async () => {
+    server = await createServer(
+        await loadServerConfig({
+            NODE_ENV: "test",
+            PORT: "0",
+            HOST: "127.0.0.1",
+            SERVER_X25519_SECRET_KEY: CryptoUtils.toHex(
+                Buffer.from(serverKeyPair.secretKey)
+            ),
+        })
+    );
+    baseUrl = `http://127.0.0.1:${server.port}`;
+});
+
+afterAll(async () => {
+    await server.close();
+});
+
+function directClient() {
+    return new LsrpcClient(new DirectTransport(baseUrl), {
+        identity: generateIdentityKeyPair(),
+    });
+}
+
+describe("LsrpcClient over DirectTransport", () => {
+    it("sends, fetches and decrypts a note to self", async () => {
+        const client = directClient();
+
+        const sent = await client.sendMessage("hello me", { ttl: 60000 });
+        const fetched = await client.getMessage(sent.msgId);
+
+        expect(fetched).toMatchObject({
+            msgId: sent.msgId,
+            deliveryStatus: "pending",
+            encrypted: true,
+        });
+        expect(await client.readMessage(fetched)).toBe("hello me");
+    });
+
+    it("delivers messages between two users", async () => {
+        const aliceIdentity = generateIdentityKeyPair();
+        const bobIdentity = generateIdentityKeyPair();
+        const alice = new LsrpcClient(new DirectTransport(baseUrl), {
+            identity: aliceIdentity,
+        });
+        const bob = new LsrpcClient(new DirectTransport(baseUrl), {
+            identity: bobIdentity,
+        });
+        const bobMailbox = CryptoUtils.toHex(bobIdentity.publicKey);
+
+        await alice.sendMessage("hi bob", {
+            recipientKey: bob.getMessagingPublicKey(),
+            recipient: bobMailbox,
+        });
+        const page = await bob.listMessages({ recipient: bobMailbox });
+        const acked = await bob.ackMessage(page.messages[0].msgId, "read");
+
+        expect(page.hasMore).toBe(false);
+        expect(await bob.readMessage(page.messages[0])).toBe("hi bob");
+        expect(acked.deliveryStatus).toBe("read");
+    });
+
+    it("fetches several messages in one batch", async () => {
+        const client = directClient();
+        const first = await client.sendMessage("one");
+        const second = await client.sendMessage("two");
+
+        const results = await client.getMessages([
+            first.msgId,
+            "missing",
+            second.msgId,
+        ]);
+
+        expect(results[0]).toMatchObject({ msgId: first.msgId });
+        expect(results[1]).toBeInstanceOf(LsrpcNotFoundError);
+        expect(results[2]).toMatchObject({ msgId: second.msgId });
+    });
+
+    it("raises typed errors for error replies", async () => {
+        const client = directClient();
+        const { msgId } = await client.sendMessage("bye");
+        await client.deleteMessage(msgId);
+
+        const missing = client.getMessage(msgId);
+        await expect(missing).rejects.toBeInstanceOf(LsrpcNotFoundError);
+        await expect(missing).rejects.toMatchObject({
+            status: 404,
+            code: "NOT_FOUND",
+            details: { msgId },
+        });
+        await expect(
+            client.ackMessage(msgId, "lost" as never)
+        ).rejects.toBeInstanceOf(LsrpcValidationError);
+    });
+
+    it("sends unsigned requests without an identity", async () => {
+        const client = new LsrpcClient(new DirectTransport(baseUrl), {
+            messagingKeys: generateMessagingKeyPair(),
+        });
+
+        await expect(client.sendMessage("anon")).rejects.toMatchObject({
+            constructor: LsrpcAuthError,
+            code: "SIGNATURE_REQUIRED",
+        });
+    });
+
+    it("rejects replies that are not LSRPC envelopes", async () => {
+        const transport: LsrpcTransport = {
+            send: async () => ({ status: 200, body: { hello: "world" } }),
+        };
+
+        await expect(
+            new LsrpcClient(transport).getMessage("1")
+        ).rejects.toMatchObject({
+            constructor: LsrpcError,
+            code: "INVALID_RESPONSE",
+        });
+    });
+});
+
+describe("LsrpcClient over OnionTransport", () => {
+    it("routes requests and error replies through a local onion path", async () => {
+        const { network, serviceNodes } = await startLocalServiceNodes(3);
+        try {
+            const builder = new OnionBuilder(serviceNodes, 3, quietLogger);
+            builder.setNodeProtocol("http");
+            builder.setPathDiversity({
+                distinctSwarms: false,
+                distinctSubnets: false,
+            });
+            const transport = new OnionTransport(builder, {
+                host: "127.0.0.1",
+                port: server.port,
+                protocol: "http",
+                target: "/oxen/custom-endpoint/lsrpc",
+                x25519_pubkey: CryptoUtils.toHex(
+                    Buffer.from(serverKeyPair.publicKey)
+                ),
+            });
+            const client = new LsrpcClient(transport, {
+                identity: generateIdentityKeyPair(),
+            });
+
+            const sent = await client.sendMessage("through the onion");
+            const fetched = await client.getMessage(sent.msgId);
+
+            expect(await client.readMessage(fetched)).toBe(
+                "through the onion"
+            );
+            await expect(client.getMessage("missing")).rejects.toBeInstanceOf(
+                LsrpcNotFoundError
+            );
+        } finally {
+            await network.stop();
+        }
+    });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+    encryptMessage,
+    decryptMessage,
+    generateMessagingKeyPair,
+    messagingKeyPairFromIdentity,
+} from "../onion/message-crypto";
+import { generateIdentityKeyPair } from "../onion/request-signing";
+import { DecryptionError } from "../onion/onion-errors";
+
+describe("message crypto", () => {
+    const alice = generateMessagingKeyPair();
+    const bob = generateMessagingKeyPair();
+    const bobKey = bob.publicKey.toString("hex");
+
+    it.each(["aes-gcm", "xchacha20"] as const)(
+        "lets the recipient and the sender decrypt %s messages",
+        async (encType) => {
+            const message = await encryptMessage(
+                "hi bob",
+                bobKey,
+                alice,
+                encType
+            );
+            const ciphertext = Buffer.from(message.ciphertext, "base64");
+
+            expect(message).toMatchObject({
+                encType,
+                senderKey: alice.publicKey.toString("hex"),
+                recipientKey: bobKey,
+            });
+            expect(ciphertext.toString()).not.toContain("hi bob");
+            const asRecipient = await decryptMessage(message, bob);
+            const asSender = await decryptMessage(message, alice);
+            expect(asRecipient.toString()).toBe("hi bob");
+            expect(asSender.toString()).toBe("hi bob");
+        }
+    );
+
+    it("refuses keys that are not a party to the message", async () => {
+        const message = await encryptMessage("hi bob", bobKey, alice);
+
+        await expect(
+            decryptMessage(message, generateMessagingKeyPair())
+        ).rejects.toThrow(DecryptionError);
+    });
+
+    it("detects tampered ciphertext", async () => {
+        const message = await encryptMessage("hi bob", bobKey, alice);
+        const ciphertext = Buffer.from(message.ciphertext, "base64");
+        ciphertext[ciphertext.length - 1] ^= 1;
+
+        await expect(
+            decryptMessage(
+                { ...message, ciphertext: ciphertext.toString("base64") },
+                bob
+            )
+        ).rejects.toThrow(DecryptionError);
+    });
+
+    it("derives the same messaging keys from an identity every time", () => {
+        const identity = generateIdentityKeyPair();
+
+        expect(messagingKeyPairFromIdentity(identity)).toEqual(
+            messagingKeyPairFromIdentity(identity)
+        );
+    });
+
+    it("rejects malformed recipient keys", async () => {
+        await expect(encryptMessage("x", "abcd", alice)).rejects.toThrow(
+            "recipientKey must be a 32-byte hex X25519 public key"
+        );
+    });
+});
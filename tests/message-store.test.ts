@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+    MemoryMessageStore,
+    MessageStore,
+    StoredMessage,
+} from "../storage/message-store";
+import { JsonLogMessageStore } from "../storage/json-log-message-store";
+
+let now = 1_000_000;
+const clock = () => now;
+
+function message(
+    msgId: string,
+    ttl: number = 1000,
+    fields: Partial<StoredMessage> = {}
+): StoredMessage {
+    return {
+        msgId,
+        msg: `message ${msgId}`,
+        createdAt: now,
+        expiresAt: now + ttl,
+        ...fields,
+    };
+}
+
+let tempDir: string;
+
+beforeEach(async () => {
+    now = 1_000_000;
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "messages-"));
+});
+
+afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe.each([
+    ["MemoryMessageStore", () => new MemoryMessageStore({ now: clock })],
+    [
+        "JsonLogMessageStore",
+        () =>
+            new JsonLogMessageStore(path.join(tempDir, "messages.jsonl"), {
+                now: clock,
+            }),
+    ],
+])("%s", (_, createStore: () => MessageStore) => {
+    it("stores, replaces and deletes messages", async () => {
+        const store = createStore();
+
+        await store.put(message("1"));
+        await store.put({ ...message("1"), msg: "edited" });
+
+        expect(await store.get("1")).toMatchObject({ msg: "edited" });
+        expect(await store.delete("1")).toBe(true);
+        expect(await store.delete("1")).toBe(false);
+        expect(await store.get("1")).toBeNull();
+        await store.close();
+    });
+
+    it("lists live messages by conversation, recipient and time", async () => {
+        const store = createStore();
+        await store.put(message("b", 1000, { conversationId: "c1" }));
+        await store.put(message("a", 1000, { conversationId: "c1" }));
+        await store.put(message("gone", 10, { conversationId: "c1" }));
+        now += 10;
+        await store.put(
+            message("c", 1000, { conversationId: "c1", recipient: "bob" })
+        );
+        await store.put(message("d", 1000, { conversationId: "c2" }));
+
+        const ids = async (query: Parameters<MessageStore["list"]>[0]) =>
+            (await store.list(query)).map((stored) => stored.msgId);
+
+        expect(await ids({ conversationId: "c1", limit: 10 })).toEqual([
+            "a",
+            "b",
+            "c",
+        ]);
+        expect(await ids({ conversationId: "c1", limit: 2 })).toEqual([
+            "a",
+            "b",
+        ]);
+        expect(
+            await ids({ conversationId: "c1", since: now - 10, limit: 10 })
+        ).toEqual(["c"]);
+        expect(await ids({ recipient: "bob", limit: 10 })).toEqual(["c"]);
+        // a and b share a createdAt; paging after a still returns b
+        const { createdAt } = (await store.get("a"))!;
+        expect(
+            await ids({
+                conversationId: "c1",
+                after: { createdAt, msgId: "a" },
+                limit: 10,
+            })
+        ).toEqual(["b", "c"]);
+        await store.close();
+    });
+
+    it("hides expired messages and purges them", async () => {
+        const store = createStore();
+        await store.put(message("short", 100));
+        await store.put(message("long", 5000));
+        expect(await store.count()).toBe(2);
+
+        now += 100;
+
+        expect(await store.count()).toBe(1);
+        expect(await store.get("short")).toBeNull();
+        expect(await store.get("long")).not.toBeNull();
+        expect(await store.purgeExpired()).toBe(1);
+        expect(await store.purgeExpired()).toBe(0);
+        await store.close();
+    });
+
+    it("keeps stored sizes per recipient key until a purge", async () => {
+        const store = createStore();
+        await store.put(message("a", 100, { recipientKey: "k1" }));
+        await store.put(message("b", 5000, { recipientKey: "k1" }));
+        await store.put(message("c", 5000, { recipientKey: "k2" }));
+        // Moving a message to another key moves its count with it
+        await store.put(message("c", 5000, { recipientKey: "k1" }));
+        await store.delete("b");
+
+        expect(await store.size()).toBe(2);
+        expect(await store.sizeForRecipientKey("k1")).toBe(2);
+        expect(await store.sizeForRecipientKey("k2")).toBe(0);
+
+        now += 100;
+        expect(await store.sizeForRecipientKey("k1")).toBe(2);
+        await store.purgeExpired();
+
+        expect(await store.size()).toBe(1);
+        expect(await store.sizeForRecipientKey("k1")).toBe(1);
+        await store.close();
+    });
+});
+
+describe("JsonLogMessageStore persistence", () => {
+    const logPath = () => path.join(tempDir, "nested", "messages.jsonl");
+
+    it("replays puts and deletes after a restart", async () => {
+        const first = new JsonLogMessageStore(logPath(), { now: clock });
+        await first.put(message("kept"));
+        await first.put(message("deleted"));
+        await first.delete("deleted");
+        await first.close();
+
+        const second = new JsonLogMessageStore(logPath(), { now: clock });
+
+        expect(await second.get("kept")).toEqual(message("kept"));
+        expect(await second.get("deleted")).toBeNull();
+    });
+
+    it("skips messages that expired while the server was down", async () => {
+        const first = new JsonLogMessageStore(logPath(), { now: clock });
+        await first.put(message("old", 100));
+        await first.close();
+
+        now += 200;
+        const second = new JsonLogMessageStore(logPath(), { now: clock });
+
+        expect(await second.get("old")).toBeNull();
+    });
+
+    it("ignores a torn last line", async () => {
+        const first = new JsonLogMessageStore(logPath(), { now: clock });
+        await first.put(message("1"));
+        await first.close();
+        await fs.appendFile(logPath(), '{"op":"put","message":{"msg');
+
+        const second = new JsonLogMessageStore(logPath(), { now: clock });
+        expect(await second.get("1")).toEqual(message("1"));
+        await second.put(message("2"));
+        await second.close();
+
+        const third = new JsonLogMessageStore(logPath(), { now: clock });
+        expect(await third.get("2")).toEqual(message("2"));
+    });
+
+    it("compacts the log once updates make up most of it", async () => {
+        const store = new JsonLogMessageStore(logPath(), {
+            now: clock,
+            minCompactLines: 10,
+        });
+        await store.put(message("kept"));
+        for (let i = 0; i < 25; i++) {
+            await store.put(message("updated", 1000, { status: i }));
+        }
+        await store.close();
+
+        const lines = (await fs.readFile(logPath(), "utf8")).trim().split("\n");
+        expect(lines.length).toBeLessThan(10);
+        const reloaded = new JsonLogMessageStore(logPath(), { now: clock });
+        expect(await reloaded.get("kept")).toEqual(message("kept"));
+        expect(await reloaded.get("updated")).toMatchObject({ status: 24 });
+    });
+
+    it("compacts the log when expired messages are purged", async () => {
+        const store = new JsonLogMessageStore(logPath(), { now: clock });
+        await store.put(message("a", 100));
+        await store.put(message("b", 5000));
+        await store.delete("b");
+        const kept = message("c", 5000);
+        await store.put(kept);
+
+        now += 100;
+        await store.purgeExpired();
+        await store.close();
+
+        const lines = (await fs.readFile(logPath(), "utf8"))
+            .trim()
+            .split("\n")
+            .map((line) => JSON.parse(line));
+        expect(lines).toEqual([{ op: "put", message: kept }]);
+    });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+    MethodRegistry,
+    defineMethod,
+    runBatch,
+} from "../rpc/method-registry";
+import { schema } from "../rpc/schema";
+import {
+    LsrpcNotFoundError,
+    LsrpcPayloadTooLargeError,
+} from "../onion/onion-errors";
+
+describe("MethodRegistry", () => {
+    const registry = new MethodRegistry({
+        greet: defineMethod({
+            params: {
+                name: schema.string(),
+                times: schema.optional(schema.integer(1, 3)),
+                tone: schema.optional(schema.oneOf("warm", "dry")),
+            },
+            check: ({ name }) => {
+                if (name === "nobody") throw new LsrpcNotFoundError("nobody");
+            },
+            handle: async ({ name, times }, context: { prefix: string }) =>
+                `${context.prefix} ${name}`.repeat(times ?? 1),
+        }),
+    });
+
+    it("validates and dispatches to the matching handler", async () => {
+        const request = registry.validate({
+            method: "greet",
+            params: { name: "ann", times: 2 },
+        });
+
+        expect(await registry.dispatch(request, { prefix: "hi" })).toBe(
+            "hi annhi ann"
+        );
+    });
+
+    it("reports every invalid field", () => {
+        expect(() =>
+            registry.validate({
+                method: "greet",
+                params: { times: 9, tone: "loud" },
+            })
+        ).toThrow(
+            expect.objectContaining({
+                code: "INVALID_PARAMS",
+                message: "params.name must be a non-empty string",
+                details: {
+                    field: "params.name",
+                    errors: [
+                        {
+                            field: "params.name",
+                            message: "params.name must be a non-empty string",
+                        },
+                        {
+                            field: "params.times",
+                            message:
+                                "params.times must be a whole number between 1 and 3",
+                        },
+                        {
+                            field: "params.tone",
+                            message: 'params.tone must be "warm" or "dry"',
+                        },
+                    ],
+                },
+            })
+        );
+    });
+
+    it("runs cross-field checks after the schema", () => {
+        expect(() =>
+            registry.validate({ method: "greet", params: { name: "nobody" } })
+        ).toThrow(LsrpcNotFoundError);
+    });
+
+    it.each([
+        ["an unknown method", { method: "toString" }, "INVALID_METHOD"],
+        ["array params", { method: "greet", params: [] }, "INVALID_PARAMS"],
+        ["a non-object body", "greet", "PARSE_ERROR"],
+    ])("rejects %s", (_, body, code) => {
+        expect(() => registry.validate(body)).toThrow(
+            expect.objectContaining({ code })
+        );
+    });
+
+    it("limits params size per method", () => {
+        const limited = new MethodRegistry(
+            {
+                note: defineMethod({
+                    params: { text: schema.string() },
+                    handle: async () => null,
+                }),
+                post: defineMethod({
+                    maxParamsBytes: 100,
+                    params: { text: schema.string() },
+                    handle: async () => null,
+                }),
+            },
+            { maxParamsBytes: 30 }
+        );
+        const text = "x".repeat(40);
+
+        expect(() =>
+            limited.validate({ method: "note", params: { text } })
+        ).toThrow(
+            expect.objectContaining({
+                status: 413,
+                code: "PAYLOAD_TOO_LARGE",
+                details: { method: "note", maxBytes: 30, size: 51 },
+            })
+        );
+        expect(limited.validate({ method: "post", params: { text } })).toEqual(
+            { method: "post", params: { text } }
+        );
+        expect(() =>
+            limited.validate({
+                method: "post",
+                params: { text: "x".repeat(100) },
+            })
+        ).toThrow(LsrpcPayloadTooLargeError);
+    });
+});
+
+describe("runBatch", () => {
+    it("keeps going after failures and keeps the order", async () => {
+        const unexpected: unknown[] = [];
+
+        const results = await runBatch(
+            [1, 2, 3],
+            async (body) => {
+                if (body === 2) throw new LsrpcNotFoundError("no 2");
+                if (body === 3) throw new Error("boom");
+                return { success: true, body };
+            },
+            (error) => unexpected.push(error)
+        );
+
+        expect(results).toEqual([
+            { success: true, body: 1 },
+            { success: false, status: 404, error: "no 2", code: "NOT_FOUND" },
+            {
+                success: false,
+                status: 500,
+                error: "Internal server error",
+                code: "INTERNAL_ERROR",
+            },
+        ]);
+        expect(unexpected).toHaveLength(1);
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "@jest/globals";
+import { MetricsRegistry } from "../onion/metrics";
+
+describe("MetricsRegistry", () => {
+    it("counts by label set and returns the same counter for a name", async () => {
+        const registry = new MetricsRegistry();
+        const counter = registry.counter("requests_total", "Requests");
+
+        counter.inc({ status: 200, method: "get" });
+        registry
+            .counter("requests_total", "Requests")
+            .inc({ method: "get", status: "200" }, 2);
+        counter.inc({ method: "put", status: 500 });
+
+        expect(counter.get({ method: "get", status: 200 })).toBe(3);
+        expect(await registry.snapshot()).toEqual({
+            requests_total: {
+                type: "counter",
+                help: "Requests",
+                samples: [
+                    { labels: { method: "get", status: "200" }, value: 3 },
+                    { labels: { method: "put", status: "500" }, value: 1 },
+                ],
+            },
+        });
+        expect(() => counter.inc({}, -1)).toThrow(/cannot go down/);
+    });
+
+    it("rejects names Prometheus cannot read and clashing metric types", () => {
+        const registry = new MetricsRegistry();
+        registry.counter("requests_total", "Requests");
+
+        expect(() => registry.gauge("requests_total", "Requests")).toThrow(
+            /already registered as a counter/
+        );
+        expect(() => registry.counter("requests-total", "Requests")).toThrow(
+            /Invalid metric name/
+        );
+        expect(() =>
+            registry.counter("ok_total", "Ok").inc({ "bad-label": 1 })
+        ).toThrow(/Invalid metric label name/);
+    });
+
+    it("reads collected gauges when a snapshot is taken", async () => {
+        const registry = new MetricsRegistry();
+        let stored: number | undefined;
+        registry.gauge("stored", "Stored").collectWith(async () => stored);
+
+        expect((await registry.snapshot()).stored.samples).toEqual([]);
+        stored = 4;
+        expect((await registry.snapshot()).stored.samples).toEqual([
+            { labels: {}, value: 4 },
+        ]);
+    });
+
+    it("writes the Prometheus text format", async () => {
+        const registry = new MetricsRegistry();
+        registry
+            .counter("requests_total", "Requests\nby path")
+            .inc({ path: 'C:\\ "quoted"' });
+        registry.gauge("temperature", "Temperature").set({}, -1.5);
+        const latency = registry.histogram("latency_seconds", "Latency", [
+            1, 0.1,
+        ]);
+        latency.observe({ hops: 3 }, 0.05);
+        latency.observe({ hops: 3 }, 0.5);
+        latency.observe({ hops: 3 }, 2);
+
+        expect(await registry.toPrometheus()).toBe(
+            [
+                "# HELP requests_total Requests\\nby path",
+                "# TYPE requests_total counter",
+                'requests_total{path="C:\\\\ \\"quoted\\""} 1',
+                "# HELP temperature Temperature",
+                "# TYPE temperature gauge",
+                "temperature -1.5",
+                "# HELP latency_seconds Latency",
+                "# TYPE latency_seconds histogram",
+                'latency_seconds_bucket{hops="3",le="0.1"} 1',
+                'latency_seconds_bucket{hops="3",le="1"} 2',
+                'latency_seconds_bucket{hops="3",le="+Inf"} 3',
+                'latency_seconds_sum{hops="3"} 2.55',
+                'latency_seconds_count{hops="3"} 3',
+                "",
+            ].join("\n")
+        );
+    });
+});
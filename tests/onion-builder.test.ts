@@ -0,0 +1,769 @@
+import { describe, it, expect, afterEach, jest } from "@jest/globals";
+import express from "express";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as nacl from "tweetnacl";
+import { HopEncryption, CryptoUtils } from "../onion/crypto-util";
+import { decodeOnionFrame } from "../onion/onion-decoder";
+import {
+    OnionBuilder,
+    OnionDestination,
+    ServiceNode,
+    toSnodeDestination,
+} from "../onion/onion-builder";
+import { Logger } from "../onion/logger";
+import {
+    RetryError,
+    PathConstructionError,
+    DestinationValidationError,
+    HopRejectedError,
+    NodeUnreachableError,
+} from "../onion/onion-errors";
+import { startLocalServiceNodes } from "../onion/local-service-node";
+import { MetricsRegistry } from "../onion/metrics";
+import { ServiceNodeDirectory } from "../onion/service-node-directory";
+
+const quietLogger = new Logger({ level: "silent" });
+
+// Service nodes answer node list requests in random order
+function byPubkey(nodes: ServiceNode[]): ServiceNode[] {
+    return [...nodes].sort((a, b) =>
+        a.pubkey_ed25519.localeCompare(b.pubkey_ed25519)
+    );
+}
+
+interface TestNode {
+    serviceNode: ServiceNode;
+    hop: HopEncryption;
+}
+
+function createNodes(count: number): TestNode[] {
+    return Array.from({ length: count }, (_, i) => {
+        const keyPair = nacl.box.keyPair();
+        return {
+            serviceNode: {
+                pubkey_ed25519: CryptoUtils.toHex(
+                    Buffer.from(nacl.sign.keyPair().publicKey)
+                ),
+                pubkey_x25519: CryptoUtils.toHex(
+                    Buffer.from(keyPair.publicKey)
+                ),
+                public_ip: `10.0.${i + 1}.1`,
+                storage_lmq_port: 20200,
+                storage_port: 22100,
+                swarm_id: i,
+            },
+            hop: new HopEncryption(
+                Buffer.from(keyPair.secretKey),
+                Buffer.from(keyPair.publicKey),
+                true
+            ),
+        };
+    });
+}
+
+function createDestination(): {
+    destination: OnionDestination;
+    hop: HopEncryption;
+} {
+    const keyPair = nacl.box.keyPair();
+    return {
+        destination: {
+            host: "example.org",
+            port: 443,
+            protocol: "https",
+            target: "/oxen/custom-endpoint/lsrpc",
+            x25519_pubkey: CryptoUtils.toHex(Buffer.from(keyPair.publicKey)),
+        },
+        hop: new HopEncryption(
+            Buffer.from(keyPair.secretKey),
+            Buffer.from(keyPair.publicKey),
+            true
+        ),
+    };
+}
+
+// Decrypt one [size][ciphertext][{"ephemeral_key","enc_type"}] layer
+async function peel(
+    hop: HopEncryption,
+    layer: Buffer,
+    encType: string = "aes-gcm"
+) {
+    const frame = decodeOnionFrame(layer);
+    expect(frame.json.enc_type).toBe(encType);
+    const plaintext = await hop.decrypt(
+        encType,
+        frame.data,
+        CryptoUtils.fromHex(frame.json.ephemeral_key as string)
+    );
+    return decodeOnionFrame(plaintext);
+}
+
+// Re-wrap a peeled blob the way a service node forwards it
+function forward(blob: Buffer, routing: Record<string, unknown>): Buffer {
+    const size = Buffer.alloc(4);
+    size.writeUInt32LE(blob.length, 0);
+    return Buffer.concat([
+        size,
+        blob,
+        Buffer.from(
+            JSON.stringify({
+                ephemeral_key: routing.ephemeral_key,
+                enc_type: routing.enc_type,
+            })
+        ),
+    ]);
+}
+
+describe("OnionBuilder.buildOnionRequest", () => {
+    it("builds layers that each hop can peel in order", async () => {
+        const nodes = createNodes(3);
+        const { destination, hop: serverHop } = createDestination();
+        const builder = new OnionBuilder(
+            nodes.map((node) => node.serviceNode),
+            3
+        );
+        const path = await builder.buildOnionPath(3);
+        const hopFor = (ed25519: string) =>
+            nodes.find((node) => node.serviceNode.pubkey_ed25519 === ed25519)!
+                .hop;
+
+        const payload = { method: "get_message", params: { msgId: "42" } };
+        const request = await builder.buildOnionRequest(
+            payload,
+            path,
+            destination
+        );
+
+        expect(request.entryNode).toEqual(path[0]);
+
+        let layer: Buffer = Buffer.from(request.encryptedPayload);
+        for (let i = 0; i < path.length - 1; i++) {
+            const inner = await peel(hopFor(path[i].ed25519_pubkey), layer);
+            expect(inner.json.destination).toBe(path[i + 1].ed25519_pubkey);
+            layer = forward(inner.data, inner.json);
+        }
+
+        const last = await peel(
+            hopFor(path[path.length - 1].ed25519_pubkey),
+            layer
+        );
+        expect(last.json).toMatchObject({
+            host: "example.org",
+            port: 443,
+            protocol: "https",
+            target: "/oxen/custom-endpoint/lsrpc",
+            enc_type: "aes-gcm",
+        });
+        expect(last.json.ephemeral_key).toBe(
+            CryptoUtils.toHex(
+                Buffer.from(request.finalEphemeralKeyPair.publicKey)
+            )
+        );
+
+        // Only the destination server can open the final blob
+        const final = await peel(serverHop, forward(last.data, last.json));
+        expect(JSON.parse(final.data.toString())).toEqual(payload);
+        expect(final.json).toEqual({
+            headers: { "Content-Type": "application/json" },
+        });
+    });
+
+    it("does not expose the payload to the exit node", async () => {
+        const nodes = createNodes(1);
+        const { destination } = createDestination();
+        const builder = new OnionBuilder([nodes[0].serviceNode], 1);
+        const path = await builder.buildOnionPath(1);
+
+        const request = await builder.buildOnionRequest(
+            { method: "send_message", params: { msg: "top secret" } },
+            path,
+            destination
+        );
+        const inner = await peel(
+            nodes[0].hop,
+            Buffer.from(request.encryptedPayload)
+        );
+
+        expect(inner.data.toString()).not.toContain("top secret");
+    });
+});
+
+describe("OnionBuilder snode destinations", () => {
+    it("routes the last hop to the destination node by ed25519 key", async () => {
+        const nodes = createNodes(2);
+        const [relay, snode] = nodes;
+        const builder = new OnionBuilder([relay.serviceNode], 1);
+        const payload = { method: "oxend_request", params: {} };
+
+        const request = await builder.buildOnionRequest(
+            payload,
+            await builder.buildOnionPath(1),
+            {
+                type: "snode",
+                ed25519_pubkey: snode.serviceNode.pubkey_ed25519,
+                x25519_pubkey: snode.serviceNode.pubkey_x25519,
+            }
+        );
+
+        const last = await peel(
+            relay.hop,
+            Buffer.from(request.encryptedPayload)
+        );
+        expect(last.json.destination).toBe(snode.serviceNode.pubkey_ed25519);
+        expect(last.json.host).toBeUndefined();
+
+        const final = await peel(snode.hop, forward(last.data, last.json));
+        expect(JSON.parse(final.data.toString())).toEqual(payload);
+    });
+
+    it("fetches the node list from a service node through an onion path", async () => {
+        const { network, serviceNodes } = await startLocalServiceNodes(5);
+        try {
+            const builder = new OnionBuilder(
+                serviceNodes.slice(0, 4),
+                2,
+                quietLogger
+            );
+            builder.setNodeProtocol("http");
+            builder.setPathDiversity({
+                distinctSwarms: false,
+                distinctSubnets: false,
+            });
+
+            expect(
+                byPubkey(await builder.fetchServiceNodesViaOnion(10))
+            ).toEqual(byPubkey(serviceNodes));
+
+            // Enough nodes are known, so updates skip the seed nodes
+            await builder.updateServiceNodes(10);
+            expect(byPubkey(builder.getServiceNodes())).toEqual(
+                byPubkey(serviceNodes)
+            );
+        } finally {
+            await network.stop();
+        }
+    });
+
+    it("confirms a random sample of nodes against another node's full list", async () => {
+        const { network, serviceNodes } = await startLocalServiceNodes(8);
+        try {
+            const builder = new OnionBuilder(serviceNodes, 2, quietLogger);
+            builder.setNodeProtocol("http");
+            builder.setPathDiversity({
+                distinctSwarms: false,
+                distinctSubnets: false,
+            });
+            const directory = new ServiceNodeDirectory({ minNodes: 4 });
+            directory.setNodes(serviceNodes);
+            builder.setNodeDirectory(directory);
+            const fetchFromSeeds = jest.spyOn(builder, "fetchServiceNodes");
+
+            // Two samples of 4 out of 8 overlap without being equal
+            await builder.updateServiceNodes(4);
+
+            const nodes = builder.getServiceNodes();
+            expect(nodes).toHaveLength(4);
+            expect(serviceNodes).toEqual(expect.arrayContaining(nodes));
+            expect(fetchFromSeeds).not.toHaveBeenCalled();
+        } finally {
+            await network.stop();
+        }
+    });
+
+    it("falls back to the seed nodes when too few nodes are confirmed", async () => {
+        const { network, serviceNodes } = await startLocalServiceNodes(5);
+        try {
+            const builder = new OnionBuilder(serviceNodes, 2, quietLogger);
+            builder.setNodeProtocol("http");
+            builder.setPathDiversity({
+                distinctSwarms: false,
+                distinctSubnets: false,
+            });
+            const fetchFromSeeds = jest
+                .spyOn(builder, "fetchServiceNodes")
+                .mockResolvedValue(serviceNodes);
+
+            // A sample of 3 is below the directory's default minimum of 5
+            await builder.updateServiceNodes(3);
+
+            expect(fetchFromSeeds).toHaveBeenCalledWith(3);
+            expect(builder.getServiceNodes()).toEqual(serviceNodes);
+        } finally {
+            await network.stop();
+        }
+    });
+
+    it("keeps only the nodes two service nodes agree on", async () => {
+        const { network, serviceNodes } = await startLocalServiceNodes(5);
+        try {
+            // Every node slips its own made-up node into the list
+            serviceNodes.forEach((serviceNode, index) =>
+                network
+                    .getNode(serviceNode.pubkey_ed25519)!
+                    .setNodeList(() => [
+                        ...network.getServiceNodes(),
+                        {
+                            ...serviceNode,
+                            pubkey_ed25519: `${index}`.repeat(64),
+                            public_ip: `10.0.0.${index + 1}`,
+                        },
+                    ])
+            );
+            const builder = new OnionBuilder(serviceNodes, 2, quietLogger);
+            builder.setNodeProtocol("http");
+            builder.setPathDiversity({
+                distinctSwarms: false,
+                distinctSubnets: false,
+            });
+
+            await builder.updateServiceNodes(10);
+
+            expect(byPubkey(builder.getServiceNodes())).toEqual(
+                byPubkey(serviceNodes)
+            );
+        } finally {
+            await network.stop();
+        }
+    });
+
+    it("sends storage RPCs to one node and unwraps its replies", async () => {
+        const { network, serviceNodes } = await startLocalServiceNodes(3);
+        try {
+            const builder = new OnionBuilder(serviceNodes, 2, quietLogger);
+            builder.setNodeProtocol("http");
+            builder.setPathDiversity({
+                distinctSwarms: false,
+                distinctSubnets: false,
+            });
+            const snode = toSnodeDestination(serviceNodes[0]);
+            const pubkey = "05" + "ab".repeat(32);
+
+            const stored = await builder.sendSnodeRequest<{ hash: string }>(
+                { method: "store", params: { pubkey, data: "aGVsbG8=" } },
+                snode
+            );
+            expect(stored.statusCode).toBe(200);
+
+            const retrieved = await builder.sendSnodeRequest<{
+                messages: { hash: string; data: string }[];
+            }>({ method: "retrieve", params: { pubkey } }, snode);
+            expect(retrieved.body.messages).toEqual([
+                expect.objectContaining({
+                    hash: stored.body.hash,
+                    data: "aGVsbG8=",
+                }),
+            ]);
+
+            const deleted = await builder.sendSnodeRequest(
+                {
+                    method: "delete",
+                    params: { pubkey, messages: [stored.body.hash] },
+                },
+                snode
+            );
+            expect(deleted.body).toMatchObject({
+                deleted: [stored.body.hash],
+            });
+
+            // Requests never route through the destination node itself
+            expect(
+                builder.getNodeHealth().map((health) => health.ed25519_pubkey)
+            ).not.toContain(snode.ed25519_pubkey);
+
+            const rejected = await builder.sendSnodeRequest(
+                { method: "store", params: {} },
+                snode
+            );
+            expect(rejected).toEqual({
+                statusCode: 400,
+                body: "store requires pubkey and data",
+            });
+        } finally {
+            await network.stop();
+        }
+    });
+
+    it("requires snode destination keys", async () => {
+        const nodes = createNodes(2).map((node) => node.serviceNode);
+        const builder = new OnionBuilder(nodes, 1, quietLogger);
+
+        const error = await builder
+            .sendSnodeRequest(
+                { method: "retrieve", params: {} },
+                { ...toSnodeDestination(nodes[0]), x25519_pubkey: "abc" }
+            )
+            .catch((e) => e);
+
+        expect(error).toBeInstanceOf(DestinationValidationError);
+        expect(error.field).toBe("x25519_pubkey");
+    });
+
+    it("needs a destination node outside the path", async () => {
+        const nodes = createNodes(2).map((node) => node.serviceNode);
+        const builder = new OnionBuilder(nodes, 2, quietLogger);
+        builder.setRetryPolicy({ maxAttempts: 1 });
+
+        const error = (await builder
+            .fetchServiceNodesViaOnion(10)
+            .catch((e) => e)) as RetryError;
+
+        expect(error).toBeInstanceOf(RetryError);
+        expect(error.lastError).toBeInstanceOf(PathConstructionError);
+    });
+});
+
+describe("OnionBuilder encryption type", () => {
+    it("uses xchacha20 for every layer when requested per request", async () => {
+        const nodes = createNodes(2);
+        const { destination, hop: serverHop } = createDestination();
+        const builder = new OnionBuilder(
+            nodes.map((node) => node.serviceNode),
+            2
+        );
+        const path = await builder.buildOnionPath(2);
+        const hopFor = (ed25519: string) =>
+            nodes.find((node) => node.serviceNode.pubkey_ed25519 === ed25519)!
+                .hop;
+        const payload = { method: "get_message", params: {} };
+
+        const request = await builder.buildOnionRequest(
+            payload,
+            path,
+            destination,
+            { encType: "xchacha20" }
+        );
+        expect(request.encType).toBe("xchacha20");
+
+        const first = await peel(
+            hopFor(path[0].ed25519_pubkey),
+            Buffer.from(request.encryptedPayload),
+            "xchacha20"
+        );
+        const second = await peel(
+            hopFor(path[1].ed25519_pubkey),
+            forward(first.data, first.json),
+            "xchacha20"
+        );
+        const final = await peel(
+            serverHop,
+            forward(second.data, second.json),
+            "xchacha20"
+        );
+
+        expect(JSON.parse(final.data.toString())).toEqual(payload);
+    });
+
+    it("uses the builder default when no per-request type is given", async () => {
+        const nodes = createNodes(1);
+        const { destination } = createDestination();
+        const builder = new OnionBuilder([nodes[0].serviceNode], 1);
+        builder.setEncryptionType("xchacha20");
+
+        const request = await builder.buildOnionRequest(
+            { method: "get_message", params: {} },
+            await builder.buildOnionPath(1),
+            destination
+        );
+
+        expect(request.encType).toBe("xchacha20");
+        await peel(
+            nodes[0].hop,
+            Buffer.from(request.encryptedPayload),
+            "xchacha20"
+        );
+    });
+});
+
+describe("OnionBuilder.buildOnionPath", () => {
+    it("selects distinct nodes", async () => {
+        const nodes = createNodes(5);
+        const builder = new OnionBuilder(nodes.map((node) => node.serviceNode));
+
+        const path = await builder.buildOnionPath(3);
+        const keys = new Set(path.map((node) => node.ed25519_pubkey));
+
+        expect(path).toHaveLength(3);
+        expect(keys.size).toBe(3);
+    });
+
+    it("fails when there are not enough active nodes", async () => {
+        const nodes = createNodes(2);
+        const builder = new OnionBuilder(
+            nodes.map((node) => node.serviceNode),
+            3,
+            quietLogger
+        );
+
+        const error = await builder.buildOnionPath(3).catch((e) => e);
+
+        expect(error).toBeInstanceOf(PathConstructionError);
+        expect(error.message).toContain("Unable to build onion path");
+        expect(error).toMatchObject({ required: 3, available: 2 });
+    });
+});
+
+describe("OnionBuilder path diversity", () => {
+    function sameSubnetNodes(): ServiceNode[] {
+        return createNodes(3).map((node, i) => ({
+            ...node.serviceNode,
+            public_ip: `10.9.9.${i + 1}`,
+        }));
+    }
+
+    it("never puts two nodes from the same swarm in a path", async () => {
+        const nodes = createNodes(4).map((node, i) => ({
+            ...node.serviceNode,
+            swarm_id: i < 3 ? 7 : 8,
+        }));
+        const builder = new OnionBuilder(nodes, 2, quietLogger);
+
+        const path = await builder.buildOnionPath(2);
+        const swarms = path.map(
+            (hop) =>
+                nodes.find((node) => node.pubkey_ed25519 === hop.ed25519_pubkey)!
+                    .swarm_id
+        );
+
+        expect(new Set(swarms).size).toBe(2);
+        await expect(builder.buildOnionPath(3)).rejects.toBeInstanceOf(
+            PathConstructionError
+        );
+    });
+
+    it("never puts two nodes from the same /24 subnet in a path", async () => {
+        const builder = new OnionBuilder(sameSubnetNodes(), 2, quietLogger);
+
+        await expect(builder.buildOnionPath(2)).rejects.toBeInstanceOf(
+            PathConstructionError
+        );
+    });
+
+    it("allows shared swarms and subnets when diversity is turned off", async () => {
+        const builder = new OnionBuilder(sameSubnetNodes(), 3, quietLogger);
+        builder.setPathDiversity({ distinctSubnets: false });
+
+        expect(await builder.buildOnionPath(3)).toHaveLength(3);
+    });
+
+    it("drops invalid service node records", () => {
+        const nodes = createNodes(2).map((node) => node.serviceNode);
+        const builder = new OnionBuilder([
+            ...nodes,
+            { ...nodes[0], pubkey_ed25519: "not-a-key" },
+        ]);
+
+        expect(builder.getServiceNodes()).toEqual(nodes);
+    });
+});
+
+describe("OnionBuilder.sendOnionRequest", () => {
+    it("requires a destination x25519 pubkey", async () => {
+        const builder = new OnionBuilder(createNodes(3).map((n) => n.serviceNode));
+        const { destination } = createDestination();
+
+        const error = await builder
+            .sendOnionRequest(
+                { method: "get_message", params: {} },
+                { ...destination, x25519_pubkey: "abcd" }
+            )
+            .catch((e) => e);
+
+        expect(error).toBeInstanceOf(DestinationValidationError);
+        expect(error).toMatchObject({
+            code: "INVALID_DESTINATION",
+            field: "x25519_pubkey",
+        });
+    });
+});
+
+describe("OnionBuilder retries", () => {
+    const servers: http.Server[] = [];
+
+    // Fake guard node answering every onion request with a fixed status
+    async function startGuard(status: number): Promise<number> {
+        const app = express();
+        app.post("/onion_req/v2", (req, res) => {
+            res.status(status).send(`status ${status}`);
+        });
+        const server = await new Promise<http.Server>((resolve) => {
+            const listening = app.listen(0, "127.0.0.1", () =>
+                resolve(listening)
+            );
+        });
+        servers.push(server);
+        return (server.address() as AddressInfo).port;
+    }
+
+    function guardNode(port: number): ServiceNode {
+        const node = createNodes(1)[0].serviceNode;
+        return { ...node, public_ip: "127.0.0.1", storage_port: port };
+    }
+
+    function createBuilder(nodes: ServiceNode[], maxAttempts: number) {
+        const builder = new OnionBuilder(nodes, 1, quietLogger);
+        builder.setNodeProtocol("http");
+        builder.setRetryPolicy({
+            maxAttempts,
+            baseDelayMs: 0,
+            maxDelayMs: 0,
+        });
+        return builder;
+    }
+
+    afterEach(async () => {
+        await Promise.all(
+            servers
+                .splice(0)
+                .map(
+                    (server) =>
+                        new Promise((resolve) => server.close(resolve))
+                )
+        );
+    });
+
+    it("retries guard 5xx responses and lists every attempt", async () => {
+        const ports = [await startGuard(502), await startGuard(503)];
+        const builder = createBuilder(ports.map(guardNode), 3);
+        const { destination } = createDestination();
+
+        const error = (await builder
+            .sendOnionRequest({ method: "get_message", params: {} }, destination)
+            .catch((e) => e)) as RetryError;
+
+        expect(error).toBeInstanceOf(RetryError);
+        expect(error.message).toContain(
+            "Failed to send onion request after 3 attempts"
+        );
+        expect(error.attempts).toHaveLength(3);
+        for (const attempt of error.attempts) {
+            expect(ports.map((port) => `127.0.0.1:${port}`)).toContain(
+                attempt.node
+            );
+            expect(attempt.error).toMatch(/status 50[23]/);
+        }
+        expect(error.lastError).toBeInstanceOf(HopRejectedError);
+    });
+
+    it("does not retry guard 4xx responses", async () => {
+        const port = await startGuard(400);
+        const builder = createBuilder([guardNode(port)], 3);
+        const { destination } = createDestination();
+
+        const error = (await builder
+            .sendOnionRequest({ method: "get_message", params: {} }, destination)
+            .catch((e) => e)) as RetryError;
+
+        expect(error.attempts).toEqual([
+            {
+                attempt: 1,
+                node: `127.0.0.1:${port}`,
+                error: `Node 127.0.0.1:${port} rejected onion request with status 400: status 400`,
+            },
+        ]);
+        expect(error.lastError).toMatchObject({
+            status: 400,
+            body: "status 400",
+        });
+    });
+
+    it("counts failed requests by the error that ended them", async () => {
+        const port = await startGuard(502);
+        const builder = createBuilder([guardNode(port)], 2);
+        const { destination } = createDestination();
+
+        await builder
+            .sendOnionRequest({ method: "get_message", params: {} }, destination)
+            .catch(() => undefined);
+
+        const metrics = await builder.getMetrics();
+        expect(metrics.onion_requests_total.samples).toEqual([
+            { labels: { outcome: "HOP_REJECTED" }, value: 1 },
+        ]);
+        // 502 bodies do not name a node, so no node is blamed
+        expect(metrics.onion_node_failures_total.samples).toEqual([]);
+        // A pool of two, plus one to replace the path discarded on retry
+        expect(metrics.onion_path_builds_total.samples).toEqual([
+            { labels: { result: "success" }, value: 3 },
+        ]);
+        expect(metrics.onion_request_duration_seconds.samples).toEqual([]);
+    });
+
+    it("retries connection errors over a new path", async () => {
+        const closedPort = await startGuard(200);
+        await new Promise((resolve) => servers.pop()!.close(resolve));
+        const builder = createBuilder([guardNode(closedPort)], 2);
+        const { destination } = createDestination();
+
+        const error = (await builder
+            .sendOnionRequest({ method: "get_message", params: {} }, destination)
+            .catch((e) => e)) as RetryError;
+
+        expect(error.attempts).toHaveLength(2);
+        expect(error.attempts[0].error).toContain("ECONNREFUSED");
+        expect(error.lastError).toBeInstanceOf(NodeUnreachableError);
+        expect(builder.getNodeHealth()[0].failures).toBe(2);
+        const metrics = await builder.getMetrics();
+        expect(metrics.onion_node_failures_total.samples).toEqual([
+            { labels: { node: `127.0.0.1:${closedPort}` }, value: 2 },
+        ]);
+    });
+});
+
+describe("OnionBuilder metrics", () => {
+    it("reports request latency by hop count and guard node", async () => {
+        const { network, serviceNodes } = await startLocalServiceNodes(3);
+        try {
+            const builder = new OnionBuilder(serviceNodes, 2, quietLogger);
+            builder.setNodeProtocol("http");
+            builder.setPathDiversity({
+                distinctSwarms: false,
+                distinctSubnets: false,
+            });
+            const registry = new MetricsRegistry();
+            builder.setMetrics(registry);
+            const snode = toSnodeDestination(serviceNodes[0]);
+
+            for (let i = 0; i < 3; i++) {
+                await builder.sendSnodeRequest(
+                    { method: "retrieve", params: { pubkey: "05" } },
+                    snode
+                );
+            }
+
+            const metrics = await builder.getMetrics();
+            expect(metrics.onion_requests_total.samples).toEqual([
+                { labels: { outcome: "success" }, value: 3 },
+            ]);
+            const latencies = metrics.onion_request_duration_seconds;
+            expect(latencies.type).toBe("histogram");
+            if (latencies.type !== "histogram") return;
+            const guards = serviceNodes.map(
+                (node) => `${node.public_ip}:${node.storage_port}`
+            );
+            expect(
+                latencies.samples.reduce((sum, sample) => sum + sample.count, 0)
+            ).toBe(3);
+            for (const sample of latencies.samples) {
+                expect(sample.labels.hops).toBe("2");
+                expect(guards).toContain(sample.labels.guard);
+            }
+
+            expect(await registry.toPrometheus()).toContain(
+                'onion_requests_total{outcome="success"} 3'
+            );
+
+            // The nodes the builder was given have no known age
+            expect(metrics.onion_snode_list_age_seconds.samples).toEqual([]);
+            const directory = new ServiceNodeDirectory({ minNodes: 1 });
+            await directory.refresh(async () => serviceNodes);
+            builder.setNodeDirectory(directory);
+            expect(
+                (await builder.getMetrics()).onion_snode_list_age_seconds
+                    .samples
+            ).toEqual([{ labels: {}, value: expect.any(Number) }]);
+        } finally {
+            await network.stop();
+        }
+    });
+});
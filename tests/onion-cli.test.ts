@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+    CliUsageError,
+    DEFAULT_NODE_FILE,
+    destinationFromUrl,
+    parseCliArgs,
+} from "../cli/cli-options";
+import { main } from "../cli/onion-cli";
+import { ServiceNodeDirectory } from "../onion/service-node-directory";
+import type { ServiceNode } from "../onion/onion-builder";
+
+const PUBKEY = "ab".repeat(32);
+
+function node(index: number): ServiceNode {
+    const hex = index.toString(16).padStart(2, "0");
+    return {
+        pubkey_ed25519: hex.repeat(32),
+        pubkey_x25519: `f${hex}`.padEnd(64, "0"),
+        public_ip: `10.${index}.0.1`,
+        storage_lmq_port: 20200,
+        storage_port: 22100,
+        swarm_id: index,
+    };
+}
+
+describe("parseCliArgs", () => {
+    it("fills in defaults from the environment", () => {
+        expect(
+            parseCliArgs(["send", "hi there"], {
+                SERVER_X25519_PUBKEY: PUBKEY,
+                RECIPIENT_X25519_PUBKEY: "cd".repeat(32),
+            })
+        ).toEqual({
+            command: "send",
+            args: ["hi there"],
+            url: undefined,
+            pubkey: PUBKEY,
+            hops: 3,
+            encType: "aes-gcm",
+            nodeFile: DEFAULT_NODE_FILE,
+            tlsPinsFile: undefined,
+            insecureTls: false,
+            json: false,
+            verbose: false,
+            recipientKey: "cd".repeat(32),
+            recipient: undefined,
+            conversationId: undefined,
+            ttl: undefined,
+            limit: 20,
+        });
+    });
+
+    it("reads flags, which win over the environment", () => {
+        expect(
+            parseCliArgs(
+                [
+                    "get",
+                    "123",
+                    "-l",
+                    "-k",
+                    PUBKEY,
+                    "--hops",
+                    "2",
+                    "-e",
+                    "xchacha20",
+                    "--nodes",
+                    "nodes.json",
+                    "--tls-pins",
+                    "pins.json",
+                    "--json",
+                ],
+                {
+                    SERVER_X25519_PUBKEY: "00",
+                    SERVICE_NODES_FILE: "env.json",
+                    ONION_TLS_PINS: "env-pins.json",
+                }
+            )
+        ).toMatchObject({
+            command: "get",
+            args: ["123"],
+            url: "http://localhost:3001",
+            pubkey: PUBKEY,
+            hops: 2,
+            encType: "xchacha20",
+            nodeFile: "nodes.json",
+            tlsPinsFile: "pins.json",
+            json: true,
+        });
+    });
+
+    it("keeps quotes in message text intact", () => {
+        expect(parseCliArgs(["send", `it's "quoted"`], {}).args).toEqual([
+            `it's "quoted"`,
+        ]);
+    });
+
+    it.each([
+        [[], "Missing command"],
+        [["fetch"], "Unknown command: fetch"],
+        [["get"], "get needs a message id"],
+        [["path", "extra"], "Unexpected argument for path: extra"],
+        [["health", "-u", "http://a", "-l"], "Use either --url or --local"],
+        [
+            ["path", "--tls-pins", "pins.json", "--insecure-tls"],
+            "Use either --tls-pins or --insecure-tls",
+        ],
+        [["path", "--hops", "0"], "--hops must be a positive whole number"],
+        [["send", "-e", "rot13"], "--enc-type must be aes-gcm or xchacha20"],
+        [["path", "--bogus"], "Unknown option"],
+    ])("rejects %j", (argv, message) => {
+        expect(() => parseCliArgs(argv, {})).toThrow(CliUsageError);
+        expect(() => parseCliArgs(argv, {})).toThrow(message);
+    });
+});
+
+describe("destinationFromUrl", () => {
+    it("targets the LSRPC endpoint on the URL's host", () => {
+        expect(destinationFromUrl("https://abc.ngrok-free.app", PUBKEY)).toEqual(
+            {
+                host: "abc.ngrok-free.app",
+                port: 443,
+                protocol: "https",
+                target: "/oxen/custom-endpoint/lsrpc",
+                x25519_pubkey: PUBKEY,
+            }
+        );
+        expect(destinationFromUrl("http://localhost:3001", PUBKEY)).toMatchObject(
+            { host: "localhost", port: 3001, protocol: "http" }
+        );
+    });
+
+    it("needs a valid server key", () => {
+        expect(() => destinationFromUrl("http://localhost", "00")).toThrow(
+            "Missing or invalid server X25519 public key"
+        );
+    });
+});
+
+describe("main", () => {
+    let tempDir: string;
+    let output: string[];
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "onion-cli-"));
+        output = [];
+        jest.spyOn(console, "log").mockImplementation((line) => {
+            output.push(String(line));
+        });
+        jest.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    async function saveNodes(nodes: ServiceNode[]): Promise<string> {
+        const filePath = path.join(tempDir, "nodes.json");
+        const directory = new ServiceNodeDirectory({ filePath });
+        directory.setNodes(nodes);
+        await directory.save();
+        return filePath;
+    }
+
+    it("lists the nodes from the node file as JSON", async () => {
+        const filePath = await saveNodes([node(1), node(2)]);
+
+        const code = await main(["list-nodes", "--json", "-n", filePath]);
+
+        expect(code).toBe(0);
+        expect(JSON.parse(output.join("\n"))).toMatchObject({
+            source: filePath,
+            nodes: [node(1), node(2)],
+        });
+    });
+
+    it("builds a path with the requested hop count", async () => {
+        const filePath = await saveNodes([node(1), node(2), node(3)]);
+
+        const code = await main(["path", "--hops", "2", "--json", "-n", filePath]);
+
+        expect(code).toBe(0);
+        expect(JSON.parse(output.join("\n")).path).toHaveLength(2);
+    });
+
+    it("exits with 1 and a JSON error when the command fails", async () => {
+        const filePath = await saveNodes([node(1)]);
+
+        const code = await main(["path", "--json", "-n", filePath]);
+
+        expect(code).toBe(1);
+        expect(JSON.parse(output.join("\n"))).toMatchObject({
+            code: "PATH_CONSTRUCTION_FAILED",
+        });
+    });
+
+    it("exits with 2 on bad input", async () => {
+        expect(await main(["nope"])).toBe(2);
+        expect(await main(["--help"])).toBe(0);
+    });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "@jest/globals";
+import * as nacl from "tweetnacl";
+import { HopEncryption, CryptoUtils } from "../onion/crypto-util";
+import {
+    OnionRequestDecoder,
+    decodeOnionFrame,
+} from "../onion/onion-decoder";
+
+function frame(data: Buffer, json: unknown): Buffer {
+    const size = Buffer.alloc(4);
+    size.writeUInt32LE(data.length, 0);
+    return Buffer.concat([size, data, Buffer.from(JSON.stringify(json))]);
+}
+
+function createServerHop(): { hop: HopEncryption; publicKey: Buffer } {
+    const keyPair = nacl.box.keyPair();
+    const publicKey = Buffer.from(keyPair.publicKey);
+    return {
+        hop: new HopEncryption(
+            Buffer.from(keyPair.secretKey),
+            publicKey,
+            true
+        ),
+        publicKey,
+    };
+}
+
+describe("decodeOnionFrame", () => {
+    it("splits size-prefixed data from trailing JSON", () => {
+        const decoded = decodeOnionFrame(
+            frame(Buffer.from("abc"), { headers: {} })
+        );
+
+        expect(decoded.data.toString()).toBe("abc");
+        expect(decoded.json).toEqual({ headers: {} });
+    });
+
+    it("allows a missing trailing JSON section", () => {
+        const size = Buffer.alloc(4);
+        size.writeUInt32LE(3, 0);
+
+        const decoded = decodeOnionFrame(
+            Buffer.concat([size, Buffer.from("abc")])
+        );
+
+        expect(decoded.json).toEqual({});
+    });
+
+    it("rejects frames whose size exceeds the body", () => {
+        const size = Buffer.alloc(4);
+        size.writeUInt32LE(100, 0);
+
+        expect(() =>
+            decodeOnionFrame(Buffer.concat([size, Buffer.from("abc")]))
+        ).toThrow("exceeds body length");
+    });
+
+    it("rejects truncated frames and non-object routing", () => {
+        expect(() => decodeOnionFrame(Buffer.from([1, 0]))).toThrow(
+            "too short"
+        );
+        expect(() => decodeOnionFrame(frame(Buffer.from("x"), [1]))).toThrow(
+            "must be a JSON object"
+        );
+    });
+});
+
+describe("OnionRequestDecoder", () => {
+    it("decodes plaintext payloads containing braces in strings", async () => {
+        const { hop } = createServerHop();
+        const decoder = new OnionRequestDecoder(hop);
+        const payload = {
+            method: "send_message",
+            params: { msg: "} not { a boundary" },
+        };
+
+        const decoded = await decoder.decode(
+            frame(Buffer.from(JSON.stringify(payload)), {
+                headers: { "Content-Type": "application/json" },
+            })
+        );
+
+        expect(decoded.payload).toEqual(payload);
+        expect(decoded.encrypted).toBe(false);
+        expect(decoded.routing.headers).toEqual({
+            "content-type": "application/json",
+        });
+        expect(decoded.routing.version).toBe(2);
+    });
+
+    it("decrypts payloads encrypted to the server key", async () => {
+        const server = createServerHop();
+        const ephemeral = nacl.box.keyPair();
+        const client = new HopEncryption(
+            Buffer.from(ephemeral.secretKey),
+            Buffer.from(ephemeral.publicKey)
+        );
+        const payload = { method: "get_message", params: { msgId: "1" } };
+
+        const ciphertext = await client.encrypt(
+            "aes-gcm",
+            frame(Buffer.from(JSON.stringify(payload)), {
+                headers: {},
+                version: 3,
+            }),
+            server.publicKey
+        );
+        const decoded = await new OnionRequestDecoder(server.hop).decode(
+            frame(ciphertext, {
+                ephemeral_key: CryptoUtils.toHex(
+                    Buffer.from(ephemeral.publicKey)
+                ),
+                enc_type: "aes-gcm",
+            })
+        );
+
+        expect(decoded.payload).toEqual(payload);
+        expect(decoded.encrypted).toBe(true);
+        expect(decoded.encType).toBe("aes-gcm");
+        expect(decoded.routing.version).toBe(3);
+        expect(
+            decoded.ephemeralKey!.equals(Buffer.from(ephemeral.publicKey))
+        ).toBe(true);
+    });
+
+    it("rejects payloads that are not JSON", async () => {
+        const { hop } = createServerHop();
+
+        await expect(
+            new OnionRequestDecoder(hop).decode(
+                frame(Buffer.from([0xff, 0x00]), { headers: {} })
+            )
+        ).rejects.toThrow("Onion payload is not valid JSON");
+    });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "@jest/globals";
+import { OnionPathManager } from "../onion/onion-path-manager";
+import type { OnionPathNode } from "../onion/onion-builder";
+
+const NODES: OnionPathNode[] = Array.from({ length: 6 }, (_, i) => ({
+    ed25519_pubkey: `ed${i}`,
+    x25519_pubkey: `x${i}`,
+    ip: `10.0.0.${i}`,
+    port: 22100,
+}));
+
+// Deterministic path builder: first pathLength nodes not excluded
+function createManager(options = {}) {
+    const builds: Set<string>[] = [];
+    const manager = new OnionPathManager(async (pathLength, excludeNodes) => {
+        builds.push(excludeNodes);
+        const available = NODES.filter(
+            (node) => !excludeNodes.has(node.ed25519_pubkey)
+        );
+        if (available.length < pathLength) {
+            throw new Error("Unable to build onion path");
+        }
+        return available.slice(0, pathLength);
+    }, options);
+    return { manager, builds };
+}
+
+describe("OnionPathManager", () => {
+    it("fills the pool once and reuses paths across requests", async () => {
+        const { manager, builds } = createManager({ poolSize: 2 });
+
+        const first = await manager.getPath(3);
+        const second = await manager.getPath(3);
+
+        expect(builds).toHaveLength(2);
+        expect(manager.getPaths()).toHaveLength(2);
+        expect(manager.getPaths()).toContain(first);
+        expect(manager.getPaths()).toContain(second);
+    });
+
+    it("records success and latency for every node in the path", async () => {
+        const { manager } = createManager({ poolSize: 1 });
+        const path = await manager.getPath(3);
+
+        manager.recordSuccess(path, 100);
+        manager.recordSuccess(path, 300);
+
+        const health = manager.getNodeHealth();
+        expect(health).toHaveLength(3);
+        expect(health[0]).toMatchObject({
+            ed25519_pubkey: "ed0",
+            successes: 2,
+            failures: 0,
+            lastLatencyMs: 300,
+            averageLatencyMs: 200,
+            dropped: false,
+        });
+    });
+
+    it("drops a node after repeated failures and rebuilds without it", async () => {
+        const { manager, builds } = createManager({
+            poolSize: 1,
+            maxNodeFailures: 2,
+            maxPathFailures: 10,
+        });
+        const path = await manager.getPath(3);
+
+        manager.recordFailure(path, path[0]);
+        expect(manager.getPaths()).toEqual([path]);
+
+        manager.recordFailure(path, path[0]);
+        expect(manager.getPaths()).toEqual([]);
+
+        const rebuilt = await manager.getPath(3);
+        expect(builds[builds.length - 1]).toEqual(new Set(["ed0"]));
+        expect(rebuilt.map((node) => node.ed25519_pubkey)).not.toContain(
+            "ed0"
+        );
+        expect(
+            manager.getNodeHealth().find((h) => h.ed25519_pubkey === "ed0")
+        ).toMatchObject({ failures: 2, consecutiveFailures: 2, dropped: true });
+    });
+
+    it("rebuilds a path after repeated unattributed failures", async () => {
+        const { manager } = createManager({
+            poolSize: 1,
+            maxPathFailures: 2,
+        });
+        const path = await manager.getPath(3);
+
+        manager.recordFailure(path);
+        manager.recordFailure(path);
+
+        expect(manager.getPaths()).toEqual([]);
+        expect(
+            manager.getNodeHealth().every((health) => health.failures === 0)
+        ).toBe(true);
+    });
+
+    it("resets consecutive failures on success", async () => {
+        const { manager } = createManager({
+            poolSize: 1,
+            maxNodeFailures: 2,
+        });
+        const path = await manager.getPath(3);
+
+        manager.recordFailure(path, path[1]);
+        manager.recordSuccess(path, 50);
+        manager.recordFailure(path, path[1]);
+
+        expect(manager.getPaths()).toEqual([path]);
+        expect(
+            manager.getNodeHealth().find((h) => h.ed25519_pubkey === "ed1")
+        ).toMatchObject({ failures: 2, consecutiveFailures: 1, dropped: false });
+    });
+
+    it("discards pooled paths of a different length", async () => {
+        const { manager } = createManager({ poolSize: 1 });
+
+        await manager.getPath(3);
+        const shorter = await manager.getPath(2);
+
+        expect(shorter).toHaveLength(2);
+        expect(manager.getPaths()).toEqual([shorter]);
+    });
+
+    it("builds a one-off path when every pooled path uses an avoided node", async () => {
+        const { manager, builds } = createManager({ poolSize: 1 });
+        const pooled = await manager.getPath(3);
+
+        const path = await manager.getPath(3, new Set(["ed0"]));
+
+        expect(path.map((node) => node.ed25519_pubkey)).toEqual([
+            "ed1",
+            "ed2",
+            "ed3",
+        ]);
+        expect(builds[1]).toEqual(new Set(["ed0"]));
+        expect(manager.getPaths()).toEqual([pooled]);
+    });
+});
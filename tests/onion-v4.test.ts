@@ -0,0 +1,104 @@
+import { describe, it, expect } from "@jest/globals";
+import { bencode, bdecode } from "../onion/bencode";
+import {
+    encodeV4Request,
+    decodeV4Request,
+    encodeV4Response,
+    decodeV4Response,
+} from "../onion/onion-v4";
+import { OnionDecodeError } from "../onion/onion-errors";
+
+describe("bencode", () => {
+    it("encodes strings, integers, lists and sorted dictionaries", () => {
+        expect(
+            bencode(["spam", 42, -3, { zeta: "z", alpha: [0] }]).toString()
+        ).toBe("l4:spami42ei-3ed5:alphali0ee4:zeta1:zee");
+    });
+
+    it("round-trips binary byte strings", () => {
+        const binary = Buffer.from([0, 255, 58, 101, 10]);
+
+        expect(bdecode(bencode([binary, { key: 7 }]))).toEqual([
+            binary,
+            { key: 7 },
+        ]);
+    });
+
+    it.each([
+        ["a truncated string", "5:abc"],
+        ["an unterminated list", "l1:a"],
+        ["a bad integer", "i01e"],
+        ["trailing bytes", "1:ax"],
+        ["a non-string dictionary key", "di1e1:ae"],
+    ])("rejects %s", (_, encoded) => {
+        expect(() => bdecode(Buffer.from(encoded))).toThrow(OnionDecodeError);
+    });
+});
+
+describe("v4 framing", () => {
+    it("round-trips a request with headers and a binary body", () => {
+        const body = Buffer.from([1, 2, 3, 0, 254]);
+
+        const decoded = decodeV4Request(
+            encodeV4Request({
+                method: "put",
+                endpoint: "/files/upload",
+                headers: { "Content-Type": "application/octet-stream" },
+                body,
+            })
+        );
+
+        expect(decoded).toEqual({
+            method: "PUT",
+            endpoint: "/files/upload",
+            headers: { "content-type": "application/octet-stream" },
+            body,
+        });
+    });
+
+    it("sends object bodies as JSON and allows no body", () => {
+        const withJson = decodeV4Request(
+            encodeV4Request({
+                method: "POST",
+                endpoint: "/lsrpc",
+                body: { method: "get_message" },
+            })
+        );
+        const withoutBody = decodeV4Request(
+            encodeV4Request({ method: "GET", endpoint: "/health" })
+        );
+
+        expect(JSON.parse(withJson.body!.toString())).toEqual({
+            method: "get_message",
+        });
+        expect(withoutBody.body).toBeUndefined();
+        expect(withoutBody.headers).toEqual({});
+    });
+
+    it("round-trips a response", () => {
+        const response = {
+            status: 404,
+            headers: { "content-type": "text/plain" },
+            body: Buffer.from("not here"),
+        };
+
+        expect(decodeV4Response(encodeV4Response(response))).toEqual(response);
+    });
+
+    it("rejects requests without a valid endpoint", () => {
+        const encoded = bencode([
+            JSON.stringify({ method: "GET", endpoint: "health" }),
+        ]);
+
+        expect(() => decodeV4Request(encoded)).toThrow(
+            "v4 request metadata must have an endpoint starting with /"
+        );
+    });
+
+    it("rejects metadata that is not a JSON object", () => {
+        expect(() => decodeV4Response(bencode(["[1]"]))).toThrow(
+            "v4 response metadata must be a JSON object"
+        );
+        expect(() => decodeV4Response(bencode([1]))).toThrow(OnionDecodeError);
+    });
+});
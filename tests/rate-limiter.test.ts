@@ -0,0 +1,56 @@
+import { describe, it, expect } from "@jest/globals";
+import { RateLimiter } from "../rpc/rate-limiter";
+
+describe("RateLimiter", () => {
+    it("allows a burst, then refuses until tokens refill", () => {
+        const limiter = new RateLimiter({ perSecond: 2, burst: 3 });
+
+        expect(
+            [1, 2, 3].map(() => limiter.take("a", 1, 0).allowed)
+        ).toEqual([true, true, true]);
+        expect(limiter.take("a", 1, 0)).toEqual({
+            allowed: false,
+            remaining: 0,
+            retryAfterMs: 500,
+        });
+        expect(limiter.take("a", 1, 500)).toEqual({
+            allowed: true,
+            remaining: 0,
+        });
+    });
+
+    it("keeps a separate bucket per key", () => {
+        const limiter = new RateLimiter({ perSecond: 1, burst: 1 });
+
+        expect(limiter.take("a", 1, 0).allowed).toBe(true);
+        expect(limiter.take("a", 1, 0).allowed).toBe(false);
+        expect(limiter.take("b", 1, 0).allowed).toBe(true);
+    });
+
+    it("never refills past the burst size", () => {
+        const limiter = new RateLimiter({ perSecond: 10, burst: 2 });
+
+        limiter.take("a", 1, 0);
+
+        expect(limiter.take("a", 1, 60 * 60 * 1000).remaining).toBe(1);
+    });
+
+    it("forgets buckets that have refilled", () => {
+        const limiter = new RateLimiter({ perSecond: 1, burst: 1 });
+        limiter.take("a", 1, 0);
+        limiter.take("b", 1, 0);
+
+        limiter.take("c", 1, 2 * 60 * 1000);
+
+        expect(limiter.size()).toBe(1);
+    });
+
+    it("rejects settings that would refuse everything", () => {
+        expect(() => new RateLimiter({ perSecond: 0, burst: 5 })).toThrow(
+            "perSecond > 0"
+        );
+        expect(() => new RateLimiter({ perSecond: 1, burst: 0 })).toThrow(
+            "burst of at least 1"
+        );
+    });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+    canonicalJson,
+    generateIdentityKeyPair,
+    identityFromSecretKey,
+    signRequest,
+    verifyRequestSignature,
+} from "../onion/request-signing";
+import { ReplayCache } from "../storage/replay-cache";
+
+// Ed25519 group order L
+const ED25519_ORDER = BigInt(
+    "0x1000000000000000000000000000000014def9dea2f79cd65812631a5cf5d3ed"
+);
+
+// The same signature with S replaced by S + L, which tweetnacl still accepts
+function malleate(signature: string): string {
+    const bytes = Buffer.from(signature, "hex");
+    const sBytes = Buffer.from(bytes.subarray(32)).reverse();
+    const s = BigInt(`0x${sBytes.toString("hex")}`);
+    const sPlusL = Buffer.from(
+        (s + ED25519_ORDER).toString(16).padStart(64, "0"),
+        "hex"
+    ).reverse();
+    return Buffer.concat([bytes.subarray(0, 32), sPlusL]).toString("hex");
+}
+
+describe("request signing", () => {
+    const identity = generateIdentityKeyPair();
+    const request = {
+        method: "send_message",
+        params: { msg: "hi", recipient: "bob" },
+    };
+
+    it("verifies its own signatures", () => {
+        const { auth } = signRequest(request, identity, 1000);
+
+        expect(auth).toMatchObject({
+            pubkey: identity.publicKey.toString("hex"),
+            timestamp: 1000,
+        });
+        expect(verifyRequestSignature(request, auth)).toBe(true);
+    });
+
+    it("ignores the key order of params", () => {
+        const { auth } = signRequest(request, identity);
+
+        const reordered = {
+            method: "send_message",
+            params: { recipient: "bob", msg: "hi" },
+        };
+
+        expect(verifyRequestSignature(reordered, auth)).toBe(true);
+    });
+
+    it.each([
+        ["method", { ...request, method: "get_message" }, {}],
+        ["params", { ...request, params: { msg: "bye" } }, {}],
+        ["timestamp", request, { timestamp: 1 }],
+        ["nonce", request, { nonce: "00".repeat(16) }],
+        [
+            "pubkey",
+            request,
+            {
+                pubkey: generateIdentityKeyPair().publicKey.toString("hex"),
+            },
+        ],
+        ["malformed signature", request, { signature: "zz" }],
+    ])("rejects a changed %s", (_, signedOver, authChanges) => {
+        const { auth } = signRequest(request, identity, 1000);
+
+        expect(
+            verifyRequestSignature(signedOver, { ...auth, ...authChanges })
+        ).toBe(false);
+    });
+
+    it("gives identical requests distinct signatures", () => {
+        const first = signRequest(request, identity, 1000);
+        const second = signRequest(request, identity, 1000);
+
+        expect(first.auth.signature).not.toBe(second.auth.signature);
+    });
+
+    it("loads identities from a seed or a secret key", () => {
+        const fromSecret = identityFromSecretKey(
+            identity.secretKey.toString("hex")
+        );
+        const fromSeed = identityFromSecretKey(
+            identity.secretKey.subarray(0, 32).toString("hex")
+        );
+
+        expect(fromSecret.publicKey).toEqual(identity.publicKey);
+        expect(fromSeed.publicKey).toEqual(identity.publicKey);
+        expect(() => identityFromSecretKey("abcd")).toThrow(
+            "Identity secret key must be"
+        );
+    });
+
+    it("rejects signatures with a non-canonical S", () => {
+        const { auth } = signRequest(request, identity);
+
+        expect(
+            verifyRequestSignature(request, {
+                ...auth,
+                signature: malleate(auth.signature),
+            })
+        ).toBe(false);
+    });
+
+    it("writes canonical JSON with sorted keys", () => {
+        const value = { b: [1, { d: 2, c: null }], a: "x", u: undefined };
+
+        expect(canonicalJson(value)).toBe('{"a":"x","b":[1,{"c":null,"d":2}]}');
+    });
+});
+
+describe("ReplayCache", () => {
+    it("rejects ids seen inside the window", () => {
+        const cache = new ReplayCache(100);
+
+        expect(cache.remember("sig", 1000, 1000)).toBe(true);
+        expect(cache.remember("sig", 1000, 1050)).toBe(false);
+    });
+
+    it("forgets ids once their window has passed", () => {
+        const cache = new ReplayCache(100);
+        cache.remember("old", 1000, 1000);
+
+        expect(cache.remember("new", 1200, 1200)).toBe(true);
+        expect(cache.size()).toBe(1);
+    });
+
+    it("sweeps expired ids at most once per window", () => {
+        const cache = new ReplayCache(100);
+        cache.remember("a", 1000, 1000);
+        cache.remember("b", 960, 1050);
+
+        // b has expired, but the last sweep was less than a window ago
+        expect(cache.remember("c", 1080, 1080)).toBe(true);
+        expect(cache.size()).toBe(3);
+        expect(cache.remember("d", 1101, 1101)).toBe(true);
+        expect(cache.size()).toBe(2);
+    });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "@jest/globals";
+import { withRetry, getRetryDelay, RetryPolicy } from "../onion/retry-policy";
+import { RetryError } from "../onion/onion-errors";
+
+const FAST_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 0,
+    maxDelayMs: 0,
+    jitter: 0,
+    deadlineMs: 10000,
+};
+
+describe("withRetry", () => {
+    it("returns the first successful result", async () => {
+        let calls = 0;
+
+        const result = await withRetry(async (attempt) => {
+            calls++;
+            if (attempt < 2) throw new Error("boom");
+            return "ok";
+        }, FAST_POLICY);
+
+        expect(result).toBe("ok");
+        expect(calls).toBe(2);
+    });
+
+    it("reports every attempt's target and error after the last retry", async () => {
+        const promise = withRetry(
+            async (attempt) => {
+                throw new Error(`failure ${attempt}`);
+            },
+            FAST_POLICY,
+            {
+                operation: "do things",
+                describeTarget: (attempt) => `node${attempt}`,
+            }
+        );
+
+        await expect(promise).rejects.toThrow(
+            "Failed to do things after 3 attempts: [1] node1: failure 1; [2] node2: failure 2; [3] node3: failure 3"
+        );
+        const error = (await promise.catch((e) => e)) as RetryError;
+        expect(error).toBeInstanceOf(RetryError);
+        expect(error.attempts).toEqual([
+            { attempt: 1, node: "node1", error: "failure 1" },
+            { attempt: 2, node: "node2", error: "failure 2" },
+            { attempt: 3, node: "node3", error: "failure 3" },
+        ]);
+        expect((error.lastError as Error).message).toBe("failure 3");
+    });
+
+    it("stops immediately on non-retryable errors", async () => {
+        let calls = 0;
+
+        const error = (await withRetry(
+            async () => {
+                calls++;
+                throw new Error("bad request");
+            },
+            FAST_POLICY,
+            { shouldRetry: () => false }
+        ).catch((e) => e)) as RetryError;
+
+        expect(calls).toBe(1);
+        expect(error.attempts).toHaveLength(1);
+    });
+
+    it("stops when the next delay would pass the deadline", async () => {
+        let calls = 0;
+
+        const error = (await withRetry(
+            async () => {
+                calls++;
+                throw new Error("slow");
+            },
+            {
+                ...FAST_POLICY,
+                maxAttempts: 10,
+                baseDelayMs: 50,
+                maxDelayMs: 1000,
+                deadlineMs: 100,
+            }
+        ).catch((e) => e)) as RetryError;
+
+        // 50ms before attempt 2, then 100ms would overrun the deadline
+        expect(calls).toBe(2);
+        expect(error).toBeInstanceOf(RetryError);
+    });
+});
+
+describe("getRetryDelay", () => {
+    const policy: RetryPolicy = {
+        maxAttempts: 10,
+        baseDelayMs: 100,
+        maxDelayMs: 1000,
+        jitter: 0,
+        deadlineMs: 60000,
+    };
+
+    it("backs off exponentially up to the cap", () => {
+        expect(getRetryDelay(1, policy)).toBe(100);
+        expect(getRetryDelay(2, policy)).toBe(200);
+        expect(getRetryDelay(4, policy)).toBe(800);
+        expect(getRetryDelay(5, policy)).toBe(1000);
+    });
+
+    it("keeps jittered delays within the configured spread", () => {
+        for (let i = 0; i < 50; i++) {
+            const delay = getRetryDelay(2, { ...policy, jitter: 0.5 });
+            expect(delay).toBeGreaterThanOrEqual(100);
+            expect(delay).toBeLessThanOrEqual(300);
+        }
+    });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+    ConfigError,
+    DEFAULT_PORT,
+    loadServerConfig,
+} from "../config/server-config";
+
+let tempDir: string;
+
+beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "server-config-"));
+});
+
+afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+async function writeConfigFile(contents: unknown): Promise<string> {
+    const filePath = path.join(tempDir, "server.json");
+    await fs.writeFile(filePath, JSON.stringify(contents));
+    return filePath;
+}
+
+// Problems a rejected config reports
+async function problemsFor(env: NodeJS.ProcessEnv): Promise<string[]> {
+    try {
+        await loadServerConfig(env);
+    } catch (error) {
+        expect(error).toBeInstanceOf(ConfigError);
+        return (error as ConfigError).problems;
+    }
+    throw new Error("Expected a ConfigError");
+}
+
+describe("loadServerConfig", () => {
+    it("uses defaults when nothing is set", async () => {
+        const config = await loadServerConfig({});
+
+        expect(config).toMatchObject({
+            port: DEFAULT_PORT,
+            shutdownTimeoutMs: 10000,
+            limits: {
+                maxBodyBytes: 1024 * 1024,
+                clientRate: { perSecond: 10, burst: 30 },
+                globalRate: { perSecond: 200, burst: 400 },
+            },
+            storage: { backend: "jsonl", path: "data/messages.jsonl" },
+            auth: { allowUnsigned: false },
+            keys: {
+                dir: "data/keys",
+                rotationIntervalMs: 0,
+                rotationGraceMs: 24 * 60 * 60 * 1000,
+            },
+            log: { level: "info", format: "pretty", showSecrets: false },
+        });
+        expect(config.host).toBeUndefined();
+        expect(config.keys.x25519SecretKey).toBeUndefined();
+    });
+
+    it("keeps tests in memory and quiet", async () => {
+        const config = await loadServerConfig({ NODE_ENV: "test" });
+
+        expect(config.storage.backend).toBe("memory");
+        expect(config.keys.dir).toBeUndefined();
+        expect(config.log.level).toBe("silent");
+    });
+
+    it("reads environment variables", async () => {
+        const config = await loadServerConfig({
+            PORT: "0",
+            HOST: "127.0.0.1",
+            MAX_BODY_BYTES: "2048",
+            RATE_LIMIT_PER_SECOND: "0.5",
+            MESSAGE_STORE: "memory",
+            ALLOW_UNSIGNED_REQUESTS: "true",
+            LOG_LEVEL: "debug",
+            SHUTDOWN_TIMEOUT_MS: "500",
+        });
+
+        expect(config).toMatchObject({
+            port: 0,
+            host: "127.0.0.1",
+            shutdownTimeoutMs: 500,
+            limits: { maxBodyBytes: 2048, clientRate: { perSecond: 0.5 } },
+            storage: { backend: "memory" },
+            auth: { allowUnsigned: true },
+            log: { level: "debug" },
+        });
+    });
+
+    it("reads the config file, with environment variables winning", async () => {
+        const file = await writeConfigFile({
+            port: 4000,
+            host: "0.0.0.0",
+            limits: { maxBodyBytes: 8192, globalRate: { burst: 50 } },
+            log: { format: "json" },
+        });
+
+        const config = await loadServerConfig({
+            SERVER_CONFIG_FILE: file,
+            PORT: "4001",
+            HOST: "",
+        });
+
+        expect(config).toMatchObject({
+            port: 4001,
+            host: "0.0.0.0",
+            limits: {
+                maxBodyBytes: 8192,
+                globalRate: { perSecond: 200, burst: 50 },
+            },
+            log: { format: "json" },
+        });
+    });
+
+    it("reports every invalid setting at once", async () => {
+        const file = await writeConfigFile({
+            storage: { backend: "sqlite" },
+            auth: { allowUnsigned: "yes" },
+        });
+
+        const problems = await problemsFor({
+            SERVER_CONFIG_FILE: file,
+            PORT: "70000",
+            RATE_LIMIT_BURST: "1.5",
+            GLOBAL_RATE_LIMIT_PER_SECOND: "0",
+            LOG_LEVEL: "loud",
+        });
+
+        expect(problems).toEqual([
+            "PORT must be a whole number between 0 and 65535",
+            "RATE_LIMIT_BURST must be a whole number between 1 and 9007199254740991",
+            "GLOBAL_RATE_LIMIT_PER_SECOND must be a number above 0",
+            "storage.backend must be one of memory, jsonl",
+            "auth.allowUnsigned must be true or false",
+            "LOG_LEVEL must be one of error, warn, info, debug, trace, silent",
+        ]);
+    });
+
+    it("parses TRUST_PROXY into what express expects", async () => {
+        const trustProxy = async (value: string) =>
+            (await loadServerConfig({ TRUST_PROXY: value })).trustProxy;
+
+        expect(await trustProxy("true")).toBe(true);
+        expect(await trustProxy("false")).toBe(false);
+        expect(await trustProxy("0")).toBe(0);
+        expect(await trustProxy("2")).toBe(2);
+        expect(await trustProxy("loopback")).toBe("loopback");
+        expect(await trustProxy("10.0.0.1, 10.0.0.0/8")).toBe(
+            "10.0.0.1, 10.0.0.0/8"
+        );
+        expect((await loadServerConfig({})).trustProxy).toBeUndefined();
+    });
+
+    it("reads trustProxy from the config file as a boolean, count or list", async () => {
+        for (const trustProxy of [true, false, 1, "loopback"]) {
+            const file = await writeConfigFile({ trustProxy });
+            expect(
+                (await loadServerConfig({ SERVER_CONFIG_FILE: file }))
+                    .trustProxy
+            ).toBe(trustProxy);
+        }
+
+        for (const trustProxy of [-1, 1.5, "", {}]) {
+            const file = await writeConfigFile({ trustProxy });
+            expect(await problemsFor({ SERVER_CONFIG_FILE: file })).toEqual([
+                "trustProxy must be true, false, a hop count or an address list",
+            ]);
+        }
+    });
+
+    it("rejects a config file that is not a JSON object", async () => {
+        const file = await writeConfigFile([1, 2]);
+
+        expect(await problemsFor({ SERVER_CONFIG_FILE: file })).toEqual([
+            `${file} must contain a JSON object`,
+        ]);
+        expect(
+            await problemsFor({ SERVER_CONFIG_FILE: path.join(tempDir, "no") })
+        ).toEqual([expect.stringContaining("ENOENT")]);
+    });
+
+    it("reads the X25519 secret key from the key file", async () => {
+        const keyFile = path.join(tempDir, "x25519.key");
+        await fs.writeFile(keyFile, `${"ab".repeat(32)}\n`);
+
+        const fromFile = await loadServerConfig({
+            SERVER_X25519_KEY_FILE: keyFile,
+        });
+        const inline = await loadServerConfig({
+            SERVER_X25519_KEY_FILE: keyFile,
+            SERVER_X25519_SECRET_KEY: "cd".repeat(32),
+        });
+
+        expect(fromFile.keys.x25519SecretKey).toBe("ab".repeat(32));
+        expect(inline.keys.x25519SecretKey).toBe("cd".repeat(32));
+        expect(
+            await problemsFor({
+                SERVER_X25519_KEY_FILE: path.join(tempDir, "missing.key"),
+            })
+        ).toEqual([expect.stringContaining("keys.x25519KeyFile")]);
+        expect(await problemsFor({ SERVER_X25519_SECRET_KEY: "abcd" })).toEqual(
+            ["keys.x25519SecretKey must be 32 bytes hex"]
+        );
+    });
+});
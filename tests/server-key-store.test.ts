@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CryptoUtils } from "../onion/crypto-util";
+import {
+    ServerKeyStore,
+    ServerKeyStoreOptions,
+    x25519KeyPairFromSecretKey,
+} from "../storage/server-key-store";
+import {
+    VerifyServerKeysOptions,
+    signServerKeys,
+    verifyServerKeys,
+} from "../onion/server-keys";
+import { generateIdentityKeyPair } from "../onion/request-signing";
+
+const GRACE_MS = 1000;
+
+let now = 1_000_000;
+let tempDir: string;
+let keyDir: string;
+
+beforeEach(async () => {
+    now = 1_000_000;
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "server-keys-"));
+    keyDir = path.join(tempDir, "keys");
+});
+
+afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+function openStore(options: ServerKeyStoreOptions = {}) {
+    return new ServerKeyStore({
+        dir: keyDir,
+        rotationGraceMs: GRACE_MS,
+        now: () => now,
+        ...options,
+    });
+}
+
+function hex(key: { publicKey: Buffer }): string {
+    return CryptoUtils.toHex(key.publicKey);
+}
+
+describe("ServerKeyStore", () => {
+    it("creates keys on first start, readable by the owner only", async () => {
+        const store = openStore();
+        const identity = await store.getIdentity();
+        const current = await store.getCurrentKey();
+
+        const keyFile = path.join(keyDir, "server-keys.json");
+        expect((await fs.stat(keyDir)).mode & 0o777).toBe(0o700);
+        expect((await fs.stat(keyFile)).mode & 0o777).toBe(0o600);
+        expect(current.createdAt).toBe(now);
+
+        const reopened = openStore();
+        expect(hex(await reopened.getIdentity())).toBe(hex(identity));
+        expect(hex(await reopened.getCurrentKey())).toBe(hex(current));
+    });
+
+    it("tightens a key file readable by others", async () => {
+        await openStore().getCurrentKey();
+        const keyFile = path.join(keyDir, "server-keys.json");
+        await fs.chmod(keyFile, 0o644);
+
+        await openStore().getCurrentKey();
+
+        expect((await fs.stat(keyFile)).mode & 0o777).toBe(0o600);
+    });
+
+    it("keeps a rotated key until its grace period ends", async () => {
+        const store = openStore();
+        const old = await store.getCurrentKey();
+
+        now += 10;
+        const rotated = await store.rotate();
+
+        expect(hex(await store.getCurrentKey())).toBe(hex(rotated));
+        expect((await store.getActiveKeys()).map(hex)).toEqual([
+            hex(rotated),
+            hex(old),
+        ]);
+        // The grace period survives a restart
+        expect((await openStore().getActiveKeys()).map(hex)).toEqual([
+            hex(rotated),
+            hex(old),
+        ]);
+
+        now += GRACE_MS;
+        expect((await store.getActiveKeys()).map(hex)).toEqual([hex(rotated)]);
+        expect((await openStore().getActiveKeys()).map(hex)).toEqual([
+            hex(rotated),
+        ]);
+    });
+
+    it("rotates once the current key reaches the rotation interval", async () => {
+        const store = openStore({ rotationIntervalMs: 5000 });
+        const first = await store.getCurrentKey();
+
+        now += 4999;
+        expect(await store.rotateIfDue()).toBeNull();
+
+        now += 1;
+        const rotated = await store.rotateIfDue();
+        expect(rotated).not.toBeNull();
+        expect(hex(rotated!)).not.toBe(hex(first));
+        expect(await store.rotateIfDue()).toBeNull();
+    });
+
+    it("uses a configured X25519 key and does not rotate it", async () => {
+        const secretKey = "11".repeat(32);
+        const store = openStore({
+            x25519SecretKey: secretKey,
+            rotationIntervalMs: 1,
+        });
+
+        now += 10;
+        expect(hex(await store.getCurrentKey())).toBe(
+            hex(x25519KeyPairFromSecretKey(secretKey))
+        );
+        expect(await store.rotateIfDue()).toBeNull();
+        await expect(store.rotate()).rejects.toThrow(/Cannot rotate/);
+    });
+
+    it("keeps keys in memory without a directory", async () => {
+        const store = new ServerKeyStore();
+
+        expect(store.isPersistent()).toBe(false);
+        expect((await store.getActiveKeys()).length).toBe(1);
+        await store.rotate();
+        await expect(fs.readdir(tempDir)).resolves.toEqual([]);
+    });
+
+    it("rejects a corrupt key file", async () => {
+        await fs.mkdir(keyDir);
+        await fs.writeFile(path.join(keyDir, "server-keys.json"), "{}");
+
+        await expect(openStore().getCurrentKey()).rejects.toThrow(
+            /not a valid server key file/
+        );
+    });
+});
+
+describe("signServerKeys", () => {
+    const identity = generateIdentityKeyPair();
+    const ed25519Pubkey = CryptoUtils.toHex(identity.publicKey);
+    const document = signServerKeys(
+        {
+            x25519_pubkey: "aa".repeat(32),
+            previous_x25519: [{ pubkey: "bb".repeat(32), expires_at: 2000 }],
+            timestamp: 1000,
+        },
+        identity
+    );
+    const now = { now: 1000 };
+
+    it("verifies against the signing identity", () => {
+        expect(document.ed25519_pubkey).toBe(ed25519Pubkey);
+        expect(verifyServerKeys(document, ed25519Pubkey, now)).toBe(true);
+        expect(
+            verifyServerKeys(document, ed25519Pubkey.toUpperCase(), now)
+        ).toBe(true);
+    });
+
+    it("rejects other identities and tampered documents", () => {
+        const other = CryptoUtils.toHex(generateIdentityKeyPair().publicKey);
+
+        expect(verifyServerKeys(document, other, now)).toBe(false);
+        expect(
+            verifyServerKeys(
+                { ...document, x25519_pubkey: "cc".repeat(32) },
+                ed25519Pubkey,
+                now
+            )
+        ).toBe(false);
+        expect(
+            verifyServerKeys(
+                { ...document, previous_x25519: [] },
+                ed25519Pubkey,
+                now
+            )
+        ).toBe(false);
+        expect(verifyServerKeys(null, ed25519Pubkey, now)).toBe(false);
+        expect(verifyServerKeys("keys", ed25519Pubkey, now)).toBe(false);
+    });
+
+    it("rejects documents signed too long ago or in the future", () => {
+        const skew = 5 * 60 * 1000;
+        const verify = (options: VerifyServerKeysOptions) =>
+            verifyServerKeys(document, ed25519Pubkey, options);
+
+        expect(verify({ now: 1000 + skew })).toBe(true);
+        expect(verify({ now: 1001 + skew })).toBe(false);
+        expect(verify({ now: 1000 - skew })).toBe(true);
+        expect(verify({ now: 999 - skew })).toBe(false);
+        expect(
+            verify({ now: 1000 + 60000 + skew, rotationIntervalMs: 60000 })
+        ).toBe(true);
+        expect(
+            verify({ now: 1001 + 60000 + skew, rotationIntervalMs: 60000 })
+        ).toBe(false);
+        expect(verify({ now: 1100, maxSkewMs: 50 })).toBe(false);
+    });
+});
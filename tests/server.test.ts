@@ -0,0 +1,1577 @@
+import { describe, it, expect, beforeAll, jest } from "@jest/globals";
+import request from "supertest";
+import * as http from "http";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as nacl from "tweetnacl";
+import { AddressInfo } from "net";
+import type { Express, Request, Response } from "express";
+import { HopEncryption, CryptoUtils } from "../onion/crypto-util";
+import {
+    encodeV4Request,
+    decodeV4Response,
+    OnionV4Request,
+} from "../onion/onion-v4";
+import { OnionBuilder } from "../onion/onion-builder";
+import { Logger } from "../onion/logger";
+import {
+    createApp,
+    createServer,
+    parseRequestBody,
+    ServerApp,
+    ServerHandle,
+} from "../server";
+import { loadServerConfig } from "../config/server-config";
+import { startLocalServiceNodes } from "../onion/local-service-node";
+import { verifyServerKeys } from "../onion/server-keys";
+import { LsrpcNotFoundError, ServerKeysError } from "../onion/onion-errors";
+import {
+    generateIdentityKeyPair,
+    signRequest,
+    IdentityKeyPair,
+} from "../onion/request-signing";
+import {
+    encryptMessage,
+    decryptMessage,
+    messagingKeyPairFromIdentity,
+    EncryptedMessage,
+} from "../onion/message-crypto";
+
+const quietLogger = new Logger({ level: "silent" });
+
+// Ed25519 group order L
+const ED25519_ORDER = BigInt(
+    "0x1000000000000000000000000000000014def9dea2f79cd65812631a5cf5d3ed"
+);
+
+const serverKeyPair = nacl.box.keyPair();
+const identity = generateIdentityKeyPair();
+const identityPubkey = CryptoUtils.toHex(identity.publicKey);
+const messagingKeys = messagingKeyPairFromIdentity(identity);
+// "Hello" encrypted to our own messaging key
+let envelope: EncryptedMessage;
+let app: Express;
+
+beforeAll(async () => {
+    app = await loadServer();
+});
+
+beforeAll(async () => {
+    envelope = await encryptMessage("Hello", ownKey(), messagingKeys);
+});
+
+// Separate server instances, configured through environment variables
+async function loadServer(
+    env: Record<string, string> = {}
+): Promise<Express> {
+    const config = await loadServerConfig({
+        NODE_ENV: "test",
+        SERVER_X25519_SECRET_KEY: CryptoUtils.toHex(
+            Buffer.from(serverKeyPair.secretKey)
+        ),
+        ...env,
+    });
+    return (await createApp(config)).app;
+}
+
+function frame(data: Buffer, json: unknown): Buffer {
+    const size = Buffer.alloc(4);
+    size.writeUInt32LE(data.length, 0);
+    return Buffer.concat([size, data, Buffer.from(JSON.stringify(json))]);
+}
+
+function lsrpc() {
+    return request(app).post("/oxen/custom-endpoint/lsrpc");
+}
+
+function ownKey(): string {
+    return CryptoUtils.toHex(messagingKeys.publicKey);
+}
+
+function signed(
+    body: { method: string; params: Record<string, unknown> },
+    signer: IdentityKeyPair = identity
+) {
+    return signRequest(body, signer);
+}
+
+// Encrypt a v4 request to the server and decode its encrypted reply
+async function sendV4(
+    v4Request: OnionV4Request,
+    target: Express = app,
+    serverPubKey: Buffer = Buffer.from(serverKeyPair.publicKey)
+) {
+    const ephemeral = nacl.box.keyPair();
+    const client = new HopEncryption(
+        Buffer.from(ephemeral.secretKey),
+        Buffer.from(ephemeral.publicKey)
+    );
+
+    const ciphertext = await client.encrypt(
+        "xchacha20",
+        encodeV4Request(v4Request),
+        serverPubKey
+    );
+    const response = await request(target)
+        .post("/oxen/v4/lsrpc")
+        .set("Content-Type", "application/octet-stream")
+        .send(
+            frame(ciphertext, {
+                ephemeral_key: CryptoUtils.toHex(
+                    Buffer.from(ephemeral.publicKey)
+                ),
+                enc_type: "xchacha20",
+            })
+        )
+        .buffer(true)
+        .parse((res, callback) => {
+            const chunks: Buffer[] = [];
+            res.on("data", (chunk: Buffer) => chunks.push(chunk));
+            res.on("end", () => callback(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+
+    const plaintext = await client.decrypt(
+        "xchacha20",
+        response.body,
+        serverPubKey
+    );
+    const decoded = decodeV4Response(plaintext);
+    return {
+        ...decoded,
+        json: decoded.body ? JSON.parse(decoded.body.toString()) : null,
+    };
+}
+
+describe("parseRequestBody", () => {
+    it("returns already parsed JSON bodies", () => {
+        const body = { method: "get_message" };
+
+        expect(
+            parseRequestBody(
+                { body } as Request,
+                { locals: {} } as unknown as Response
+            )
+        ).toBe(body);
+    });
+
+    it("returns the decoded onion payload for octet-stream bodies", () => {
+        const payload = { method: "send_message" };
+
+        expect(
+            parseRequestBody(
+                { body: Buffer.from("x") } as Request,
+                { locals: { onionRequest: { payload } } } as unknown as Response
+            )
+        ).toBe(payload);
+    });
+
+    it("returns null when there is no usable body", () => {
+        expect(
+            parseRequestBody(
+                { body: undefined } as Request,
+                { locals: {} } as unknown as Response
+            )
+        ).toBeNull();
+    });
+});
+
+describe("POST /oxen/custom-endpoint/lsrpc", () => {
+    it("stores a message with send_message and returns it with get_message", async () => {
+        const sent = await lsrpc()
+            .send(signed({ method: "send_message", params: { ...envelope } }))
+            .expect(200);
+
+        expect(sent.body).toMatchObject({
+            success: true,
+            method: "send_message",
+            data: { ...envelope, status: "sent", encrypted: true },
+        });
+
+        const fetched = await lsrpc()
+            .send(
+                signed({
+                    method: "get_message",
+                    params: { msgId: sent.body.data.msgId },
+                })
+            )
+            .expect(200);
+
+        expect(fetched.body).toMatchObject({
+            success: true,
+            method: "get_message",
+            data: { msgId: sent.body.data.msgId, ...envelope },
+        });
+        const plaintext = await decryptMessage(
+            fetched.body.data,
+            messagingKeys
+        );
+        expect(plaintext.toString()).toBe("Hello");
+    });
+
+    it("returns a not-found error for unknown message ids", async () => {
+        const response = await lsrpc()
+            .send(signed({ method: "get_message", params: { msgId: "missing" } }))
+            .expect(404);
+
+        expect(response.body).toEqual({
+            error: "Message missing not found",
+            code: "NOT_FOUND",
+            details: { msgId: "missing" },
+        });
+    });
+
+    it("expires messages after their ttl", async () => {
+        const sent = await lsrpc()
+            .send(
+                signed({
+                    method: "send_message",
+                    params: { ...envelope, ttl: 50 },
+                })
+            )
+            .expect(200);
+        const { msgId, expiresAt } = sent.body.data;
+        expect(expiresAt - Date.parse(sent.body.data.timestamp)).toBe(50);
+
+        await new Promise((resolve) => setTimeout(resolve, 80));
+
+        await lsrpc()
+            .send(signed({ method: "get_message", params: { msgId } }))
+            .expect(404);
+    });
+
+    it.each([
+        ["a missing msgId", { method: "get_message", params: {} }, "params.msgId"],
+        [
+            "a non-base64 ciphertext",
+            { method: "send_message", params: { ciphertext: "not base64!" } },
+            "params.ciphertext",
+        ],
+    ])("rejects %s", async (_, body, field) => {
+        const response = await lsrpc().send(body).expect(400);
+
+        expect(response.body).toMatchObject({
+            code: "INVALID_PARAMS",
+            details: { field },
+        });
+    });
+
+    it("rejects unknown methods", async () => {
+        const response = await lsrpc()
+            .send({ method: "drop_tables", params: {} })
+            .expect(400);
+
+        expect(response.body).toMatchObject({
+            code: "INVALID_METHOD",
+            details: { field: "method" },
+        });
+        expect(response.body.error).toContain("Invalid method");
+    });
+
+    it("rejects invalid params with the offending field", async () => {
+        const response = await lsrpc()
+            .send({ method: "send_message", params: { ...envelope, ttl: 0 } })
+            .expect(400);
+
+        expect(response.body).toEqual({
+            error: "params.ttl must be a whole number between 1 and 2592000000",
+            code: "INVALID_PARAMS",
+            details: {
+                field: "params.ttl",
+                errors: [
+                    {
+                        field: "params.ttl",
+                        message:
+                            "params.ttl must be a whole number between 1 and 2592000000",
+                    },
+                ],
+            },
+        });
+    });
+
+    it("maps malformed JSON to a parse error body", async () => {
+        const response = await lsrpc()
+            .set("Content-Type", "application/json")
+            .send("{not json")
+            .expect(400);
+
+        expect(response.body).toMatchObject({
+            error: "Request body is not valid JSON",
+            code: "PARSE_ERROR",
+        });
+    });
+
+    it("accepts plaintext octet-stream onion payloads", async () => {
+        const payload = signed({
+            method: "send_message",
+            params: { ...envelope },
+        });
+
+        const response = await lsrpc()
+            .set("Content-Type", "application/octet-stream")
+            .send(frame(Buffer.from(JSON.stringify(payload)), { headers: {} }))
+            .expect(200);
+
+        expect(response.body.data.ciphertext).toBe(envelope.ciphertext);
+    });
+
+    it.each(["aes-gcm", "xchacha20"])(
+        "decrypts %s onion payloads and encrypts the reply",
+        async (encType) => {
+            const ephemeral = nacl.box.keyPair();
+            const client = new HopEncryption(
+                Buffer.from(ephemeral.secretKey),
+                Buffer.from(ephemeral.publicKey)
+            );
+            const serverPubKey = Buffer.from(serverKeyPair.publicKey);
+            const payload = signed({
+                method: "send_message",
+                params: { ...envelope },
+            });
+
+            const ciphertext = await client.encrypt(
+                encType,
+                frame(Buffer.from(JSON.stringify(payload)), {
+                    headers: {},
+                }),
+                serverPubKey
+            );
+            const response = await lsrpc()
+                .set("Content-Type", "application/octet-stream")
+                .send(
+                    frame(ciphertext, {
+                        ephemeral_key: CryptoUtils.toHex(
+                            Buffer.from(ephemeral.publicKey)
+                        ),
+                        enc_type: encType,
+                    })
+                )
+                .expect(200);
+
+            expect(response.text).not.toContain(envelope.senderKey);
+            const plaintext = await client.decrypt(
+                encType,
+                CryptoUtils.fromBase64(response.text),
+                serverPubKey
+            );
+            expect(JSON.parse(plaintext.toString())).toMatchObject({
+                success: true,
+                data: { ciphertext: envelope.ciphertext },
+            });
+        }
+    );
+
+    it("rejects undecodable octet-stream bodies", async () => {
+        const response = await lsrpc()
+            .set("Content-Type", "application/octet-stream")
+            .send(Buffer.from([1, 2]))
+            .expect(400);
+
+        expect(response.body).toMatchObject({
+            error: "Unable to decode onion request",
+            code: "PARSE_ERROR",
+        });
+    });
+});
+
+describe("conversations and mailboxes", () => {
+    function call(method: string, params: Record<string, unknown>) {
+        return lsrpc().send(signed({ method, params }));
+    }
+
+    async function send({ msg, ...params }: Record<string, unknown>) {
+        const encrypted = await encryptMessage(
+            String(msg),
+            ownKey(),
+            messagingKeys
+        );
+        const response = await call("send_message", {
+            ...encrypted,
+            ...params,
+        }).expect(200);
+        return response.body.data;
+    }
+
+    it("pages through a conversation with cursor and limit", async () => {
+        const conversationId = `conv-${Date.now()}`;
+        // Both messages are stored in the same millisecond
+        const sentAt = jest.spyOn(Date, "now").mockReturnValue(Date.now());
+        let first, second;
+        try {
+            first = await send({ msg: "one", conversationId });
+            second = await send({ msg: "two", conversationId });
+        } finally {
+            sentAt.mockRestore();
+        }
+        expect(second.createdAt).toBe(first.createdAt);
+        await send({ msg: "elsewhere", conversationId: `${conversationId}-x` });
+
+        const page1 = await call("list_messages", {
+            conversationId,
+            limit: 1,
+        }).expect(200);
+        expect(page1.body.data).toMatchObject({
+            messages: [{ msgId: first.msgId, ciphertext: first.ciphertext }],
+            hasMore: true,
+            nextCursor: `${first.createdAt}:${first.msgId}`,
+        });
+
+        const page2 = await call("list_messages", {
+            conversationId,
+            cursor: page1.body.data.nextCursor,
+        }).expect(200);
+        expect(page2.body.data).toMatchObject({
+            messages: [{ msgId: second.msgId }],
+            hasMore: false,
+            nextCursor: `${second.createdAt}:${second.msgId}`,
+        });
+
+        const badCursor = await call("list_messages", {
+            conversationId,
+            cursor: String(first.createdAt),
+        }).expect(400);
+        expect(badCursor.body.details).toMatchObject({
+            field: "params.cursor",
+        });
+    });
+
+    it("lists a recipient's mailbox", async () => {
+        const recipient = CryptoUtils.toHex(generateIdentityKeyPair().publicKey);
+        const sent = await send({ msg: "hi", recipient });
+
+        const response = await call("list_messages", { recipient }).expect(
+            200
+        );
+
+        expect(response.body.data.messages).toEqual([sent]);
+        expect(sent).toMatchObject({ recipient, deliveryStatus: "pending" });
+        expect(sent.confirmationCode).toBeUndefined();
+    });
+
+    it("requires recipients to be hex public keys", async () => {
+        const response = await call("send_message", {
+            ...envelope,
+            recipient: "bob",
+        }).expect(400);
+
+        expect(response.body).toMatchObject({
+            code: "INVALID_PARAMS",
+            details: { field: "params.recipient" },
+        });
+    });
+
+    it("requires a conversation or recipient to list", async () => {
+        const response = await call("list_messages", {}).expect(400);
+
+        expect(response.body).toMatchObject({
+            code: "INVALID_PARAMS",
+            details: { field: "params.conversationId" },
+        });
+    });
+
+    it("deletes messages", async () => {
+        const { msgId } = await send({ msg: "bye" });
+
+        const deleted = await call("delete_message", { msgId }).expect(200);
+        expect(deleted.body.data).toEqual({ msgId, deleted: true });
+
+        await call("get_message", { msgId }).expect(404);
+        await call("delete_message", { msgId }).expect(404);
+    });
+
+    it("moves delivery status forward with ack_message", async () => {
+        const { msgId } = await send({ msg: "ack me" });
+
+        const delivered = await call("ack_message", {
+            msgId,
+            status: "delivered",
+        }).expect(200);
+        expect(delivered.body.data.deliveryStatus).toBe("delivered");
+        expect(delivered.body.data.deliveredAt).toEqual(expect.any(String));
+
+        await call("ack_message", { msgId, status: "read" }).expect(200);
+        const stale = await call("ack_message", {
+            msgId,
+            status: "delivered",
+        }).expect(200);
+        expect(stale.body.data.deliveryStatus).toBe("read");
+
+        const fetched = await call("get_message", { msgId }).expect(200);
+        expect(fetched.body.data).toMatchObject({
+            deliveryStatus: "read",
+            readAt: expect.any(String),
+        });
+    });
+
+    it("rejects unknown ack statuses", async () => {
+        const { msgId } = await send({ msg: "x" });
+
+        const response = await call("ack_message", {
+            msgId,
+            status: "lost",
+        }).expect(400);
+
+        expect(response.body.details).toMatchObject({
+            field: "params.status",
+        });
+    });
+});
+
+describe("batch requests", () => {
+    async function sendOne() {
+        const response = await lsrpc()
+            .send(signed({ method: "send_message", params: { ...envelope } }))
+            .expect(200);
+        return response.body.data.msgId;
+    }
+
+    it("answers each request of a batch in order", async () => {
+        const first = await sendOne();
+        const second = await sendOne();
+
+        const response = await lsrpc()
+            .send([
+                signed({ method: "get_message", params: { msgId: first } }),
+                signed({ method: "get_message", params: { msgId: "missing" } }),
+                { method: "get_message", params: { msgId: second } },
+                signed({ method: "get_message", params: { msgId: second } }),
+            ])
+            .expect(200);
+
+        expect(response.body).toMatchObject([
+            { success: true, data: { msgId: first } },
+            { success: false, status: 404, code: "NOT_FOUND" },
+            { success: false, status: 401, code: "SIGNATURE_REQUIRED" },
+            { success: true, data: { msgId: second } },
+        ]);
+    });
+
+    it.each([
+        ["empty", 0],
+        ["oversized", 21],
+    ])("rejects %s batches", async (_, size) => {
+        const batch = Array.from({ length: size }, () => ({
+            method: "get_message",
+            params: { msgId: "1" },
+        }));
+
+        const response = await lsrpc().send(batch).expect(400);
+
+        expect(response.body).toEqual({
+            error: "Batch must contain between 1 and 20 requests",
+            code: "PARSE_ERROR",
+            details: { maxBatchSize: 20 },
+        });
+    });
+
+    it("fetches several messages in one onion round trip", async () => {
+        const msgIds = [await sendOne(), await sendOne()];
+        const server = await new Promise<http.Server>((resolve) => {
+            const listening = app.listen(0, "127.0.0.1", () =>
+                resolve(listening)
+            );
+        });
+        const { network, serviceNodes } = await startLocalServiceNodes(3);
+        try {
+            const builder = new OnionBuilder(serviceNodes, 3, quietLogger);
+            builder.setIdentity(identity);
+            builder.setNodeProtocol("http");
+            builder.setPathDiversity({
+                distinctSwarms: false,
+                distinctSubnets: false,
+            });
+
+            const response = await builder.sendOnionRequest(
+                msgIds.map((msgId) => ({
+                    method: "get_message",
+                    params: { msgId },
+                })),
+                {
+                    host: "127.0.0.1",
+                    port: (server.address() as AddressInfo).port,
+                    protocol: "http",
+                    target: "/oxen/custom-endpoint/lsrpc",
+                    x25519_pubkey: CryptoUtils.toHex(
+                        Buffer.from(serverKeyPair.publicKey)
+                    ),
+                }
+            );
+
+            expect(
+                JSON.parse(response.body).map(
+                    (item: { data: { msgId: string } }) => item.data.msgId
+                )
+            ).toEqual(msgIds);
+        } finally {
+            await network.stop();
+            await new Promise((resolve) => server.close(resolve));
+        }
+    });
+});
+
+describe("v2 onion error replies", () => {
+    it("decrypts error replies into typed errors without blaming the path", async () => {
+        const server = await new Promise<http.Server>((resolve) => {
+            const listening = app.listen(0, "127.0.0.1", () =>
+                resolve(listening)
+            );
+        });
+        const { network, serviceNodes } = await startLocalServiceNodes(3);
+        try {
+            const builder = new OnionBuilder(serviceNodes, 3, quietLogger);
+            builder.setIdentity(identity);
+            builder.setNodeProtocol("http");
+            builder.setPathDiversity({
+                distinctSwarms: false,
+                distinctSubnets: false,
+            });
+
+            const error = await builder
+                .sendOnionRequest(
+                    { method: "get_message", params: { msgId: "missing" } },
+                    {
+                        host: "127.0.0.1",
+                        port: (server.address() as AddressInfo).port,
+                        protocol: "http",
+                        target: "/oxen/custom-endpoint/lsrpc",
+                        x25519_pubkey: CryptoUtils.toHex(
+                            Buffer.from(serverKeyPair.publicKey)
+                        ),
+                    }
+                )
+                .catch((e) => e);
+
+            expect(error).toBeInstanceOf(LsrpcNotFoundError);
+            expect(error).toMatchObject({
+                status: 404,
+                code: "NOT_FOUND",
+                details: { msgId: "missing" },
+            });
+            expect(
+                builder.getNodeHealth().every((health) => health.failures === 0)
+            ).toBe(true);
+            const metrics = await builder.getMetrics();
+            expect(metrics.onion_requests_total.samples).toEqual([
+                { labels: { outcome: "success" }, value: 1 },
+            ]);
+        } finally {
+            await network.stop();
+            await new Promise((resolve) => server.close(resolve));
+        }
+    });
+});
+
+describe("signed requests", () => {
+    const other = generateIdentityKeyPair();
+
+    async function send(
+        params: Record<string, unknown>,
+        signer: IdentityKeyPair = identity
+    ) {
+        const response = await lsrpc()
+            .send(
+                signed(
+                    {
+                        method: "send_message",
+                        params: { ...envelope, ...params },
+                    },
+                    signer
+                )
+            )
+            .expect(200);
+        return response.body.data;
+    }
+
+    it("records the verified key as the sender", async () => {
+        const sent = await send({});
+
+        expect(sent.sender).toBe(identityPubkey);
+    });
+
+    it("rejects unsigned requests", async () => {
+        const response = await lsrpc()
+            .send({ method: "send_message", params: { ...envelope } })
+            .expect(401);
+
+        expect(response.body.code).toBe("SIGNATURE_REQUIRED");
+    });
+
+    it("rejects requests whose params were changed after signing", async () => {
+        const body = signed({ method: "send_message", params: { ...envelope } });
+        body.params.recipient = CryptoUtils.toHex(other.publicKey);
+
+        const response = await lsrpc().send(body).expect(401);
+
+        expect(response.body).toEqual({
+            error: "Request signature is invalid",
+            code: "INVALID_SIGNATURE",
+        });
+    });
+
+    it("rejects stale timestamps", async () => {
+        const body = signRequest(
+            { method: "send_message", params: { ...envelope } },
+            identity,
+            Date.now() - 10 * 60 * 1000
+        );
+
+        const response = await lsrpc().send(body).expect(401);
+
+        expect(response.body.code).toBe("STALE_REQUEST");
+    });
+
+    it("rejects replayed requests", async () => {
+        const body = signed({ method: "send_message", params: { ...envelope } });
+
+        await lsrpc().send(body).expect(200);
+        const replay = await lsrpc().send(body).expect(401);
+
+        expect(replay.body.code).toBe("REPLAYED_REQUEST");
+    });
+
+    it("rejects replays with a re-encoded signature (S + L)", async () => {
+        const body = signed({ method: "send_message", params: { ...envelope } });
+        await lsrpc().send(body).expect(200);
+
+        const bytes = Buffer.from(body.auth.signature, "hex");
+        const s = BigInt(
+            `0x${Buffer.from(bytes.subarray(32)).reverse().toString("hex")}`
+        );
+        const sPlusL = Buffer.from(
+            (s + ED25519_ORDER).toString(16).padStart(64, "0"),
+            "hex"
+        ).reverse();
+        const signature = Buffer.concat([bytes.subarray(0, 32), sPlusL]);
+
+        const malleated = await lsrpc()
+            .send({
+                ...body,
+                auth: { ...body.auth, signature: signature.toString("hex") },
+            })
+            .expect(401);
+        // Same signed message, differently encoded nonce
+        const renamed = await lsrpc()
+            .send({
+                ...body,
+                auth: { ...body.auth, nonce: body.auth.nonce.toUpperCase() },
+            })
+            .expect(401);
+
+        expect(malleated.body.code).toBe("INVALID_SIGNATURE");
+        expect(renamed.body.code).toBe("REPLAYED_REQUEST");
+    });
+
+    it("hides messages from keys other than the sender and recipient", async () => {
+        const { msgId } = await send({});
+        const call = (method: string, params: Record<string, unknown>) =>
+            lsrpc().send(signed({ method, params }, other));
+
+        await call("get_message", { msgId }).expect(404);
+        await call("delete_message", { msgId }).expect(404);
+        const listed = await call("list_messages", {
+            recipient: identityPubkey,
+        }).expect(200);
+        expect(listed.body.data.messages).toEqual([]);
+    });
+
+    it("lets only the recipient ack and only the sender delete", async () => {
+        const recipient = CryptoUtils.toHex(other.publicKey);
+        // Addressed in uppercase hex; still readable by the recipient
+        const { msgId } = await send({ recipient: recipient.toUpperCase() });
+        const call = (
+            method: string,
+            params: Record<string, unknown>,
+            signer: IdentityKeyPair
+        ) => lsrpc().send(signed({ method, params }, signer));
+
+        const mailbox = await call(
+            "list_messages",
+            { recipient },
+            other
+        ).expect(200);
+        expect(mailbox.body.data.messages).toMatchObject([
+            { msgId, sender: identityPubkey },
+        ]);
+
+        const senderAck = await call(
+            "ack_message",
+            { msgId, status: "read" },
+            identity
+        ).expect(403);
+        expect(senderAck.body.code).toBe("FORBIDDEN");
+        await call("ack_message", { msgId, status: "read" }, other).expect(200);
+
+        await call("delete_message", { msgId }, other).expect(403);
+        await call("delete_message", { msgId }, identity).expect(200);
+    });
+
+    it("verifies payloads signed by OnionBuilder", async () => {
+        const server = await new Promise<http.Server>((resolve) => {
+            const listening = app.listen(0, "127.0.0.1", () =>
+                resolve(listening)
+            );
+        });
+        const { network, serviceNodes } = await startLocalServiceNodes(3);
+        try {
+            const builder = new OnionBuilder(serviceNodes, 3, quietLogger);
+            builder.setIdentity(other);
+            builder.setNodeProtocol("http");
+            builder.setPathDiversity({
+                distinctSwarms: false,
+                distinctSubnets: false,
+            });
+            const destination = {
+                host: "127.0.0.1",
+                port: (server.address() as AddressInfo).port,
+                protocol: "http" as const,
+                target: "/oxen/custom-endpoint/lsrpc",
+                x25519_pubkey: CryptoUtils.toHex(
+                    Buffer.from(serverKeyPair.publicKey)
+                ),
+            };
+            const payload = { method: "send_message", params: { ...envelope } };
+
+            const sent = await builder.sendOnionRequest(payload, destination);
+
+            expect(sent.statusCode).toBe(200);
+            expect(JSON.parse(sent.body).data.sender).toBe(
+                CryptoUtils.toHex(other.publicKey)
+            );
+            await expect(
+                builder.sendOnionRequest(payload, destination, { sign: false })
+            ).rejects.toMatchObject({
+                status: 401,
+                code: "SIGNATURE_REQUIRED",
+            });
+        } finally {
+            await network.stop();
+            await new Promise((resolve) => server.close(resolve));
+        }
+    });
+});
+
+describe("end-to-end encrypted messages", () => {
+    it("stores only ciphertext the recipient can decrypt", async () => {
+        const recipient = generateIdentityKeyPair();
+        const recipientKeys = messagingKeyPairFromIdentity(recipient);
+        const text = `meet at noon ${Date.now()}`;
+        const encrypted = await encryptMessage(
+            text,
+            CryptoUtils.toHex(recipientKeys.publicKey),
+            messagingKeys
+        );
+
+        const sent = await lsrpc()
+            .send(
+                signed({
+                    method: "send_message",
+                    params: {
+                        ...encrypted,
+                        recipient: CryptoUtils.toHex(recipient.publicKey),
+                    },
+                })
+            )
+            .expect(200);
+        expect(JSON.stringify(sent.body)).not.toContain(text);
+        expect(sent.body.data).toMatchObject({
+            sender: identityPubkey,
+            senderKey: ownKey(),
+            recipientKey: CryptoUtils.toHex(recipientKeys.publicKey),
+        });
+
+        const fetched = await lsrpc()
+            .send(
+                signed(
+                    {
+                        method: "get_message",
+                        params: { msgId: sent.body.data.msgId },
+                    },
+                    recipient
+                )
+            )
+            .expect(200);
+        const plaintext = await decryptMessage(
+            fetched.body.data,
+            recipientKeys
+        );
+        expect(plaintext.toString()).toBe(text);
+    });
+
+    it("rejects plaintext message content", async () => {
+        const response = await lsrpc()
+            .send(signed({ method: "send_message", params: { msg: "hi" } }))
+            .expect(400);
+
+        expect(response.body.details.field).toBe("params.ciphertext");
+        expect(
+            response.body.details.errors.map((e: { field: string }) => e.field)
+        ).toEqual([
+            "params.ciphertext",
+            "params.encType",
+            "params.senderKey",
+            "params.recipientKey",
+        ]);
+    });
+});
+
+describe("POST /oxen/v4/lsrpc", () => {
+    it("runs LSRPC methods sent as a v4 POST", async () => {
+        const response = await sendV4({
+            method: "POST",
+            endpoint: "/oxen/custom-endpoint/lsrpc",
+            headers: { "Content-Type": "application/json" },
+            body: signed({
+                method: "send_message",
+                params: { ...envelope },
+            }),
+        });
+
+        expect(response.status).toBe(200);
+        expect(response.headers["content-type"]).toBe("application/json");
+        expect(response.json).toMatchObject({
+            data: { ciphertext: envelope.ciphertext },
+        });
+    });
+
+    it("answers v4 GET requests without a body", async () => {
+        const response = await sendV4({ method: "GET", endpoint: "/health" });
+
+        expect(response.status).toBe(200);
+        expect(response.json.status).toBe("OK");
+    });
+
+    it("returns error bodies inside the v4 reply", async () => {
+        const missing = await sendV4({ method: "GET", endpoint: "/nope" });
+        const invalid = await sendV4({
+            method: "POST",
+            endpoint: "/oxen/custom-endpoint/lsrpc",
+            body: Buffer.from([0xff, 0x00]),
+        });
+
+        expect(missing.status).toBe(404);
+        expect(missing.json).toEqual({
+            error: "No v4 route for GET /nope",
+            code: "NOT_FOUND",
+        });
+        expect(invalid.status).toBe(400);
+        expect(invalid.json.code).toBe("PARSE_ERROR");
+    });
+
+    it("rejects bodies that are not encrypted v4 requests", async () => {
+        const response = await request(app)
+            .post("/oxen/v4/lsrpc")
+            .set("Content-Type", "application/octet-stream")
+            .send(frame(Buffer.from("x"), { headers: {} }))
+            .expect(400);
+
+        expect(response.body).toMatchObject({
+            error: "Unable to decode onion request",
+            code: "PARSE_ERROR",
+            details: { reason: "v4 onion request has no ephemeral_key" },
+        });
+    });
+
+    it("answers 500 when the v4 reply cannot be encrypted", async () => {
+        const ephemeral = nacl.box.keyPair();
+        const client = new HopEncryption(
+            Buffer.from(ephemeral.secretKey),
+            Buffer.from(ephemeral.publicKey)
+        );
+        const ciphertext = await client.encrypt(
+            "xchacha20",
+            encodeV4Request({ method: "GET", endpoint: "/health" }),
+            Buffer.from(serverKeyPair.publicKey)
+        );
+        const encrypt = jest
+            .spyOn(HopEncryption.prototype, "encrypt")
+            .mockRejectedValue(new Error("encryption failed"));
+
+        try {
+            const response = await request(app)
+                .post("/oxen/v4/lsrpc")
+                .set("Content-Type", "application/octet-stream")
+                .send(
+                    frame(ciphertext, {
+                        ephemeral_key: CryptoUtils.toHex(
+                            Buffer.from(ephemeral.publicKey)
+                        ),
+                        enc_type: "xchacha20",
+                    })
+                )
+                .expect(500);
+
+            expect(response.body).toEqual({
+                error: "Internal server error",
+                code: "INTERNAL_ERROR",
+            });
+        } finally {
+            encrypt.mockRestore();
+        }
+    });
+
+    it("carries v4 requests through a local onion path", async () => {
+        const server = await new Promise<http.Server>((resolve) => {
+            const listening = app.listen(0, "127.0.0.1", () =>
+                resolve(listening)
+            );
+        });
+        const { network, serviceNodes } = await startLocalServiceNodes(3);
+        try {
+            const builder = new OnionBuilder(serviceNodes, 3, quietLogger);
+            builder.setNodeProtocol("http");
+            builder.setPathDiversity({
+                distinctSwarms: false,
+                distinctSubnets: false,
+            });
+
+            const response = await builder.sendOnionRequestV4(
+                { method: "GET", endpoint: "/health" },
+                {
+                    host: "127.0.0.1",
+                    port: (server.address() as AddressInfo).port,
+                    protocol: "http",
+                    target: "/oxen/custom-endpoint/lsrpc",
+                    x25519_pubkey: CryptoUtils.toHex(
+                        Buffer.from(serverKeyPair.publicKey)
+                    ),
+                }
+            );
+
+            expect(response.status).toBe(200);
+            expect(JSON.parse(response.body!.toString()).status).toBe("OK");
+        } finally {
+            await network.stop();
+            await new Promise((resolve) => server.close(resolve));
+        }
+    });
+});
+
+describe("GET /health", () => {
+    it("reports OK", async () => {
+        const response = await request(app).get("/health").expect(200);
+
+        expect(response.body.status).toBe("OK");
+    });
+});
+
+describe("GET /metrics", () => {
+    it("counts LSRPC requests by method and status, and stored messages", async () => {
+        const metricsApp = await loadServer();
+        const post = (body: object) =>
+            request(metricsApp).post("/oxen/custom-endpoint/lsrpc").send(body);
+
+        await post(signed({ method: "send_message", params: { ...envelope } }));
+        await post(signed({ method: "get_message", params: { msgId: "1" } }));
+        await post({ method: "drop_tables", params: {} });
+        await post([
+            signed({ method: "get_message", params: { msgId: "2" } }),
+            { method: "get_message", params: { msgId: "3" } },
+        ]);
+        await post([]);
+
+        const response = await request(metricsApp)
+            .get("/metrics")
+            .expect(200)
+            .expect("Content-Type", /^text\/plain;.*version=0\.0\.4/);
+
+        const lines = response.text.split("\n");
+        expect(lines).toEqual(
+            expect.arrayContaining([
+                "# TYPE lsrpc_requests_total counter",
+                'lsrpc_requests_total{method="send_message",status="200"} 1',
+                'lsrpc_requests_total{method="get_message",status="404"} 2',
+                'lsrpc_requests_total{method="unknown",status="400"} 1',
+                'lsrpc_requests_total{method="get_message",status="401"} 1',
+                'lsrpc_requests_total{method="batch",status="400"} 1',
+                "# TYPE lsrpc_stored_messages gauge",
+                "lsrpc_stored_messages 1",
+            ])
+        );
+    });
+});
+
+describe("GET /oxen/keys", () => {
+    // Keys generated by the server itself, rotated by the tests below
+    let keyServer: ServerApp;
+    let ed25519Pubkey: string;
+
+    beforeAll(async () => {
+        keyServer = await createApp(
+            await loadServerConfig({
+                NODE_ENV: "test",
+                X25519_ROTATION_GRACE_MS: "60000",
+            })
+        );
+        ed25519Pubkey = CryptoUtils.toHex(
+            (await keyServer.keys.getIdentity()).publicKey
+        );
+    });
+
+    it("publishes the current keys signed by the server identity", async () => {
+        const current = await keyServer.keys.getCurrentKey();
+
+        const response = await request(keyServer.app)
+            .get("/oxen/keys")
+            .expect(200);
+
+        expect(verifyServerKeys(response.body, ed25519Pubkey)).toBe(true);
+        expect(response.body).toMatchObject({
+            ed25519_pubkey: ed25519Pubkey,
+            x25519_pubkey: CryptoUtils.toHex(current.publicKey),
+            previous_x25519: [],
+        });
+    });
+
+    it("still answers requests to a rotated key during its grace period", async () => {
+        const old = await keyServer.keys.getCurrentKey();
+        const rotated = await keyServer.keys.rotate();
+
+        // Encrypted to the old key, and answered with it
+        const response = await sendV4(
+            { method: "GET", endpoint: "/oxen/keys" },
+            keyServer.app,
+            old.publicKey
+        );
+        const health = await sendV4(
+            { method: "GET", endpoint: "/health" },
+            keyServer.app,
+            rotated.publicKey
+        );
+
+        expect(response.status).toBe(200);
+        expect(verifyServerKeys(response.json, ed25519Pubkey)).toBe(true);
+        expect(response.json).toMatchObject({
+            x25519_pubkey: CryptoUtils.toHex(rotated.publicKey),
+            previous_x25519: [
+                {
+                    pubkey: CryptoUtils.toHex(old.publicKey),
+                    expires_at: rotated.createdAt + 60000,
+                },
+            ],
+        });
+        expect(health.status).toBe(200);
+    });
+
+    it("lets OnionBuilder pick up a rotated key", async () => {
+        const handle = await createServer(
+            await loadServerConfig({
+                NODE_ENV: "test",
+                PORT: "0",
+                HOST: "127.0.0.1",
+            })
+        );
+        const { network, serviceNodes } = await startLocalServiceNodes(3);
+        try {
+            const builder = new OnionBuilder(serviceNodes, 3, quietLogger);
+            builder.setNodeProtocol("http");
+            builder.setPathDiversity({
+                distinctSwarms: false,
+                distinctSubnets: false,
+            });
+            const old = await handle.keys.getCurrentKey();
+            const destination = {
+                host: "127.0.0.1",
+                port: handle.port,
+                protocol: "http" as const,
+                target: "/oxen/custom-endpoint/lsrpc",
+                x25519_pubkey: CryptoUtils.toHex(old.publicKey),
+                ed25519_pubkey: CryptoUtils.toHex(
+                    (await handle.keys.getIdentity()).publicKey
+                ),
+            };
+            const rotated = await handle.keys.rotate();
+
+            const refreshed = await builder.refreshDestinationKeys(
+                destination
+            );
+
+            expect(refreshed).toEqual({
+                ...destination,
+                x25519_pubkey: CryptoUtils.toHex(rotated.publicKey),
+            });
+            await expect(
+                builder.refreshDestinationKeys({
+                    ...destination,
+                    ed25519_pubkey: CryptoUtils.toHex(identity.publicKey),
+                })
+            ).rejects.toThrow(ServerKeysError);
+        } finally {
+            await network.stop();
+            await handle.close();
+        }
+    });
+});
+
+describe("request ids", () => {
+    it("echoes the client's x-request-id", async () => {
+        const response = await request(app)
+            .get("/health")
+            .set("x-request-id", "client-42")
+            .expect(200);
+
+        expect(response.headers["x-request-id"]).toBe("client-42");
+    });
+
+    it("assigns a new id when the header is missing or malformed", async () => {
+        const missing = await request(app).get("/health").expect(200);
+        const malformed = await request(app)
+            .get("/health")
+            .set("x-request-id", "not a token")
+            .expect(200);
+
+        expect(missing.headers["x-request-id"]).toMatch(/^[0-9a-f]{16}$/);
+        expect(malformed.headers["x-request-id"]).toMatch(/^[0-9a-f]{16}$/);
+    });
+});
+
+describe("limits", () => {
+    function getMessage(server: Express, signer: IdentityKeyPair) {
+        return request(server)
+            .post("/oxen/custom-endpoint/lsrpc")
+            .send(
+                signed({ method: "get_message", params: { msgId: "1" } }, signer)
+            );
+    }
+
+    function sendTo(
+        server: Express,
+        recipientKey: string,
+        ciphertext: string = "AAAA"
+    ) {
+        const params = {
+            ciphertext,
+            encType: "xchacha20",
+            senderKey: ownKey(),
+            recipientKey,
+        };
+        return request(server)
+            .post("/oxen/custom-endpoint/lsrpc")
+            .send(
+                signed(
+                    { method: "send_message", params },
+                    generateIdentityKeyPair()
+                )
+            );
+    }
+
+    let limited: Express;
+
+    beforeAll(async () => {
+        limited = await loadServer({
+            RATE_LIMIT_BURST: "3",
+            RATE_LIMIT_PER_SECOND: "0.01",
+            MAX_BODY_BYTES: "4096",
+            MAX_MESSAGE_BYTES: "1024",
+            MAX_MESSAGES_PER_RECIPIENT: "2",
+        });
+    });
+
+    it("rate limits each sender key on its own", async () => {
+        const busy = generateIdentityKeyPair();
+        for (let i = 0; i < 3; i++) {
+            await getMessage(limited, busy).expect(404);
+        }
+
+        const response = await getMessage(limited, busy).expect(429);
+
+        expect(response.body).toEqual({
+            error: "Too many requests from this client",
+            code: "RATE_LIMITED",
+            details: { retryAfterMs: expect.any(Number) },
+        });
+        expect(Number(response.headers["retry-after"])).toBeGreaterThan(0);
+        await getMessage(limited, generateIdentityKeyPair()).expect(404);
+    });
+
+    it("answers oversized bodies with 413", async () => {
+        const response = await request(limited)
+            .post("/oxen/custom-endpoint/lsrpc")
+            .set("Content-Type", "application/octet-stream")
+            .send(Buffer.alloc(5000))
+            .expect(413);
+
+        expect(response.body).toEqual({
+            error: "Request body too large",
+            code: "PAYLOAD_TOO_LARGE",
+            details: { maxBytes: 4096 },
+        });
+    });
+
+    it("limits the size of send_message params", async () => {
+        const response = await sendTo(
+            limited,
+            "ab".repeat(32),
+            "A".repeat(1200)
+        ).expect(413);
+
+        expect(response.body).toMatchObject({
+            code: "PAYLOAD_TOO_LARGE",
+            details: { method: "send_message", maxBytes: 1024 },
+        });
+    });
+
+    it("caps the messages stored per recipient key", async () => {
+        const recipientKey = "cd".repeat(32);
+        await sendTo(limited, recipientKey).expect(200);
+        await sendTo(limited, recipientKey).expect(200);
+
+        const response = await sendTo(limited, recipientKey).expect(429);
+
+        expect(response.body).toEqual({
+            error: "Recipient has too many stored messages",
+            code: "MAILBOX_FULL",
+            details: { recipientKey, maxMessages: 2 },
+        });
+        await sendTo(limited, "ef".repeat(32)).expect(200);
+    });
+
+    it("caps the messages stored on the whole server", async () => {
+        const server = await loadServer({ MAX_STORED_MESSAGES: "2" });
+        // Spreading messages over made-up recipient keys does not get past it
+        await sendTo(server, "01".repeat(32)).expect(200);
+        await sendTo(server, "02".repeat(32)).expect(200);
+
+        const response = await sendTo(server, "03".repeat(32)).expect(429);
+
+        expect(response.body).toEqual({
+            error: "Server is storing too many messages",
+            code: "STORAGE_FULL",
+            details: { maxMessages: 2 },
+        });
+    });
+
+    it("rate limits the whole server", async () => {
+        const server = await loadServer({
+            GLOBAL_RATE_LIMIT_BURST: "2",
+            GLOBAL_RATE_LIMIT_PER_SECOND: "0.01",
+        });
+        await getMessage(server, generateIdentityKeyPair()).expect(404);
+        await getMessage(server, generateIdentityKeyPair()).expect(404);
+
+        const response = await getMessage(
+            server,
+            generateIdentityKeyPair()
+        ).expect(429);
+
+        expect(response.body).toMatchObject({
+            error: "Server is busy, try again later",
+            code: "RATE_LIMITED",
+        });
+    });
+
+    it("charges a batch one token per request", async () => {
+        const server = await loadServer({
+            GLOBAL_RATE_LIMIT_BURST: "9",
+            GLOBAL_RATE_LIMIT_PER_SECOND: "0.01",
+            RATE_LIMIT_BURST: "3",
+            RATE_LIMIT_PER_SECOND: "0.01",
+        });
+        const sender = generateIdentityKeyPair();
+        const batch = (size: number, signer: IdentityKeyPair) =>
+            Array.from({ length: size }, () =>
+                signed(
+                    { method: "get_message", params: { msgId: "1" } },
+                    signer
+                )
+            );
+
+        // Four requests from one sender do not fit its bucket of three
+        const tooMany = await request(server)
+            .post("/oxen/custom-endpoint/lsrpc")
+            .send(batch(4, sender))
+            .expect(200);
+        expect(tooMany.body).toEqual(
+            Array(4).fill({
+                success: false,
+                status: 429,
+                error: "Too many requests from this client",
+                code: "RATE_LIMITED",
+                details: { retryAfterMs: expect.any(Number) },
+            })
+        );
+
+        const fits = await request(server)
+            .post("/oxen/custom-endpoint/lsrpc")
+            .send(batch(3, sender))
+            .expect(200);
+        expect(fits.body).toMatchObject(
+            Array(3).fill({ success: false, code: "NOT_FOUND" })
+        );
+        await getMessage(server, sender).expect(429);
+
+        // Eight of the nine global tokens are spent, so a batch of two is
+        // refused as a whole while a single request still fits
+        const busy = await request(server)
+            .post("/oxen/custom-endpoint/lsrpc")
+            .send(batch(2, generateIdentityKeyPair()))
+            .expect(429);
+        expect(busy.body).toMatchObject({
+            error: "Server is busy, try again later",
+            code: "RATE_LIMITED",
+        });
+        await getMessage(server, generateIdentityKeyPair()).expect(404);
+    });
+});
+
+describe("createServer", () => {
+    async function startServer(
+        env: Record<string, string> = {}
+    ): Promise<ServerHandle> {
+        return createServer(
+            await loadServerConfig({
+                NODE_ENV: "test",
+                PORT: "0",
+                HOST: "127.0.0.1",
+                ALLOW_UNSIGNED_REQUESTS: "true",
+                ...env,
+            })
+        );
+    }
+
+    // Start a send_message request and send all but the last byte of its
+    // body, so the server holds it in flight until finish() is called
+    async function startSlowRequest(handle: ServerHandle) {
+        const body = Buffer.from(
+            JSON.stringify({
+                method: "send_message",
+                params: {
+                    ciphertext: "AAAA",
+                    encType: "xchacha20",
+                    senderKey: ownKey(),
+                    recipientKey: ownKey(),
+                },
+            })
+        );
+        const received = new Promise((resolve) =>
+            handle.server.once("request", resolve)
+        );
+        const req = http.request({
+            host: "127.0.0.1",
+            port: handle.port,
+            method: "POST",
+            path: "/oxen/custom-endpoint/lsrpc",
+            headers: {
+                "content-type": "application/json",
+                "content-length": body.length,
+            },
+        });
+        const response = new Promise<{
+            status: number;
+            headers: http.IncomingHttpHeaders;
+            body: any;
+        }>((resolve, reject) => {
+            req.on("error", reject);
+            req.on("response", (res) => {
+                const chunks: Buffer[] = [];
+                res.on("data", (chunk) => chunks.push(chunk));
+                res.on("end", () =>
+                    resolve({
+                        status: res.statusCode!,
+                        headers: res.headers,
+                        body: JSON.parse(Buffer.concat(chunks).toString()),
+                    })
+                );
+            });
+        });
+        response.catch(() => {});
+        req.write(body.subarray(0, -1));
+        await received;
+        return { response, finish: () => req.end(body.subarray(-1)) };
+    }
+
+    it("listens on the configured address until closed", async () => {
+        const handle = await startServer();
+        const baseUrl = `http://127.0.0.1:${handle.port}`;
+
+        expect(handle.port).toBeGreaterThan(0);
+        await request(baseUrl).get("/health").expect(200);
+
+        const closed = handle.close();
+        expect(handle.close()).toBe(closed);
+        await closed;
+        await expect(request(baseUrl).get("/health")).rejects.toThrow(
+            /ECONNREFUSED/
+        );
+    });
+
+    it("finishes in-flight requests before closing", async () => {
+        const handle = await startServer();
+        const { response, finish } = await startSlowRequest(handle);
+
+        let closed = false;
+        const closing = handle.close().then(() => (closed = true));
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(closed).toBe(false);
+
+        finish();
+        const result = await response;
+        await closing;
+
+        expect(result.status).toBe(200);
+        expect(result.body).toMatchObject({ success: true });
+        expect(result.headers.connection).toBe("close");
+    });
+
+    it("drops requests still running at the shutdown timeout", async () => {
+        const handle = await startServer({ SHUTDOWN_TIMEOUT_MS: "50" });
+        const { response } = await startSlowRequest(handle);
+
+        await handle.close();
+
+        await expect(response).rejects.toThrow(/socket hang up/);
+    });
+
+    it("keeps message ids unique across restarts of the message log", async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), "server-"));
+        const env = {
+            MESSAGE_STORE: "jsonl",
+            MESSAGE_STORE_PATH: path.join(dir, "messages.jsonl"),
+        };
+        // Two sends in one millisecond push the next id past the clock
+        const sentAt = jest.spyOn(Date, "now").mockReturnValue(Date.now());
+        async function send(server: Express): Promise<string> {
+            const response = await request(server)
+                .post("/oxen/custom-endpoint/lsrpc")
+                .send(
+                    signed({ method: "send_message", params: { ...envelope } })
+                )
+                .expect(200);
+            return response.body.data.msgId;
+        }
+        try {
+            const before = await loadServer(env);
+            const first = await send(before);
+            const second = await send(before);
+
+            const after = await loadServer(env);
+            const third = await send(after);
+
+            expect(Number(third)).toBe(Number(second) + 1);
+            expect(third).not.toBe(first);
+        } finally {
+            sentAt.mockRestore();
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it("flushes the message log on close", async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), "server-"));
+        const storePath = path.join(dir, "messages.jsonl");
+        try {
+            const handle = await startServer({
+                MESSAGE_STORE: "jsonl",
+                MESSAGE_STORE_PATH: storePath,
+            });
+            const { response, finish } = await startSlowRequest(handle);
+            const closing = handle.close();
+            finish();
+            const { msgId } = (await response).body.data;
+            await closing;
+
+            expect(await fs.readFile(storePath, "utf8")).toContain(msgId);
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+});
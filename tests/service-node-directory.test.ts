@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from "@jest/globals";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+    ServiceNodeDirectory,
+    validateServiceNode,
+    getSubnet24,
+} from "../onion/service-node-directory";
+import type { ServiceNode } from "../onion/onion-builder";
+
+function node(index: number, overrides: Partial<ServiceNode> = {}): ServiceNode {
+    const hex = index.toString(16).padStart(2, "0");
+    return {
+        pubkey_ed25519: hex.repeat(32),
+        pubkey_x25519: `f${hex}`.padEnd(64, "0"),
+        public_ip: `10.${index}.0.1`,
+        storage_lmq_port: 20200,
+        storage_port: 22100,
+        swarm_id: index % 2,
+        ...overrides,
+    };
+}
+
+describe("validateServiceNode", () => {
+    it("accepts a well-formed node", () => {
+        expect(validateServiceNode(node(1))).toEqual([]);
+    });
+
+    it("reports every invalid field", () => {
+        expect(
+            validateServiceNode(
+                node(1, {
+                    pubkey_ed25519: "abc",
+                    pubkey_x25519: "zz".repeat(32),
+                    public_ip: "not-an-ip",
+                    storage_port: 0,
+                    storage_lmq_port: 70000,
+                    swarm_id: -1,
+                })
+            )
+        ).toEqual([
+            "pubkey_ed25519 must be 64 hex characters",
+            "pubkey_x25519 must be 64 hex characters",
+            "public_ip must be an IPv4 address",
+            "storage_port must be between 1 and 65535",
+            "storage_lmq_port must be between 0 and 65535",
+            "swarm_id must be a non-negative number",
+        ]);
+    });
+});
+
+describe("getSubnet24", () => {
+    it("returns the first three octets", () => {
+        expect(getSubnet24("185.219.84.241")).toBe("185.219.84");
+    });
+});
+
+describe("ServiceNodeDirectory", () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "snodes-"));
+    });
+
+    afterEach(async () => {
+        jest.useRealTimers();
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it("drops invalid and duplicate nodes and indexes the rest by swarm", () => {
+        const directory = new ServiceNodeDirectory();
+
+        const rejected = directory.setNodes([
+            node(1),
+            node(2),
+            node(3),
+            node(1),
+            node(4, { public_ip: "" }),
+        ]);
+
+        expect(rejected).toHaveLength(2);
+        expect(directory.getNodes()).toHaveLength(3);
+        expect(directory.getSwarmIds().sort()).toEqual(["0", "1"]);
+        expect(directory.getSwarm(1).map((n) => n.public_ip)).toEqual([
+            "10.1.0.1",
+            "10.3.0.1",
+        ]);
+        expect(directory.getSwarm("0")).toHaveLength(1);
+    });
+
+    it("saves and loads the node list through a JSON file", async () => {
+        const filePath = path.join(tempDir, "nested", "nodes.json");
+        const saved = new ServiceNodeDirectory({ filePath, minNodes: 1 });
+        await saved.refresh(async () => [node(1), node(2)]);
+
+        const loaded = new ServiceNodeDirectory({ filePath });
+        expect(await loaded.load()).toBe(true);
+
+        expect(loaded.getNodes()).toEqual(saved.getNodes());
+        expect(loaded.getUpdatedAt()).toEqual(saved.getUpdatedAt());
+    });
+
+    it("loads a bare array of nodes", async () => {
+        const filePath = path.join(tempDir, "nodes.json");
+        await fs.writeFile(filePath, JSON.stringify([node(5)]));
+
+        const directory = new ServiceNodeDirectory({ filePath });
+
+        expect(await directory.load()).toBe(true);
+        expect(directory.getNodes()).toEqual([node(5)]);
+        const { mtime } = await fs.stat(filePath);
+        expect(directory.getUpdatedAt()).toEqual(mtime);
+    });
+
+    it("does not date a list that was set rather than fetched", async () => {
+        const filePath = path.join(tempDir, "nodes.json");
+        const directory = new ServiceNodeDirectory({ filePath });
+
+        directory.setNodes([node(1), node(2)]);
+        await directory.save();
+
+        expect(directory.getUpdatedAt()).toBeNull();
+        expect(JSON.parse(await fs.readFile(filePath, "utf8"))).toEqual({
+            nodes: [node(1), node(2)],
+        });
+    });
+
+    it("reports a missing file without throwing", async () => {
+        const directory = new ServiceNodeDirectory({
+            filePath: path.join(tempDir, "missing.json"),
+        });
+
+        expect(await directory.load()).toBe(false);
+        expect(directory.getNodes()).toEqual([]);
+    });
+
+    it("refreshes from a fetcher and persists the result", async () => {
+        const filePath = path.join(tempDir, "nodes.json");
+        const directory = new ServiceNodeDirectory({ filePath, minNodes: 1 });
+
+        await directory.refresh(async () => [node(7)]);
+
+        const file = JSON.parse(await fs.readFile(filePath, "utf8"));
+        expect(file.nodes).toEqual([node(7)]);
+    });
+
+    it("refuses a refreshed list with too few valid nodes", async () => {
+        const filePath = path.join(tempDir, "nodes.json");
+        const directory = new ServiceNodeDirectory({ filePath, minNodes: 3 });
+        directory.setNodes([node(1), node(2), node(3)]);
+        const updatedAt = directory.getUpdatedAt();
+
+        for (const nodes of [
+            [],
+            [node(4), node(5)],
+            [node(4), node(5), node(6, { public_ip: "0.0.0.0" })],
+        ]) {
+            await expect(directory.refresh(async () => nodes)).rejects.toThrow(
+                "Refusing a node list with"
+            );
+        }
+
+        expect(directory.getNodes()).toEqual([node(1), node(2), node(3)]);
+        expect(directory.getUpdatedAt()).toBe(updatedAt);
+        await expect(fs.access(filePath)).rejects.toThrow();
+    });
+
+    it("refreshes on an interval until stopped", async () => {
+        jest.useFakeTimers();
+        const directory = new ServiceNodeDirectory({
+            refreshIntervalMs: 1000,
+            minNodes: 1,
+        });
+        let calls = 0;
+
+        directory.startAutoRefresh(async () => {
+            calls++;
+            return [node(calls)];
+        });
+        await jest.advanceTimersByTimeAsync(2500);
+        directory.stopAutoRefresh();
+        await jest.advanceTimersByTimeAsync(5000);
+
+        expect(calls).toBe(2);
+        expect(directory.getNodes()).toEqual([node(2)]);
+    });
+
+    it("keeps the current list when a scheduled refresh fails", async () => {
+        jest.useFakeTimers();
+        const directory = new ServiceNodeDirectory({ refreshIntervalMs: 1000 });
+        directory.setNodes([node(1)]);
+        const errors: unknown[] = [];
+
+        directory.startAutoRefresh(
+            async () => {
+                throw new Error("seed down");
+            },
+            (error) => errors.push(error)
+        );
+        await jest.advanceTimersByTimeAsync(1000);
+        directory.stopAutoRefresh();
+
+        expect(errors).toHaveLength(1);
+        expect(directory.getNodes()).toEqual([node(1)]);
+    });
+});